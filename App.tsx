@@ -1,204 +1,391 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { ProjectStage, RoadmapData } from './types';
-import { INITIAL_STAGES, THEME_COLORS } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { LayoutSettings, ProjectStage, RoadmapData, RoadmapLane, RoadmapTheme, RoadPosition, SavedRoadmap, StageChange, TimelineMode } from './types';
+import { BUILT_IN_TEMPLATES, DEFAULT_ROADMAP } from './constants';
 import Timeline from './components/Timeline';
 import StageEditor from './components/StageEditor';
 import JsonEditor from './components/JsonEditor';
+import MarkdownPanel from './components/MarkdownPanel';
+import CsvImportDialog, { CsvImportMode } from './components/CsvImportDialog';
+import RoadmapLibrary from './components/RoadmapLibrary';
+import HistoryPanel from './components/HistoryPanel';
+import ExportDialog from './components/ExportDialog';
+import ConvertersDialog from './components/ConvertersDialog';
+import ShareDialog from './components/ShareDialog';
+import PresentationMode from './components/PresentationMode';
+import CollaborationDialog from './components/CollaborationDialog';
+import CommentsPanel, { CommentsPanelProps } from './components/CommentsPanel';
+import SnapshotsPanel from './components/SnapshotsPanel';
+import CompareDialog from './components/CompareDialog';
+import AiReviewDialog from './components/AiReviewDialog';
+import AiSettingsDialog from './components/AiSettingsDialog';
+import TemplateGallery from './components/TemplateGallery';
+import SaveTemplateDialog from './components/SaveTemplateDialog';
+import LayoutPanel from './components/LayoutPanel';
+import ThemePanel from './components/ThemePanel';
+import LanesPanel from './components/LanesPanel';
+import TimelineCanvas from './components/TimelineCanvas';
+import { useRoadmapLibrary } from './hooks/useRoadmapLibrary';
+import { useHistory } from './hooks/useHistory';
+import { useTimelineGeometry } from './hooks/useTimelineGeometry';
+import { useViewport } from './hooks/useViewport';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useAiSettings } from './hooks/useAiSettings';
+import { useTemplates } from './hooks/useTemplates';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions } from './services/exporter';
+import { exportAs } from './services/converters';
+import { AI_PROVIDERS, GenerateOptions, generateJson } from './services/aiProviders';
+import { readStreamedStages } from './services/aiPrompts';
+import { StageDraft } from './utils/aiRefinements';
+import { REFINEMENT_ACTIONS, RefinementKind, RefinementProposal, requestRefinement } from './services/aiRefinements';
+import { hasAnyDates } from './utils/dates';
+import { removeDependencyOn } from './utils/dependencies';
+import { addLane, hasLanes, removeLane } from './utils/lanes';
+import { CommentThread, addComment, countOpenThreads, getRoadmapThreads, getStageThreads, setThreadResolved } from './utils/comments';
+import { diffRoadmaps, getStageChange, restoreStage } from './utils/roadmapDiff';
+import { parseRoadmap } from './utils/schema';
+import { PIN_HEAD_OFFSET } from './utils/roadLayout';
 
-const STORAGE_KEY = 'roadmap_visionary_data_v2';
-const MAX_HISTORY = 30;
+// Locating a stage zooms in at least this far so its card is readable.
+const LOCATE_MIN_SCALE = 0.8;
 
-const DEFAULT_ROADMAP: RoadmapData = {
-  title: 'Roadmap Visionary',
-  description: 'Visualize your project journey with precision. Add stages manually or let AI draft your entire strategy.',
-  stages: INITIAL_STAGES
+const STAGE_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  color: 'color',
+  startDate: 'schedule',
+  endDate: 'schedule',
+  durationDays: 'schedule',
+  dependsOn: 'dependencies',
+  placement: 'card placement',
+  tasks: 'tasks',
+  status: 'status',
+  assignees: 'assignees',
+  laneId: 'lane'
 };
 
+// Elements that keep their own text undo stack instead of the roadmap history.
+const isNativeUndoTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('[data-native-undo]') !== null;
+
 const App: React.FC = () => {
-  const [data, setData] = useState<RoadmapData>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          return { ...DEFAULT_ROADMAP, stages: parsed };
-        }
-        return parsed;
-      } catch (e) {
-        return DEFAULT_ROADMAP;
-      }
-    }
-    return DEFAULT_ROADMAP;
-  });
+  const history = useHistory<RoadmapData>(DEFAULT_ROADMAP, 'Opened roadmap');
+  const data = history.present;
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [exportDialog, setExportDialog] = useState<{ options: ExportOptions; error: string | null } | null>(null);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [isConvertersOpen, setIsConvertersOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [isCollaborationOpen, setIsCollaborationOpen] = useState(false);
+  const dragSession = useRef(0);
 
-  const [history, setHistory] = useState<RoadmapData[]>([]);
+  // A live session belongs to the roadmap it started on, so switching roadmaps leaves the room.
+  const library = useRoadmapLibrary((roadmap: SavedRoadmap) => {
+    collaboration.disconnect();
+    history.reset(roadmap.data, `Opened '${roadmap.name}'`);
+  });
+  const collaboration = useCollaboration(data, (merged, label, groupKey) => history.commit(label, merged, groupKey));
+  const activeRoadmap = library.roadmaps.find(r => r.id === library.activeId);
+  const [commentAuthor, setCommentAuthor] = useState(collaboration.defaults.name);
+  const [isRoadmapCommentsOpen, setIsRoadmapCommentsOpen] = useState(false);
+  // Which versions are being compared; the Timeline overlay shows while the dialog is closed.
+  const [comparison, setComparison] = useState<{ fromId: string; toId: string | null; isOpen: boolean } | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [prompt, setPrompt] = useState('');
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+  const [refining, setRefining] = useState<{ kind: RefinementKind; stageId?: string } | null>(null);
+  const [aiProposal, setAiProposal] = useState<RefinementProposal | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiRetry, setAiRetry] = useState<string | null>(null);
+  const [generationMode, setGenerationMode] = useState<'replace' | 'append'>('replace');
+  // Stages that have streamed in so far, shown on the Timeline before the result is committed.
+  const [streamedStages, setStreamedStages] = useState<StageDraft[] | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const isAiBusy = isAiLoading || !!refining;
+  const aiSettings = useAiSettings();
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const templates = useTemplates();
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved' | 'failed'>('idle');
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
-  const [activeSidebarTab, setActiveSidebarTab] = useState<'ai' | 'json'>('json');
+  const [activeSidebarTab, setActiveSidebarTab] = useState<'ai' | 'json' | 'markdown' | 'history'>('json');
+  const [timelineMode, setTimelineMode] = useState<TimelineMode>('even');
+  const [showDependencies, setShowDependencies] = useState(false);
+  const [openPanel, setOpenPanel] = useState<'layout' | 'theme' | 'lanes' | null>(null);
+  const [locatedStageId, setLocatedStageId] = useState<string | null>(null);
+  const timelineData = useMemo<RoadmapData>(() => {
+    if (!streamedStages || streamedStages.length === 0) return data;
+    const kept = generationMode === 'append' ? data.stages : [];
+    const { palette } = data.theme;
+    const preview = streamedStages.map((draft, i) => ({
+      id: `ai-preview-${i}`,
+      title: draft.title,
+      description: draft.description,
+      color: palette[(kept.length + i) % palette.length]
+    }));
+    return { ...data, stages: [...kept, ...preview], currentPosition: generationMode === 'append' ? data.currentPosition : undefined };
+  }, [data, streamedStages, generationMode]);
+  const geometry = useTimelineGeometry(timelineData, timelineMode);
+  const viewport = useViewport(geometry.width, geometry.height);
+  const canUseCalendar = hasAnyDates(data.stages) && (data.layout.orientation !== 'vertical' || hasLanes(data));
+  const roadmapThreads = getRoadmapThreads(data.comments, data.stages);
+  const comparedSnapshot = comparison ? library.snapshots.find(s => s.id === comparison.fromId) : undefined;
+  const comparedData = useMemo(() => (comparedSnapshot ? parseRoadmap(comparedSnapshot.data).data : null), [comparedSnapshot]);
+  const isComparingOnRoadmap = !!comparison && !comparison.isOpen && comparison.toId === null && !!comparedData;
+  const stageChanges = useMemo(() => {
+    if (!isComparingOnRoadmap) return undefined;
+    const changes: Record<string, StageChange> = {};
+    diffRoadmaps(comparedData!, data).stages.forEach(stage => {
+      const change = getStageChange(stage);
+      if (change && change !== 'removed') changes[stage.id] = change;
+    });
+    return changes;
+  }, [isComparingOnRoadmap, comparedData, data]);
 
   useEffect(() => {
-    if (saveStatus === 'saved') {
+    if (saveStatus !== 'idle') {
       const timer = setTimeout(() => setSaveStatus('idle'), 3000);
       return () => clearTimeout(timer);
     }
   }, [saveStatus]);
 
-  const pushToHistory = useCallback((currentState: RoadmapData) => {
-    setHistory(prev => {
-      const newHistory = [...prev, JSON.parse(JSON.stringify(currentState))];
-      if (newHistory.length > MAX_HISTORY) return newHistory.slice(1);
-      return newHistory;
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isNativeUndoTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Typing is grouped per field, so a whole edit undoes in one step.
+  const updateHeader = (updates: Partial<Pick<RoadmapData, 'title' | 'description'>>) => {
+    const field = 'title' in updates ? 'title' : 'description';
+    history.commit(`Edited roadmap ${field}`, prev => ({ ...prev, ...updates }), `header:${field}`);
+  };
+
+  // Slider drags are grouped per setting, like typing.
+  const updateLayout = (updates: Partial<LayoutSettings>) => {
+    const field = Object.keys(updates)[0];
+    history.commit(`Changed layout ${field}`, prev => ({ ...prev, layout: { ...prev.layout, ...updates } }), `layout:${field}`);
+  };
+
+  const updateTheme = (updates: Partial<RoadmapTheme>) => {
+    const field = Object.keys(updates).find(key => key !== 'name') || 'name';
+    history.commit(`Changed theme ${field}`, prev => ({ ...prev, theme: { ...prev.theme, ...updates } }), `theme:${field}`);
+  };
+
+  // Presets replace the whole theme but keep the roadmap's own logo.
+  const applyThemePreset = (preset: RoadmapTheme) => {
+    history.commit(`Applied '${preset.name}' theme`, prev => ({ ...prev, theme: { ...preset, logo: prev.theme.logo } }));
+  };
+
+  const recolorStages = () => {
+    history.commit('Recolored stages from palette', prev => ({
+      ...prev,
+      stages: prev.stages.map((stage, i) => ({ ...stage, color: prev.theme.palette[i % prev.theme.palette.length] }))
+    }));
+  };
+
+  const addNewLane = () => {
+    history.commit('Added lane', prev => {
+      const lanes = prev.lanes || [];
+      return { ...prev, lanes: addLane(lanes, '', prev.theme.palette[lanes.length % prev.theme.palette.length]) };
     });
-  }, []);
+  };
 
-  const undo = () => {
-    if (history.length === 0) return;
-    const previousState = history[history.length - 1];
-    setHistory(prev => prev.slice(0, -1));
-    setData(previousState);
+  // Renames and recolors merge into one step, like typing.
+  const updateLane = (id: string, updates: Partial<RoadmapLane>) => {
+    const field = Object.keys(updates)[0];
+    history.commit(
+      `Changed lane ${field}`,
+      prev => ({ ...prev, lanes: prev.lanes?.map(lane => (lane.id === id ? { ...lane, ...updates } : lane)) }),
+      `lane:${id}:${field}`
+    );
   };
 
-  const updateHeader = (updates: Partial<Pick<RoadmapData, 'title' | 'description'>>) => {
-    setData(prev => ({ ...prev, ...updates }));
+  const deleteLane = (id: string) => {
+    const lane = data.lanes?.find(l => l.id === id);
+    history.commit(`Removed lane '${lane?.name || 'Untitled'}'`, prev => removeLane(prev, id));
   };
 
   const addNewStage = () => {
-    pushToHistory(data);
     const newId = Math.random().toString(36).substr(2, 9);
-    const color = THEME_COLORS[data.stages.length % THEME_COLORS.length];
+    const { palette } = data.theme;
+    const color = palette[data.stages.length % palette.length];
     const newStages = [...data.stages, { 
       id: newId, 
       title: 'New Milestone', 
       description: 'Describe what happens in this stage of your journey.', 
       color 
     }];
-    setData(prev => ({ ...prev, stages: newStages }));
+    history.commit("Added stage 'New Milestone'", { ...data, stages: newStages });
   };
 
   const removeStage = (id: string) => {
-    pushToHistory(data);
-    const newStages = data.stages.filter(s => s.id !== id);
-    setData(prev => ({ ...prev, stages: newStages }));
+    const removed = data.stages.find(s => s.id === id);
+    const newStages = removeDependencyOn(data.stages.filter(s => s.id !== id), id);
+    // The marker goes with the stretch of road it sat on.
+    const currentPosition = data.currentPosition?.stageId === id ? undefined : data.currentPosition;
+    history.commit(`Removed stage '${removed?.title || 'Untitled'}'`, { ...data, stages: newStages, currentPosition });
+  };
+
+  // Offset slider drags merge into one step, like typing.
+  const setCurrentPosition = (position: RoadPosition | undefined) => {
+    const stage = position && data.stages.find(s => s.id === position.stageId);
+    history.commit(
+      stage ? `Moved "you are here" to '${stage.title || 'Untitled'}'` : 'Cleared "you are here" marker',
+      prev => ({ ...prev, currentPosition: position }),
+      position ? `position:${position.stageId}` : undefined
+    );
   };
 
   const updateStage = (id: string, updates: Partial<ProjectStage>) => {
-    setData(prev => {
-      const newStages = prev.stages.map(s => s.id === id ? { ...s, ...updates } : s);
-      return { ...prev, stages: newStages };
-    });
+    const stage = data.stages.find(s => s.id === id);
+    const fields = Object.keys(updates);
+    const fieldLabel = [...new Set(fields.map(f => STAGE_FIELD_LABELS[f] || f))].join(' & ');
+    history.commit(
+      `Edited ${fieldLabel} of '${stage?.title || 'Untitled'}'`,
+      prev => ({ ...prev, stages: prev.stages.map(s => s.id === id ? { ...s, ...updates } : s) }),
+      `stage:${id}:${fields.sort().join(',')}`
+    );
+  };
+
+  const describeCommentAnchor = (stageId?: string) => {
+    const stage = stageId && data.stages.find(s => s.id === stageId);
+    return stage ? `'${stage.title || 'Untitled'}'` : 'the roadmap';
+  };
+
+  const postComment = (text: string, anchor: { stageId?: string; threadId?: string }) => {
+    const thread = anchor.threadId ? data.comments?.find(c => c.id === anchor.threadId) : undefined;
+    const where = describeCommentAnchor(thread ? thread.stageId : anchor.stageId);
+    history.commit(
+      thread ? `Replied to a comment on ${where}` : `Commented on ${where}`,
+      prev => ({ ...prev, comments: addComment(prev.comments, { author: commentAuthor, text, ...anchor }) })
+    );
+  };
+
+  const resolveThread = (threadId: string, resolved: boolean) => {
+    const thread = data.comments?.find(c => c.id === threadId);
+    history.commit(
+      `${resolved ? 'Resolved' : 'Reopened'} a comment on ${describeCommentAnchor(thread?.stageId)}`,
+      prev => ({ ...prev, comments: setThreadResolved(prev.comments, threadId, resolved) })
+    );
+  };
+
+  const commentsPanelProps = (threads: CommentThread[], stageId?: string): CommentsPanelProps => ({
+    threads,
+    author: commentAuthor,
+    onAuthorChange: setCommentAuthor,
+    onAdd: (text, threadId) => postComment(text, threadId ? { threadId } : { stageId }),
+    onResolve: resolveThread
+  });
+
+  const takeSnapshot = (name: string) => {
+    library.takeSnapshot(data, name.trim() || `Snapshot ${library.snapshots.length + 1}`);
+  };
+
+  const deleteSnapshot = (id: string) => {
+    if (comparison && (comparison.fromId === id || comparison.toId === id)) setComparison(null);
+    library.removeSnapshot(id);
   };
 
+  const restoreFromSnapshot = (stageId: string) => {
+    if (!comparedData || !comparedSnapshot) return;
+    const stage = comparedData.stages.find(s => s.id === stageId);
+    history.commit(
+      `Restored '${stage?.title || 'Untitled'}' from '${comparedSnapshot.name}'`,
+      prev => restoreStage(prev, comparedData, stageId)
+    );
+  };
+
+  // Brings a stage into view on the canvas and briefly highlights its pin.
+  const locateStage = (index: number) => {
+    const pos = geometry.positions[index];
+    if (!pos) return;
+    viewport.centerOn(pos.x, pos.y - PIN_HEAD_OFFSET, LOCATE_MIN_SCALE);
+    viewport.containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setLocatedStageId(data.stages[index].id);
+  };
+
+  useEffect(() => {
+    if (!locatedStageId) return;
+    const timer = setTimeout(() => setLocatedStageId(null), 1600);
+    return () => clearTimeout(timer);
+  }, [locatedStageId]);
+
   const handleJsonChange = (newData: RoadmapData) => {
     if (JSON.stringify(newData) !== JSON.stringify(data)) {
-      pushToHistory(data);
-      setData(newData);
+      history.commit('Edited JSON source', newData, 'json');
     }
   };
 
-  const saveToLocalStorage = () => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    setSaveStatus('saved');
+  const importMarkdown = (newData: RoadmapData, source: string) => {
+    history.commit(`Imported ${source}`, newData);
   };
 
-  const getSanitizedSvg = () => {
-    const svgElement = document.getElementById('roadmap-svg-export');
-    if (!svgElement) return null;
+  const importConverted = (newData: RoadmapData, format: string) => {
+    history.commit(`Imported from ${format}`, newData);
+    setIsConvertersOpen(false);
+  };
 
-    const clonedSvg = svgElement.cloneNode(true) as SVGElement;
-    clonedSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const importStages = (stages: ProjectStage[], mode: CsvImportMode) => {
+    const count = `${stages.length} ${stages.length === 1 ? 'stage' : 'stages'}`;
+    history.commit(
+      mode === 'replace' ? `Replaced stages with ${count} from CSV` : `Imported ${count} from CSV`,
+      prev => mode === 'replace'
+        ? { ...prev, stages, currentPosition: undefined }
+        : { ...prev, stages: [...prev.stages, ...stages] }
+    );
+    setIsCsvImportOpen(false);
+  };
 
-    // Handle export-only elements
-    const exportOnlyElements = clonedSvg.querySelectorAll('.svg-export-only');
-    exportOnlyElements.forEach(el => {
-      (el as HTMLElement).style.display = 'block';
-    });
+  const exportCsv = () => exportAs('csv', data);
 
-    // Handle no-export elements
-    const noExportElements = clonedSvg.querySelectorAll('.no-export');
-    noExportElements.forEach(el => {
-      el.remove();
-    });
+  const saveRoadmap = async () => {
+    setSaveStatus((await library.save(data)) ? 'saved' : 'failed');
+  };
 
-    // Inline basic styles to ensure they carry over
-    const styles = `
-      text { font-family: 'Inter', sans-serif; }
-      .svg-export-only { display: block !important; }
-    `;
-    const styleElement = document.createElement('style');
-    styleElement.textContent = styles;
-    clonedSvg.prepend(styleElement);
+  // The roadmap being left is saved first so switching never loses edits; when
+  // that fails the library stays open with the error instead.
+  const openRoadmap = async (id: string) => {
+    if (!(await library.save(data))) return;
+    await library.open(id);
+    setIsLibraryOpen(false);
+  };
 
-    return clonedSvg;
+  const createRoadmap = async () => {
+    if (!(await library.save(data)) || !(await library.create())) return;
+    setIsLibraryOpen(false);
   };
 
-  const exportAsSvg = () => {
-    const clonedSvg = getSanitizedSvg();
-    if (!clonedSvg) return;
+  const createFromTemplate = async (filled: RoadmapData) => {
+    setIsTemplatesOpen(false);
+    if (!(await library.save(data)) || !(await library.create(filled))) return;
+    setIsLibraryOpen(false);
+  };
 
-    const serializer = new XMLSerializer();
-    const source = serializer.serializeToString(clonedSvg);
-    const svgBlob = new Blob([source], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${data.title.toLowerCase().replace(/\s+/g, '-')}.svg`;
-    link.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const exportAsJpg = async () => {
-    const clonedSvg = getSanitizedSvg();
-    if (!clonedSvg) return;
-
-    // To prevent "tainted canvas" error with foreignObject, we must ensure 
-    // the image is drawn from a data URL and the browser doesn't block the export.
-    // Note: Some browsers strictly block toDataURL if foreignObject is present.
-    const width = parseFloat(clonedSvg.getAttribute('width') || '2000');
-    const height = parseFloat(clonedSvg.getAttribute('height') || '2000');
-    
-    const serializer = new XMLSerializer();
-    const svgString = serializer.serializeToString(clonedSvg);
-    
-    // Using base64 encoding instead of Blob URL can sometimes help with tainting
-    const svgBase64 = btoa(unescape(encodeURIComponent(svgString)));
-    const img = new Image();
-    img.crossOrigin = 'anonymous'; // Try to avoid tainting
-
-    img.onload = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        const scale = 2; // Retina quality
-        canvas.width = width * scale;
-        canvas.height = height * scale;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.fillStyle = 'white';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          ctx.scale(scale, scale);
-          ctx.drawImage(img, 0, 0);
-          
-          // If this fails, it's due to foreignObject security restrictions in the browser
-          const jpgUrl = canvas.toDataURL('image/jpeg', 0.9);
-          const link = document.createElement('a');
-          link.download = `${data.title.toLowerCase().replace(/\s+/g, '-')}.jpg`;
-          link.href = jpgUrl;
-          link.click();
-        }
-      } catch (err) {
-        console.error('Export failed due to browser security restrictions on SVG foreignObjects:', err);
-        alert('Could not export as JPG due to security restrictions. Please try SVG export instead.');
-      }
-    };
-    img.src = `data:image/svg+xml;base64,${svgBase64}`;
+  const runQuickExport = async (format: ExportFormat) => {
+    const options = { ...DEFAULT_EXPORT_OPTIONS, format };
+    try {
+      await exportAs(format, data, options);
+    } catch (err) {
+      console.error('Export Error:', err);
+      setExportDialog({ options, error: err instanceof Error ? err.message : 'Export failed.' });
+    }
   };
 
   const handleDragStart = (index: number) => {
-    pushToHistory(data);
+    dragSession.current += 1;
     setDraggedIndex(index);
   };
 
@@ -212,56 +399,137 @@ const App: React.FC = () => {
     newStages.splice(index, 0, item);
     
     setDraggedIndex(index);
-    setData(prev => ({ ...prev, stages: newStages }));
-  }, [draggedIndex, data.stages]);
+    // One drag gesture is one history entry, however many slots it passes.
+    history.commit(`Moved stage '${item.title || 'Untitled'}'`, prev => ({ ...prev, stages: newStages }), `drag:${dragSession.current}`);
+  }, [draggedIndex, data.stages, history.commit]);
 
   const handleDragEnd = () => {
     setDraggedIndex(null);
   };
 
+  const describeAiError = (error: unknown) => (error instanceof Error && error.message ? error.message : 'The AI request failed.');
+
+  const aiOptions = (controller: AbortController): GenerateOptions => ({
+    signal: controller.signal,
+    onRetry: (attempt) => setAiRetry(`The answer was malformed; asking again (${attempt} of 3)…`)
+  });
+
+  const startAiRequest = () => {
+    aiAbortRef.current?.abort();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    setAiError(null);
+    setAiRetry(null);
+    return controller;
+  };
+
+  const finishAiRequest = (controller: AbortController) => {
+    if (aiAbortRef.current === controller) aiAbortRef.current = null;
+    setAiRetry(null);
+  };
+
+  const cancelAi = () => aiAbortRef.current?.abort();
+
   const generateWithAi = async () => {
     if (!prompt.trim()) return;
+    const controller = startAiRequest();
+    const append = generationMode === 'append';
     setIsAiLoading(true);
+    setStreamedStages([]);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Create a professional project timeline: "${prompt}". Return JSON array of objects: {title, description}.`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                description: { type: Type.STRING }
-              },
-              required: ['title', 'description']
-            }
-          }
-        }
+      const { stages: drafts } = await generateJson(aiSettings.settings, 'generate', { idea: prompt }, {
+        ...aiOptions(controller),
+        onText: (text) => setStreamedStages(readStreamedStages(text))
       });
-      const parsedStages = JSON.parse(response.text);
-      pushToHistory(data);
-      const newStages = parsedStages.map((item: any, index: number) => ({
+      if (controller.signal.aborted) return;
+      const offset = append ? data.stages.length : 0;
+      const newStages = drafts.map((item, index) => ({
         id: Math.random().toString(36).substr(2, 9),
         title: item.title,
         description: item.description,
-        color: THEME_COLORS[index % THEME_COLORS.length]
+        color: data.theme.palette[(offset + index) % data.theme.palette.length]
       }));
-      setData(prev => ({ ...prev, stages: newStages }));
+      if (append) {
+        history.commit(`AI added ${newStages.length} stages`, prev => ({ ...prev, stages: [...prev.stages, ...newStages] }));
+      } else {
+        // Regenerating replaces every stage, so the old ones are kept for comparing.
+        await library.takeSnapshot(data, 'Before AI generation');
+        history.commit(`AI generated ${newStages.length} stages`, prev => ({ ...prev, stages: newStages, currentPosition: undefined }));
+      }
       setPrompt('');
     } catch (error) {
-      console.error('AI Error:', error);
+      if (!controller.signal.aborted) setAiError(describeAiError(error));
     } finally {
+      finishAiRequest(controller);
       setIsAiLoading(false);
+      setStreamedStages(null);
     }
   };
 
+  const refineWithAi = async (kind: RefinementKind, stageId?: string) => {
+    const controller = startAiRequest();
+    setRefining({ kind, stageId });
+    try {
+      const proposal = await requestRefinement(aiSettings.settings, data, kind, stageId, aiOptions(controller));
+      if (!controller.signal.aborted) setAiProposal(proposal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setAiError(describeAiError(error));
+      setActiveSidebarTab('ai');
+    } finally {
+      finishAiRequest(controller);
+      setRefining(null);
+    }
+  };
+
+  const acceptAiProposal = () => {
+    if (!aiProposal) return;
+    history.commit(aiProposal.label, prev => aiProposal.apply(prev));
+    setAiProposal(null);
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-[#fcfcfd] text-slate-900">
       <header className="bg-white pt-12 pb-8 text-center relative">
+        <button
+          onClick={() => setIsLibraryOpen(true)}
+          className="absolute top-6 left-6 flex items-center gap-2 px-5 py-2.5 bg-white text-slate-500 border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:text-slate-900 shadow-sm transition-all max-w-[260px]"
+        >
+          <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 6h16M4 12h16M4 18h7"/></svg>
+          <span className="truncate">{activeRoadmap ? activeRoadmap.name : 'Library'}</span>
+        </button>
+        <div className="absolute top-6 right-6 flex gap-2">
+          <button
+            onClick={() => setIsCollaborationOpen(true)}
+            title="Edit together with others in real time"
+            className="flex items-center gap-2 px-5 py-2.5 bg-white text-slate-500 border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:text-slate-900 shadow-sm transition-all"
+          >
+            <span className={`w-2 h-2 rounded-full ${!collaboration.session ? 'bg-slate-300' : collaboration.status === 'connected' ? 'bg-emerald-500' : 'bg-amber-400'}`} />
+            Live
+            {collaboration.peers.length > 0 && (
+              <span className="flex -space-x-1.5">
+                {collaboration.peers.slice(0, 4).map(peer => (
+                  <span
+                    key={peer.id}
+                    title={peer.name}
+                    className="w-5 h-5 rounded-full border-2 border-white flex items-center justify-center text-[8px] text-white"
+                    style={{ backgroundColor: peer.color }}
+                  >
+                    {peer.name.charAt(0).toUpperCase()}
+                  </span>
+                ))}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setIsShareOpen(true)}
+            title="Create a read-only link to this roadmap"
+            className="flex items-center gap-2 px-5 py-2.5 bg-white text-slate-500 border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:text-slate-900 shadow-sm transition-all"
+          >
+            <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"/></svg>
+            Share
+          </button>
+        </div>
         <div className="container mx-auto px-4 flex flex-col items-center">
           <input 
             value={data.title}
@@ -276,18 +544,120 @@ const App: React.FC = () => {
             className="w-full max-w-2xl text-lg text-slate-500 font-medium bg-transparent text-center border-none outline-none focus:ring-0 resize-none placeholder:text-slate-200 mt-2"
             placeholder="Description..."
           />
+          <button
+            onClick={() => setIsRoadmapCommentsOpen(prev => !prev)}
+            title="Feedback on the roadmap as a whole"
+            className={`mt-2 flex items-center gap-2 px-4 py-1.5 rounded-full border text-[10px] font-black uppercase tracking-widest transition-all ${isRoadmapCommentsOpen ? 'bg-indigo-50 border-indigo-100 text-indigo-600' : 'border-slate-200 text-slate-400 hover:text-slate-900'}`}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"/></svg>
+            Comments
+            {countOpenThreads(roadmapThreads) > 0 && (
+              <span className="px-1.5 rounded-full bg-indigo-500 text-white">{countOpenThreads(roadmapThreads)}</span>
+            )}
+          </button>
+          {isRoadmapCommentsOpen && (
+            <div className="w-full max-w-xl mt-4 p-6 bg-white rounded-[32px] border border-slate-200 shadow-sm text-left">
+              <CommentsPanel {...commentsPanelProps(roadmapThreads)} markStageThreads />
+            </div>
+          )}
         </div>
       </header>
 
       <main className="flex-grow bg-white py-6">
-        <div className="overflow-x-auto overflow-y-visible pb-12 custom-scrollbar">
+        {/* Timeline Layout Toggle */}
+        <div className="flex justify-center mb-4">
+          <div className="flex bg-white rounded-2xl border border-slate-200 p-1 shadow-sm">
+            <button
+              onClick={() => setTimelineMode('even')}
+              className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${timelineMode === 'even' ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+            >
+              Road
+            </button>
+            <button
+              onClick={() => setTimelineMode('calendar')}
+              disabled={!canUseCalendar}
+              title={canUseCalendar
+                ? 'Space stages by their dates'
+                : data.layout.orientation === 'vertical' && !hasLanes(data)
+                  ? 'The calendar layout needs a horizontal or serpentine road'
+                  : 'Add dates to stages to enable the calendar layout'}
+              className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${timelineMode === 'calendar' && canUseCalendar ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+            >
+              Calendar
+            </button>
+          </div>
+          <button
+            onClick={() => setShowDependencies(prev => !prev)}
+            className={`ml-3 px-5 py-2 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all shadow-sm ${showDependencies ? 'bg-rose-500 border-rose-500 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-900'}`}
+          >
+            Dependencies
+          </button>
+          {(['layout', 'theme', 'lanes'] as const).map(panel => (
+            <button
+              key={panel}
+              onClick={() => setOpenPanel(prev => (prev === panel ? null : panel))}
+              className={`ml-3 px-5 py-2 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all shadow-sm ${openPanel === panel ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-900'}`}
+            >
+              {panel}
+            </button>
+          ))}
+          <button
+            onClick={() => setIsPresenting(true)}
+            disabled={data.stages.length === 0}
+            title="Walk through the stages full screen"
+            className="ml-3 flex items-center gap-2 px-5 py-2 rounded-2xl border bg-white border-slate-200 text-slate-500 hover:text-slate-900 text-[10px] font-black uppercase tracking-widest transition-all shadow-sm disabled:opacity-30"
+          >
+            <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+            Present
+          </button>
+        </div>
+        {openPanel === 'layout' && (
+          <div className="flex justify-center mb-4 px-4">
+            <LayoutPanel settings={data.layout} onChange={updateLayout} hasLanes={hasLanes(data)} />
+          </div>
+        )}
+        {openPanel === 'lanes' && (
+          <div className="flex justify-center mb-4 px-4">
+            <LanesPanel lanes={data.lanes || []} onAdd={addNewLane} onUpdate={updateLane} onRemove={deleteLane} />
+          </div>
+        )}
+        {openPanel === 'theme' && (
+          <div className="flex justify-center mb-4 px-4">
+            <ThemePanel theme={data.theme} onChange={updateTheme} onApplyPreset={applyThemePreset} onRecolorStages={recolorStages} />
+          </div>
+        )}
+        {isComparingOnRoadmap && (
+          <div className="flex justify-center mb-4 px-4">
+            <div className="flex items-center gap-3 pl-5 pr-2 py-2 bg-white rounded-2xl border border-slate-200 shadow-sm">
+              <span className="text-[12px] font-semibold text-slate-500">
+                Changes since <span className="font-black text-slate-900">'{comparedSnapshot?.name}'</span>
+              </span>
+              <button
+                onClick={() => setComparison(prev => prev && { ...prev, isOpen: true })}
+                className="px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+              >
+                Details
+              </button>
+              <button
+                onClick={() => setComparison(null)}
+                className="px-4 py-1.5 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+        <TimelineCanvas viewport={viewport} geometry={geometry} stages={data.stages} theme={data.theme}>
           <Timeline 
-            data={data} 
+            data={timelineData} 
+            mode={timelineMode}
+            showDependencies={showDependencies}
+            highlightedStageId={locatedStageId}
             onAddStage={addNewStage}
             onUpdateStage={updateStage}
-            onPushHistory={() => pushToHistory(data)}
+            changes={stageChanges}
           />
-        </div>
+        </TimelineCanvas>
       </main>
 
       <section className="bg-[#f8faff] border-t border-slate-100 p-8 md:p-12">
@@ -302,43 +672,92 @@ const App: React.FC = () => {
               
               <div className="flex flex-col items-end gap-3">
                 <div className="flex items-center gap-3">
-                  {/* Undo Button */}
-                  <button 
-                    onClick={undo}
-                    disabled={history.length === 0}
-                    className="flex items-center gap-2 px-6 py-2.5 bg-white text-slate-400 border border-slate-200 rounded-2xl transition-all font-black text-[10px] uppercase tracking-widest disabled:opacity-30 hover:text-slate-900 shadow-sm"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"/></svg>
-                    Undo
-                  </button>
+                  {/* Undo / Redo Buttons */}
+                  <div className="flex bg-white rounded-2xl border border-slate-200 p-1 shadow-sm">
+                    <button 
+                      onClick={undo}
+                      disabled={!history.canUndo}
+                      title="Undo (Ctrl+Z)"
+                      className="flex items-center gap-2 px-4 py-2 text-slate-400 transition-all font-black text-[10px] uppercase tracking-widest disabled:opacity-30 hover:text-slate-900 border-r border-slate-100"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"/></svg>
+                      Undo
+                    </button>
+                    <button 
+                      onClick={redo}
+                      disabled={!history.canRedo}
+                      title="Redo (Ctrl+Shift+Z)"
+                      className="flex items-center gap-2 px-4 py-2 text-slate-400 transition-all font-black text-[10px] uppercase tracking-widest disabled:opacity-30 hover:text-slate-900"
+                    >
+                      Redo
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6"/></svg>
+                    </button>
+                  </div>
 
                   {/* Segmented Export Control */}
                   <div className="flex bg-white rounded-2xl border border-slate-200 p-1 shadow-sm">
                     <button 
-                      onClick={exportAsSvg} 
+                      onClick={() => runQuickExport('svg')}
                       className="px-5 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all flex items-center gap-1.5 border-r border-slate-100"
                     >
                       <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg>
                       SVG
                     </button>
                     <button 
-                      onClick={exportAsJpg} 
-                      className="px-5 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all flex items-center gap-1.5"
+                      onClick={() => runQuickExport('jpg')}
+                      className="px-5 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all flex items-center gap-1.5 border-r border-slate-100"
                     >
                       <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"/></svg>
                       JPG
                     </button>
+                    <button 
+                      onClick={() => setExportDialog({ options: DEFAULT_EXPORT_OPTIONS, error: null })}
+                      title="PNG, PDF and resolution options"
+                      className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all"
+                    >
+                      More…
+                    </button>
                   </div>
                 </div>
 
-                {/* Prominent Save Button */}
-                <button 
-                  onClick={saveToLocalStorage}
-                  className="w-full md:w-auto px-10 py-3 bg-[#5046e5] text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-indigo-100 flex items-center justify-center gap-2 transition-all hover:bg-[#4338ca] active:scale-[0.98]"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"/></svg>
-                  {saveStatus === 'saved' ? 'Roadmap Saved!' : 'Save Roadmap'}
-                </button>
+                <div className="flex items-center gap-3">
+                  {/* Spreadsheet Import / Export */}
+                  <div className="flex bg-white rounded-2xl border border-slate-200 p-1 shadow-sm">
+                    <button 
+                      onClick={() => setIsCsvImportOpen(true)}
+                      title="Import stages from CSV or a spreadsheet"
+                      className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all border-r border-slate-100"
+                    >
+                      Import CSV
+                    </button>
+                    <button 
+                      onClick={exportCsv}
+                      title="Download the stages as CSV"
+                      className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all"
+                    >
+                      CSV
+                    </button>
+                  </div>
+
+                  <button 
+                    onClick={() => setIsConvertersOpen(true)}
+                    title="MS Project, milestones, iCalendar and more"
+                    className="px-4 py-3 bg-white rounded-2xl border border-slate-200 shadow-sm text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all"
+                  >
+                    Formats…
+                  </button>
+
+                  {/* Prominent Save Button */}
+                  <button 
+                    onClick={saveRoadmap}
+                    disabled={!library.isReady}
+                    title={saveStatus === 'failed' ? library.error || undefined : undefined}
+                    className="w-full md:w-auto px-10 py-3 bg-[#5046e5] text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-indigo-100 flex items-center justify-center gap-2 transition-all hover:bg-[#4338ca] active:scale-[0.98] disabled:opacity-50"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"/></svg>
+                    {saveStatus === 'saved' ? 'Roadmap Saved!' : saveStatus === 'failed' ? 'Save Failed' : 'Save Roadmap'}
+                  </button>
+                </div>
               </div>
             </div>
             
@@ -347,10 +766,21 @@ const App: React.FC = () => {
                 <StageEditor 
                   key={stage.id} 
                   stage={stage} 
+                  stages={data.stages}
+                  palette={data.theme.palette}
+                  lanes={data.lanes}
                   index={idx}
                   isDragging={draggedIndex === idx}
                   onUpdate={(updates) => updateStage(stage.id, updates)}
                   onRemove={() => removeStage(stage.id)}
+                  onLocate={() => locateStage(idx)}
+                  currentPosition={data.currentPosition}
+                  onSetPosition={setCurrentPosition}
+                  editors={collaboration.peers.filter(peer => peer.presence?.stageId === stage.id)}
+                  onFocusChange={(isFocused) => collaboration.setEditingStage(isFocused ? stage.id : null)}
+                  comments={commentsPanelProps(getStageThreads(data.comments, stage.id), stage.id)}
+                  onRefine={!isAiBusy || refining?.stageId === stage.id ? (kind) => refineWithAi(kind, stage.id) : undefined}
+                  isRefining={refining?.stageId === stage.id}
                   onDragStart={() => handleDragStart(idx)}
                   onDragOver={(e) => handleDragOver(e, idx)}
                   onDragEnd={handleDragEnd}
@@ -378,34 +808,260 @@ const App: React.FC = () => {
                   >
                     <span className="text-sm">{"{ }"}</span> JSON Source
                   </button>
+                  <button 
+                    onClick={() => setActiveSidebarTab('markdown')}
+                    className={`flex-1 py-4 rounded-[22px] text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${activeSidebarTab === 'markdown' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-400'}`}
+                  >
+                    <span className="text-sm">M↓</span> Markdown
+                  </button>
+                  <button 
+                    onClick={() => setActiveSidebarTab('history')}
+                    className={`flex-1 py-4 rounded-[22px] text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${activeSidebarTab === 'history' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-400'}`}
+                  >
+                    ↺ History
+                  </button>
                 </div>
                 
                 {activeSidebarTab === 'ai' ? (
                   <div className="space-y-6 flex-grow">
+                    <div className="flex items-center justify-between px-2">
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                        {AI_PROVIDERS[aiSettings.settings.provider].label}
+                        {aiSettings.settings.provider !== 'mock' && (
+                          <span className="ml-2 font-mono normal-case tracking-normal text-slate-400">{aiSettings.settings.model || AI_PROVIDERS[aiSettings.settings.provider].defaultModel}</span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() => setIsAiSettingsOpen(true)}
+                        className="text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:text-indigo-800 transition-all"
+                      >
+                        Settings
+                      </button>
+                    </div>
                     <textarea
+                      data-native-undo
                       value={prompt}
                       onChange={(e) => setPrompt(e.target.value)}
                       placeholder="Describe your project journey in a few sentences..."
                       className="w-full h-56 p-6 text-sm font-semibold bg-slate-50 border border-slate-200 rounded-[32px] focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none resize-none transition-all"
                     />
-                    <button
-                      onClick={generateWithAi}
-                      disabled={isAiLoading || !prompt.trim()}
-                      className="w-full py-5 bg-[#5046e5] text-white rounded-[28px] font-black uppercase tracking-widest transition-all hover:bg-[#4338ca] disabled:opacity-50 shadow-lg shadow-indigo-100"
-                    >
-                      {isAiLoading ? 'Synthesizing Roadmap...' : 'Generate Roadmap'}
-                    </button>
+                    <div className="flex bg-[#f8fafc] border border-slate-100 rounded-xl p-0.5 w-fit">
+                      {(['replace', 'append'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setGenerationMode(mode)}
+                          disabled={isAiLoading}
+                          className={`px-4 py-1.5 rounded-[10px] text-[10px] font-black uppercase tracking-widest transition-all ${generationMode === mode ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          {mode === 'replace' ? 'Replace stages' : 'Add to stages'}
+                        </button>
+                      ))}
+                    </div>
+                    {isAiLoading ? (
+                      <div className="flex gap-3">
+                        <div className="flex-grow py-5 px-6 bg-indigo-50 text-indigo-600 rounded-[28px] font-black uppercase tracking-widest text-center animate-pulse">
+                          {streamedStages && streamedStages.length > 0 ? `${streamedStages.length} ${streamedStages.length === 1 ? 'stage' : 'stages'} so far...` : 'Synthesizing Roadmap...'}
+                        </div>
+                        <button
+                          onClick={cancelAi}
+                          className="px-6 py-5 border border-slate-200 rounded-[28px] font-black text-[11px] uppercase tracking-widest text-slate-500 hover:text-rose-600 hover:border-rose-200 transition-all"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={generateWithAi}
+                        disabled={isAiBusy || !prompt.trim()}
+                        className="w-full py-5 bg-[#5046e5] text-white rounded-[28px] font-black uppercase tracking-widest transition-all hover:bg-[#4338ca] disabled:opacity-50 shadow-lg shadow-indigo-100"
+                      >
+                        Generate Roadmap
+                      </button>
+                    )}
+                    {aiRetry && <p className="px-2 text-[11px] font-semibold text-amber-600">{aiRetry}</p>}
+                    {aiError && (
+                      <div className="flex items-start gap-3 p-5 bg-rose-50 border border-rose-100 rounded-[24px]">
+                        <p className="flex-grow min-w-0 text-[12px] font-semibold text-rose-600 break-words">{aiError}</p>
+                        <button
+                          onClick={() => setAiError(null)}
+                          title="Dismiss"
+                          className="flex-shrink-0 text-rose-300 hover:text-rose-600 transition-all"
+                        >
+                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Refine - suggestions on the roadmap as it is, reviewed before they apply */}
+                    <div className="pt-2">
+                      <span className="block mb-3 px-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">Refine</span>
+                      <div className="grid grid-cols-2 gap-3">
+                        {REFINEMENT_ACTIONS.filter(action => action.scope === 'roadmap').map(action => (
+                          <button
+                            key={action.kind}
+                            onClick={() => refineWithAi(action.kind)}
+                            disabled={isAiBusy || data.stages.length === 0}
+                            className="text-left px-5 py-4 rounded-[24px] border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/40 disabled:opacity-50 transition-all"
+                          >
+                            <span className="block text-[12px] font-black text-slate-700">
+                              {refining?.kind === action.kind && !refining.stageId ? 'Thinking...' : action.label}
+                            </span>
+                            <span className="block text-[10px] font-bold text-slate-400">{action.hint}</span>
+                          </button>
+                        ))}
+                      </div>
+                      {refining ? (
+                        <button
+                          onClick={cancelAi}
+                          className="mt-3 px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-rose-600 transition-all"
+                        >
+                          Cancel suggestion
+                        </button>
+                      ) : (
+                        <p className="mt-3 px-2 text-[11px] font-semibold text-slate-400">Stage cards have their own ✨ menu to expand, rewrite, shorten or insert after.</p>
+                      )}
+                    </div>
                   </div>
-                ) : (
+                ) : activeSidebarTab === 'json' ? (
                   <div className="flex-grow flex flex-col">
                     <JsonEditor data={data} onChange={handleJsonChange} />
                   </div>
+                ) : activeSidebarTab === 'markdown' ? (
+                  <div className="flex-grow flex flex-col">
+                    <MarkdownPanel data={data} onImport={importMarkdown} />
+                  </div>
+                ) : (
+                  <div className="flex-grow flex flex-col">
+                    <SnapshotsPanel
+                      snapshots={library.snapshots}
+                      canTake={!!library.activeId}
+                      onTake={takeSnapshot}
+                      onCompare={(id) => setComparison({ fromId: id, toId: null, isOpen: true })}
+                      onDelete={deleteSnapshot}
+                    />
+                    <HistoryPanel entries={history.entries} currentIndex={history.index} onJump={history.jumpTo} />
+                  </div>
                 )}
               </div>
             </div>
           </div>
         </div>
       </section>
+
+      {comparison?.isOpen && (
+        <CompareDialog
+          snapshots={library.snapshots}
+          current={data}
+          fromId={comparison.fromId}
+          toId={comparison.toId}
+          onSelect={(fromId, toId) => setComparison({ fromId, toId, isOpen: true })}
+          onRestore={restoreFromSnapshot}
+          onShowOnRoadmap={() => setComparison(prev => prev && { ...prev, isOpen: false })}
+          onClose={() => setComparison(null)}
+        />
+      )}
+
+      {aiProposal && (
+        <AiReviewDialog
+          proposal={aiProposal}
+          current={data}
+          onAccept={acceptAiProposal}
+          onReject={() => setAiProposal(null)}
+        />
+      )}
+
+      {isAiSettingsOpen && (
+        <AiSettingsDialog
+          settings={aiSettings.settings}
+          onSave={(settings) => {
+            aiSettings.save(settings);
+            setIsAiSettingsOpen(false);
+          }}
+          onClose={() => setIsAiSettingsOpen(false)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <RoadmapLibrary
+          roadmaps={library.roadmaps}
+          activeId={library.activeId}
+          error={library.error}
+          onOpen={openRoadmap}
+          onCreate={createRoadmap}
+          onBrowseTemplates={() => setIsTemplatesOpen(true)}
+          onDuplicate={library.duplicate}
+          onRename={library.rename}
+          onDelete={library.remove}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isTemplatesOpen && (
+        <TemplateGallery
+          builtIn={BUILT_IN_TEMPLATES}
+          saved={templates.templates}
+          error={templates.error}
+          onCreate={createFromTemplate}
+          onDelete={templates.remove}
+          onSaveCurrent={() => setIsSaveTemplateOpen(true)}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
+
+      {isSaveTemplateOpen && (
+        <SaveTemplateDialog
+          data={data}
+          onSave={(template) => {
+            if (templates.save(template)) setIsSaveTemplateOpen(false);
+          }}
+          onClose={() => setIsSaveTemplateOpen(false)}
+        />
+      )}
+
+      {isCsvImportOpen && (
+        <CsvImportDialog
+          palette={data.theme.palette}
+          currentStageCount={data.stages.length}
+          onImport={importStages}
+          onClose={() => setIsCsvImportOpen(false)}
+        />
+      )}
+
+      {isPresenting && (
+        <PresentationMode data={data} mode={timelineMode} onClose={() => setIsPresenting(false)} />
+      )}
+
+      {isCollaborationOpen && (
+        <CollaborationDialog
+          session={collaboration.session}
+          status={collaboration.status}
+          peers={collaboration.peers}
+          defaults={collaboration.defaults}
+          suggestedRoom={library.activeId || 'roadmap'}
+          onConnect={collaboration.connect}
+          onDisconnect={collaboration.disconnect}
+          onClose={() => setIsCollaborationOpen(false)}
+        />
+      )}
+
+      {isShareOpen && <ShareDialog data={data} onClose={() => setIsShareOpen(false)} />}
+
+      {isConvertersOpen && (
+        <ConvertersDialog
+          data={data}
+          onImport={importConverted}
+          onClose={() => setIsConvertersOpen(false)}
+        />
+      )}
+
+      {exportDialog && (
+        <ExportDialog
+          initialOptions={exportDialog.options}
+          initialError={exportDialog.error}
+          onExport={(options) => exportAs(options.format, data, options)}
+          onClose={() => setExportDialog(null)}
+        />
+      )}
     </div>
   );
 };
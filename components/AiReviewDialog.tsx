@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { RoadmapData } from '../types';
+import { RefinementProposal, REFINEMENT_ACTIONS } from '../services/aiRefinements';
+import RoadmapDiffView from './RoadmapDiffView';
+
+interface AiReviewDialogProps {
+  proposal: RefinementProposal;
+  current: RoadmapData;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+
+/** An AI suggestion shown as a diff against the current roadmap, applied only on Accept. */
+const AiReviewDialog: React.FC<AiReviewDialogProps> = ({ proposal, current, onAccept, onReject }) => {
+  const proposed = useMemo(() => proposal.apply(current), [proposal, current]);
+  const action = REFINEMENT_ACTIONS.find(a => a.kind === proposal.kind);
+
+  // Critique only adds comments, which the stage diff does not cover.
+  const existing = new Set((current.comments || []).map(comment => comment.id));
+  const newComments = (proposed.comments || []).filter(comment => !existing.has(comment.id));
+  const stageTitle = (stageId?: string) => (stageId ? proposed.stages.find(s => s.id === stageId)?.title || 'Untitled' : 'Whole roadmap');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onReject}>
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Review AI Suggestion</h2>
+        <p className="text-sm text-slate-500 font-medium mb-6">{action?.label}: nothing changes until you accept.</p>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar pr-1">
+          {proposal.kind === 'critique' ? (
+            newComments.length === 0 ? (
+              <p className="text-[12px] font-semibold text-slate-400">No review comments were suggested.</p>
+            ) : (
+              <ul className="space-y-3">
+                {newComments.map(comment => (
+                  <li key={comment.id} className="p-5 rounded-3xl border border-slate-200">
+                    <span className={labelClass}>{stageTitle(comment.stageId)}</span>
+                    <p className="text-[13px] font-medium text-slate-700 whitespace-pre-wrap">{comment.text}</p>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : (
+            <RoadmapDiffView before={current} after={proposed} />
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onReject}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            disabled={proposed === current}
+            className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-40 transition-all"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiReviewDialog;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AI_PROVIDERS, AiProviderId, AiSettings } from '../services/aiProviders';
+
+interface AiSettingsDialogProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const inputClass = 'w-full px-4 py-3 text-[13px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300';
+
+/** Picks which AI generates and refines roadmaps. */
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const provider = AI_PROVIDERS[draft.provider];
+  const update = (updates: Partial<AiSettings>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  // Switching provider resets the model, since names rarely carry over.
+  const selectProvider = (id: AiProviderId) => update({ provider: id, model: AI_PROVIDERS[id].defaultModel });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">AI Settings</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">Saved in this browser only.</p>
+
+        <div className="space-y-5">
+          <div>
+            <span className={labelClass}>Provider</span>
+            <div className="space-y-2">
+              {(Object.keys(AI_PROVIDERS) as AiProviderId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => selectProvider(id)}
+                  className={`w-full text-left px-5 py-3 rounded-2xl border transition-all ${draft.provider === id ? 'border-indigo-300 bg-indigo-50/60' : 'border-slate-100 hover:border-slate-200'}`}
+                >
+                  <span className="block text-[13px] font-black text-slate-700">{AI_PROVIDERS[id].label}</span>
+                  <span className="block text-[11px] font-semibold text-slate-400">{AI_PROVIDERS[id].hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          {draft.provider !== 'mock' && (
+            <label className="block">
+              <span className={labelClass}>Model</span>
+              <input value={draft.model} onChange={(e) => update({ model: e.target.value })} placeholder={provider.defaultModel} className={`${inputClass} font-mono`} />
+            </label>
+          )}
+          {provider.usesBaseUrl && (
+            <label className="block">
+              <span className={labelClass}>Endpoint</span>
+              <input value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClass} font-mono`} />
+            </label>
+          )}
+          {provider.usesApiKey && (
+            <label className="block">
+              <span className={labelClass}>API Key</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder={draft.provider === 'gemini' ? 'Use the key from .env.local' : 'Not needed for most local servers'}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, model: draft.model.trim(), baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim() })}
+            className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ConnectionStatus, PeerPresence } from '../services/collaboration';
+import { CollaborationSettings } from '../hooks/useCollaboration';
+
+interface CollaborationDialogProps {
+  session: CollaborationSettings | null;
+  status: ConnectionStatus;
+  peers: PeerPresence[];
+  defaults: Omit<CollaborationSettings, 'room'>;
+  /** Suggested room for a new session, e.g. the open roadmap's id. */
+  suggestedRoom: string;
+  onConnect: (settings: CollaborationSettings) => void;
+  onDisconnect: () => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const inputClass = 'w-full px-4 py-3 text-[13px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300 disabled:opacity-60';
+
+const STATUS_LABELS: Record<ConnectionStatus, { label: string; color: string }> = {
+  connecting: { label: 'Connecting…', color: 'bg-amber-400' },
+  connected: { label: 'Live', color: 'bg-emerald-500' },
+  disconnected: { label: 'Offline', color: 'bg-slate-300' }
+};
+
+/**
+ * Joins a room on a sync server (`npm run sync-server`). Everyone in the
+ * same room edits one roadmap; the first to join brings its contents.
+ */
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({
+  session,
+  status,
+  peers,
+  defaults,
+  suggestedRoom,
+  onConnect,
+  onDisconnect,
+  onClose
+}) => {
+  const [settings, setSettings] = useState<CollaborationSettings>(session ?? { ...defaults, room: suggestedRoom });
+  const update = (updates: Partial<CollaborationSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+  const canConnect = settings.url.trim() !== '' && settings.room.trim() !== '';
+  const statusStyle = STATUS_LABELS[session ? status : 'disconnected'];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-black text-slate-900">Live Collaboration</h2>
+          <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            <span className={`w-2 h-2 rounded-full ${statusStyle.color}`} />
+            {statusStyle.label}
+          </span>
+        </div>
+        <p className="text-sm text-slate-500 font-medium mb-8">Share the room name; everyone in it edits this roadmap together.</p>
+
+        <div className="space-y-5">
+          <label className="block">
+            <span className={labelClass}>Your Name</span>
+            <input value={settings.name} onChange={(e) => update({ name: e.target.value })} disabled={!!session} placeholder="Anonymous" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Room</span>
+            <input value={settings.room} onChange={(e) => update({ room: e.target.value })} disabled={!!session} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Sync Server</span>
+            <input value={settings.url} onChange={(e) => update({ url: e.target.value })} disabled={!!session} className={`${inputClass} font-mono`} />
+          </label>
+
+          {session && (
+            <div>
+              <span className={labelClass}>In this Room</span>
+              {peers.length === 0 ? (
+                <p className="text-[12px] font-semibold text-slate-400">Nobody else yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {peers.map(peer => (
+                    <li key={peer.id} className="flex items-center gap-2 text-[13px] font-bold text-slate-700">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: peer.color }} />
+                      {peer.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Close
+          </button>
+          {session ? (
+            <button
+              onClick={onDisconnect}
+              className="flex-1 py-4 bg-rose-500 text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-rose-100 hover:bg-rose-600 transition-all"
+            >
+              Leave Room
+            </button>
+          ) : (
+            <button
+              onClick={() => onConnect({ ...settings, url: settings.url.trim(), room: settings.room.trim() })}
+              disabled={!canConnect}
+              className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-50 transition-all"
+            >
+              Join Room
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollaborationDialog;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { RoadmapComment } from '../types';
+import { CommentThread, countOpenThreads } from '../utils/comments';
+
+export interface CommentsPanelProps {
+  threads: CommentThread[];
+  /** Name new comments are signed with. */
+  author: string;
+  onAuthorChange: (author: string) => void;
+  /** Opens a thread, or replies to `threadId`. */
+  onAdd: (text: string, threadId?: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  /** Flags threads that still point at a stage, i.e. one that has been removed. */
+  markStageThreads?: boolean;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const draftClass = 'w-full px-3 py-2 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300 placeholder:text-slate-300';
+
+const CommentBody: React.FC<{ comment: RoadmapComment }> = ({ comment }) => (
+  <div>
+    <div className="flex items-baseline gap-2">
+      <span className="text-[12px] font-black text-slate-700 truncate">{comment.author}</span>
+      <span className="text-[10px] font-bold text-slate-300 flex-shrink-0">{formatTime(comment.createdAt)}</span>
+    </div>
+    <p className="text-[12px] font-medium text-slate-600 whitespace-pre-wrap break-words">{comment.text}</p>
+  </div>
+);
+
+/**
+ * Review threads with resolve / reopen. Drafts keep their own undo stack;
+ * only posted comments go into the roadmap history.
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ threads, author, onAuthorChange, onAdd, onResolve, markStageThreads = false }) => {
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const openCount = countOpenThreads(threads);
+  const resolvedCount = threads.length - openCount;
+  const visible = showResolved ? threads : threads.filter(thread => !thread.root.resolved);
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  const submitReply = (threadId: string) => {
+    const text = replyDrafts[threadId] || '';
+    if (!text.trim()) return;
+    onAdd(text, threadId);
+    setReplyDrafts(prev => ({ ...prev, [threadId]: '' }));
+  };
+
+  return (
+    <div data-native-undo className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">
+          Comments{openCount > 0 && <span className="ml-1.5 text-indigo-500">{openCount} open</span>}
+        </span>
+        {resolvedCount > 0 && (
+          <button
+            onClick={() => setShowResolved(prev => !prev)}
+            className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-900 transition-all"
+          >
+            {showResolved ? 'Hide' : 'Show'} resolved ({resolvedCount})
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-[12px] font-semibold text-slate-300">{threads.length === 0 ? 'No feedback yet.' : 'Every thread is resolved.'}</p>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(({ root, replies }) => (
+          <li key={root.id} className={`p-4 rounded-2xl border space-y-3 ${root.resolved ? 'border-slate-100 opacity-60' : 'border-slate-200 bg-white'}`}>
+            {markStageThreads && root.stageId && (
+              <span className="inline-block px-2 py-0.5 rounded-full bg-amber-50 text-[9px] font-black text-amber-600 uppercase tracking-widest">From a removed stage</span>
+            )}
+            <CommentBody comment={root} />
+            {replies.length > 0 && (
+              <div className="pl-3 border-l-2 border-slate-100 space-y-2">
+                {replies.map(reply => <CommentBody key={reply.id} comment={reply} />)}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              {!root.resolved && (
+                <input
+                  value={replyDrafts[root.id] || ''}
+                  onChange={(e) => setReplyDrafts(prev => ({ ...prev, [root.id]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      submitReply(root.id);
+                    }
+                  }}
+                  className={draftClass}
+                  placeholder="Reply…"
+                />
+              )}
+              <button
+                onClick={() => onResolve(root.id, !root.resolved)}
+                className={`flex-shrink-0 px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${root.resolved ? 'text-slate-500 border-slate-200 hover:border-slate-300' : 'text-emerald-600 border-emerald-100 hover:bg-emerald-50'}`}
+              >
+                {root.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter alone starts a new line; Ctrl/Cmd+Enter posts.
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={2}
+          className={`${draftClass} resize-none`}
+          placeholder="Start a thread…"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            value={author}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            className={draftClass}
+            placeholder="Your name"
+            title="Comments are signed with this name"
+          />
+          <button
+            onClick={submit}
+            disabled={!draft.trim()}
+            className="flex-shrink-0 px-4 py-2 bg-[#5046e5] text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-[#4338ca] disabled:opacity-40 transition-all"
+          >
+            Comment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { RoadmapData, RoadmapSnapshot } from '../types';
+import { parseRoadmap } from '../utils/schema';
+import RoadmapDiffView from './RoadmapDiffView';
+
+interface CompareDialogProps {
+  snapshots: RoadmapSnapshot[];
+  current: RoadmapData;
+  fromId: string;
+  /** Null compares against the roadmap as it is now. */
+  toId: string | null;
+  onSelect: (fromId: string, toId: string | null) => void;
+  /** Brings back the `from` version of a stage; only offered when comparing with the current roadmap. */
+  onRestore: (stageId: string) => void;
+  onShowOnRoadmap: () => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const selectClass = 'w-full px-4 py-3 text-[13px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300';
+
+/** Two snapshots, or a snapshot and the current roadmap, side by side. */
+const CompareDialog: React.FC<CompareDialogProps> = ({ snapshots, current, fromId, toId, onSelect, onRestore, onShowOnRoadmap, onClose }) => {
+  const fromSnapshot = snapshots.find(s => s.id === fromId);
+  const toSnapshot = toId ? snapshots.find(s => s.id === toId) : null;
+
+  // Snapshots may predate the current schema, so they are migrated like any other stored roadmap.
+  const from = useMemo(() => (fromSnapshot ? parseRoadmap(fromSnapshot.data).data : null), [fromSnapshot]);
+  const to = useMemo(() => (toId ? (toSnapshot ? parseRoadmap(toSnapshot.data).data : null) : current), [toId, toSnapshot, current]);
+  const canRestore = toId === null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Compare Versions</h2>
+        <p className="text-sm text-slate-500 font-medium mb-6">Stages are matched by id; edits are shown word by word.</p>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <label className="block">
+            <span className={labelClass}>From</span>
+            <select value={fromId} onChange={(e) => onSelect(e.target.value, toId)} className={selectClass}>
+              {snapshots.map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>To</span>
+            <select value={toId ?? CURRENT} onChange={(e) => onSelect(fromId, e.target.value === CURRENT ? null : e.target.value)} className={selectClass}>
+              <option value={CURRENT}>Current roadmap</option>
+              {snapshots.map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar pr-1">
+          {!from || !to ? (
+            <p className="text-[12px] font-semibold text-rose-500">This snapshot could not be read.</p>
+          ) : (
+            <RoadmapDiffView
+              before={from}
+              after={to}
+              onRestore={canRestore ? onRestore : undefined}
+              restoreTitle={`Put back the version from '${fromSnapshot?.name}'`}
+            />
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Close
+          </button>
+          {canRestore && from && to && (
+            <button
+              onClick={onShowOnRoadmap}
+              className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] transition-all"
+            >
+              Show on Roadmap
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareDialog;
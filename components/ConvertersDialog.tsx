@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { RoadmapData } from '../types';
+import { SchemaError, formatSchemaError } from '../utils/schema';
+import { RoadmapConverter, exportAs, importFile, listConverters } from '../services/converters';
+import { withoutComments } from '../utils/comments';
+
+interface ConvertersDialogProps {
+  data: RoadmapData;
+  onImport: (data: RoadmapData, source: string) => void;
+  onClose: () => void;
+}
+
+const headingClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const optionClass = 'flex-1 px-4 py-3 rounded-2xl border border-slate-100 text-left text-slate-500 transition-all hover:border-indigo-300 hover:bg-indigo-50/60 hover:text-indigo-700 disabled:opacity-50';
+
+/**
+ * Moves the roadmap in and out of other planning tools. Every format comes
+ * from the converter registry, so new adapters show up here automatically.
+ */
+const ConvertersDialog: React.FC<ConvertersDialogProps> = ({ data, onImport, onClose }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [schemaErrors, setSchemaErrors] = useState<SchemaError[]>([]);
+  const [includeComments, setIncludeComments] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exporters = listConverters('export').filter(converter => converter.kind === 'data');
+  const importers = listConverters('import');
+  const accept = [...new Set(importers.map(converter => `.${converter.extension}`))].join(',');
+  const commentCount = data.comments?.length || 0;
+
+  const runExport = async (converter: RoadmapConverter) => {
+    setBusyId(converter.id);
+    setError(null);
+    try {
+      await exportAs(converter.id, includeComments ? data : withoutComments(data));
+    } catch (err) {
+      console.error('Export Error:', err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    setError(null);
+    setSchemaErrors([]);
+    try {
+      const { converter, result } = await importFile(file, data);
+      if (!result.data) {
+        setError(`'${file.name}' could not be read as ${converter.label}.`);
+        setSchemaErrors(result.errors);
+        return;
+      }
+      onImport(result.data, converter.label);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Other Formats</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">Exchange the roadmap with Gantt charts, issue trackers and calendars.</p>
+
+        <div className="space-y-6">
+          <div>
+            <span className={headingClass}>Export</span>
+            <div className="grid grid-cols-2 gap-2">
+              {exporters.map(converter => (
+                <button key={converter.id} onClick={() => runExport(converter)} disabled={busyId !== null} className={optionClass}>
+                  <span className="block font-black text-sm">{converter.label} <span className="text-[10px] opacity-50">.{converter.extension}</span></span>
+                  <span className="block text-[11px] font-semibold opacity-70">{converter.hint}</span>
+                </button>
+              ))}
+            </div>
+            {commentCount > 0 && (
+              <label className="flex items-center gap-2 mt-3 text-[12px] font-semibold text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={includeComments} onChange={(e) => setIncludeComments(e.target.checked)} className="accent-indigo-600" />
+                Include {commentCount} review {commentCount === 1 ? 'comment' : 'comments'} (Roadmap JSON and Markdown)
+              </label>
+            )}
+          </div>
+
+          <div>
+            <span className={headingClass}>Import</span>
+            <button onClick={() => fileInputRef.current?.click()} className={`w-full ${optionClass}`}>
+              <span className="block font-black text-sm">Choose a File</span>
+              <span className="block text-[11px] font-semibold opacity-70">
+                {importers.map(converter => `${converter.label} (.${converter.extension})`).join(', ')}. Replaces the current stages.
+              </span>
+            </button>
+            <input ref={fileInputRef} type="file" accept={accept} className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+          </div>
+
+          {error && (
+            <div className="space-y-1">
+              <p className="text-[12px] font-semibold text-rose-500">{error}</p>
+              {schemaErrors.map((schemaError, i) => (
+                <p key={i} className="text-[11px] font-semibold text-rose-400">{formatSchemaError(schemaError)}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConvertersDialog;
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProjectStage } from '../types';
+import { ColumnMapping, STAGE_FIELD_OPTIONS, guessColumnMapping, parseDelimited, rowsToStages } from '../utils/csv';
+
+export type CsvImportMode = 'append' | 'replace';
+
+interface CsvImportDialogProps {
+  palette: string[];
+  currentStageCount: number;
+  onImport: (stages: ProjectStage[], mode: CsvImportMode) => void;
+  onClose: () => void;
+}
+
+const headingClass = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const labelClass = `block mb-2 ${headingClass}`;
+const selectClass = 'w-full px-3 py-2 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300';
+const PREVIEW_ROWS = 50;
+
+const optionClass = (isActive: boolean) =>
+  `flex-1 px-4 py-3 rounded-2xl border text-left transition-all ${isActive ? 'border-indigo-300 bg-indigo-50/60 text-indigo-700' : 'border-slate-100 text-slate-500 hover:border-slate-200'}`;
+
+/**
+ * Imports stages from CSV, TSV or cells pasted from a spreadsheet. Columns
+ * are matched to stage fields by header name and can be remapped by hand.
+ */
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ palette, currentStageCount, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mode, setMode] = useState<CsvImportMode>('append');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => parseDelimited(text), [text]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = hasHeader ? rows[0] || [] : [];
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping([]));
+  // New data gets a fresh guess. Without recognisable column names, the first
+  // columns are assumed to hold the title and description.
+  const headerKey = `${hasHeader}|${header.join('\u0000')}|${columnCount}`;
+  useEffect(() => {
+    const guess = guessColumnMapping(header);
+    if (guess.title === null && columnCount > 0) {
+      guess.title = 0;
+      if (guess.description === null && columnCount > 1 && !Object.values(guess).includes(1)) guess.description = 1;
+    }
+    setMapping(guess);
+  }, [headerKey]);
+
+  const result = useMemo(
+    () => rowsToStages(dataRows, mapping, palette, mode === 'append' ? currentStageCount : 0, hasHeader ? 2 : 1),
+    [dataRows, mapping, palette, mode, currentStageCount, hasHeader]
+  );
+
+  const columnName = (index: number) => (hasHeader && header[index]?.trim()) || `Column ${index + 1}`;
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const canImport = result.stages.length > 0 && mapping.title !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Import Stages</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">Paste cells from a spreadsheet, or upload a CSV or TSV file.</p>
+
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className={headingClass}>Data</span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700"
+              >
+                Upload File
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                className="hidden"
+                onChange={(e) => upload(e.target.files?.[0])}
+              />
+            </div>
+            <textarea
+              data-native-undo
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'Title,Description,Color,Start,End\nKickoff,Meet the team,#f43f5e,2025-01-06,2025-01-10'}
+              className="w-full h-32 p-4 font-mono text-xs text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-3xl outline-none resize-none focus:border-indigo-300 custom-scrollbar"
+              spellCheck={false}
+              wrap="off"
+            />
+            <label className="flex items-center gap-2 mt-2 text-[12px] font-semibold text-slate-600">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-indigo-600" />
+              First row holds column names
+            </label>
+          </div>
+
+          {columnCount > 0 && (
+            <>
+              <div>
+                <span className={labelClass}>Columns</span>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {STAGE_FIELD_OPTIONS.map(({ field, label }) => (
+                    <label key={field} className="flex flex-col gap-1">
+                      <span className="text-[11px] font-bold text-slate-500">{label}{field === 'title' && ' *'}</span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? null : Number(e.target.value) }))}
+                        className={selectClass}
+                      >
+                        <option value="">Don't import</option>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <option key={i} value={i}>{columnName(i)}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <span className={labelClass}>Preview · {result.stages.length} {result.stages.length === 1 ? 'stage' : 'stages'}</span>
+                <div className="max-h-64 overflow-auto custom-scrollbar border border-slate-100 rounded-3xl">
+                  <table className="w-full text-left text-[12px]">
+                    <thead className="sticky top-0 bg-[#f8fafc] text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      <tr>
+                        <th className="px-4 py-2">Stage</th>
+                        <th className="px-4 py-2">Description</th>
+                        <th className="px-4 py-2">Dates</th>
+                        <th className="px-4 py-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.stages.slice(0, PREVIEW_ROWS).map((stage, i) => (
+                        <tr key={i} className="border-t border-slate-50 align-top">
+                          <td className="px-4 py-2 font-bold text-slate-800">
+                            <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: stage.color }} />
+                            {stage.title || <span className="text-slate-300">Untitled</span>}
+                          </td>
+                          <td className="px-4 py-2 text-slate-500 max-w-[260px] truncate">{stage.description}</td>
+                          <td className="px-4 py-2 text-slate-500 whitespace-nowrap">
+                            {stage.startDate || stage.endDate ? `${stage.startDate || '…'} → ${stage.endDate || '…'}` : ''}
+                          </td>
+                          <td className="px-4 py-2 text-slate-500 whitespace-nowrap">
+                            {[stage.status, ...(stage.assignees || [])].filter(Boolean).join(' · ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {result.stages.length > PREVIEW_ROWS && (
+                    <p className="px-4 py-2 text-[11px] font-semibold text-slate-400">…and {result.stages.length - PREVIEW_ROWS} more</p>
+                  )}
+                </div>
+                {result.warnings.length > 0 && (
+                  <div className="mt-3 space-y-1 max-h-24 overflow-y-auto custom-scrollbar">
+                    {result.warnings.map((warning, i) => (
+                      <p key={i} className="text-[11px] font-semibold text-amber-600">{warning}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <span className={labelClass}>Current Stages</span>
+                <div className="flex gap-2">
+                  <button onClick={() => setMode('append')} className={optionClass(mode === 'append')}>
+                    <span className="block font-black text-sm">Append</span>
+                    <span className="block text-[11px] font-semibold opacity-70">Add after the {currentStageCount} existing stages</span>
+                  </button>
+                  <button onClick={() => setMode('replace')} className={optionClass(mode === 'replace')}>
+                    <span className="block font-black text-sm">Replace</span>
+                    <span className="block text-[11px] font-semibold opacity-70">Remove the existing stages first</span>
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(result.stages, mode)}
+            disabled={!canImport}
+            className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-50 transition-all"
+          >
+            Import {result.stages.length > 0 ? result.stages.length : ''} {result.stages.length === 1 ? 'Stage' : 'Stages'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import {
+  CSS_DPI,
+  EXPORT_SCALES,
+  ExportFormat,
+  ExportOptions,
+  PdfOrientation,
+  PdfPageSize,
+  supportsTransparency
+} from '../services/exporter';
+import { listConverters } from '../services/converters';
+
+interface ExportDialogProps {
+  initialOptions: ExportOptions;
+  initialError?: string | null;
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS = listConverters('export')
+  .filter(converter => converter.kind === 'image')
+  .map(converter => ({ value: converter.id as ExportFormat, label: converter.label, hint: converter.hint }));
+
+const optionClass = (isActive: boolean) =>
+  `flex-1 px-4 py-3 rounded-2xl border text-left transition-all ${isActive ? 'border-indigo-300 bg-indigo-50/60 text-indigo-700' : 'border-slate-100 text-slate-500 hover:border-slate-200'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ initialOptions, initialError = null, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+
+  const update = (updates: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...updates }));
+  const isRaster = options.format !== 'svg';
+
+  const runExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(options);
+      onClose();
+    } catch (err) {
+      console.error('Export Error:', err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Export Roadmap</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">Rendered as pure SVG, so every browser produces the same file.</p>
+
+        <div className="space-y-6">
+          <div>
+            <span className="block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Format</span>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map(format => (
+                <button key={format.value} onClick={() => update({ format: format.value })} className={optionClass(options.format === format.value)}>
+                  <span className="block font-black text-sm">{format.label}</span>
+                  <span className="block text-[11px] font-semibold opacity-70">{format.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isRaster && (
+            <div>
+              <span className="block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Resolution</span>
+              <div className="flex gap-2">
+                {EXPORT_SCALES.map(scale => (
+                  <button key={scale} onClick={() => update({ scale })} className={optionClass(options.scale === scale)}>
+                    <span className="block font-black text-sm">{scale}x</span>
+                    <span className="block text-[11px] font-semibold opacity-70">{scale * CSS_DPI} DPI</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {options.format === 'pdf' && (
+            <div className="flex gap-4">
+              <label className="flex-1">
+                <span className="block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Page Size</span>
+                <select
+                  value={options.pageSize}
+                  onChange={(e) => update({ pageSize: e.target.value as PdfPageSize })}
+                  className="w-full px-4 py-3 text-sm font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none"
+                >
+                  <option value="a4">A4</option>
+                  <option value="letter">US Letter</option>
+                </select>
+              </label>
+              <label className="flex-1">
+                <span className="block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Orientation</span>
+                <select
+                  value={options.orientation}
+                  onChange={(e) => update({ orientation: e.target.value as PdfOrientation })}
+                  className="w-full px-4 py-3 text-sm font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none"
+                >
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </label>
+            </div>
+          )}
+
+          <label className={`flex items-center gap-3 ${supportsTransparency(options.format) ? '' : 'opacity-40'}`}>
+            <input
+              type="checkbox"
+              checked={options.transparent && supportsTransparency(options.format)}
+              disabled={!supportsTransparency(options.format)}
+              onChange={(e) => update({ transparent: e.target.checked })}
+              className="w-4 h-4 accent-indigo-600"
+            />
+            <span className="text-[12px] font-semibold text-slate-600">
+              Transparent background {supportsTransparency(options.format) ? '' : '(PNG and SVG only)'}
+            </span>
+          </label>
+
+          {error && (
+            <p className="px-5 py-3 bg-rose-50 border border-rose-100 rounded-2xl text-[12px] font-semibold text-rose-500">{error}</p>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={runExport}
+              disabled={isExporting}
+              className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-50 transition-all"
+            >
+              {isExporting ? 'Rendering...' : `Export ${options.format.toUpperCase()}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
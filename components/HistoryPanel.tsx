@@ -0,0 +1,49 @@
+import React from 'react';
+
+interface HistoryPanelEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+interface HistoryPanelProps {
+  entries: HistoryPanelEntry[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump }) => {
+  return (
+    <div className="flex flex-col flex-grow">
+      <div className="flex items-center justify-between mb-4 px-2">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Change History</span>
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-tight">Ctrl+Z · Ctrl+Shift+Z</span>
+      </div>
+
+      {/* Newest first; entries after the current one are redoable and shown faded */}
+      <ol className="flex-grow space-y-1.5 overflow-y-auto custom-scrollbar max-h-[520px] pr-1">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => {
+          const isCurrent = i === currentIndex;
+          const isFuture = i > currentIndex;
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(i)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-left transition-all ${isCurrent ? 'bg-indigo-50 border border-indigo-100' : 'border border-transparent hover:bg-slate-50'} ${isFuture ? 'opacity-40' : ''}`}
+              >
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${isCurrent ? 'bg-indigo-500' : isFuture ? 'bg-slate-200' : 'bg-slate-300'}`} />
+                <span className={`flex-grow text-[12px] font-semibold truncate ${isCurrent ? 'text-indigo-700' : 'text-slate-600'}`}>{entry.label}</span>
+                <span className="text-[10px] font-bold text-slate-300 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
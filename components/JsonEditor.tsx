@@ -1,49 +1,149 @@
-
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
 import { RoadmapData } from '../types';
+import { formatSchemaError, parseRoadmap } from '../utils/schema';
+import { JsonToken, locateOffset, parseJson, resolvePointer, tokenizeJson } from '../utils/jsonParser';
 
 interface JsonEditorProps {
   data: RoadmapData;
   onChange: (newData: RoadmapData) => void;
 }
 
+interface Diagnostic {
+  kind: 'syntax' | 'schema';
+  message: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+// Layout metrics shared by the gutter, highlight layer and textarea so they stay aligned.
+const LINE_HEIGHT = 20;
+const PADDING_Y = 32;
+const GUTTER_WIDTH = 48;
+const INDENT = '  ';
+
+const AUTO_CLOSE: Record<string, string> = { '{': '}', '[': ']', '"': '"' };
+
+const TOKEN_CLASSES: Record<JsonToken['type'], string> = {
+  key: 'text-[#818cf8]',
+  string: 'text-[#f472b6]',
+  number: 'text-[#fbbf24]',
+  literal: 'text-[#34d399]',
+  punctuation: 'text-slate-500 font-bold',
+  whitespace: '',
+  invalid: 'text-rose-400'
+};
+
+const analyze = (code: string): { data: RoadmapData | null; diagnostics: Diagnostic[] } => {
+  const parsed = parseJson(code);
+  if (parsed.error) {
+    return { data: null, diagnostics: [{ kind: 'syntax', ...parsed.error }] };
+  }
+
+  const result = parseRoadmap(parsed.value);
+  const diagnostics = result.errors.map((error): Diagnostic => {
+    const range = resolvePointer(parsed.pointers, error.path) || { start: 0, end: 0 };
+    return { kind: 'schema', message: formatSchemaError(error), ...range, ...locateOffset(code, range.start) };
+  });
+  return { data: result.data, diagnostics };
+};
+
 const JsonEditor: React.FC<JsonEditorProps> = ({ data, onChange }) => {
   const [localValue, setLocalValue] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [isFocused, setIsFocused] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelection = useRef<[number, number] | null>(null);
 
   useEffect(() => {
     if (!isFocused) {
       setLocalValue(JSON.stringify(data, null, 2));
-      setError(null);
+      setDiagnostics([]);
     }
   }, [data, isFocused]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newValue = e.target.value;
+  // Restores the caret after edits made on the user's behalf (auto-close, format).
+  useLayoutEffect(() => {
+    if (pendingSelection.current && textareaRef.current) {
+      const [start, end] = pendingSelection.current;
+      textareaRef.current.setSelectionRange(start, end);
+      pendingSelection.current = null;
+    }
+  }, [localValue]);
+
+  const applyValue = (newValue: string, selection?: [number, number]) => {
+    if (selection) pendingSelection.current = selection;
     setLocalValue(newValue);
 
-    try {
-      const parsed = JSON.parse(newValue);
-      if (typeof parsed === 'object' && parsed !== null) {
-        const isValid = 
-          typeof parsed.title === 'string' && 
-          typeof parsed.description === 'string' && 
-          Array.isArray(parsed.stages);
-        
-        if (isValid) {
-          onChange(parsed);
-          setError(null);
-        } else {
-          setError('Invalid roadmap structure.');
-        }
-      } else {
-        setError('Must be a JSON object.');
-      }
-    } catch (err) {
-      setError('Invalid JSON syntax');
+    const result = analyze(newValue);
+    setDiagnostics(result.diagnostics);
+    if (result.data) onChange(result.data);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    applyValue(e.target.value);
+  };
+
+  const formatDocument = () => {
+    const parsed = parseJson(localValue);
+    if (!parsed.error) applyValue(JSON.stringify(parsed.value, null, 2));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart: start, selectionEnd: end, value } = e.currentTarget;
+    const before = value.slice(0, start);
+    const after = value.slice(end);
+    const next = value[end];
+
+    if (e.code === 'KeyF' && e.shiftKey && e.altKey) {
+      e.preventDefault();
+      formatDocument();
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    // Typing a closer that is already there just steps over it.
+    if ((e.key === '}' || e.key === ']' || e.key === '"') && start === end && next === e.key && value[start - 1] !== '\\') {
+      e.preventDefault();
+      e.currentTarget.setSelectionRange(start + 1, start + 1);
+      return;
+    }
+
+    if (AUTO_CLOSE[e.key]) {
+      const isEscaped = value[start - 1] === '\\';
+      const isBeforeWord = start === end && next !== undefined && !/[\s}\],:]/.test(next);
+      if (isEscaped || isBeforeWord) return;
+      e.preventDefault();
+      const wrapped = value.slice(start, end);
+      applyValue(`${before}${e.key}${wrapped}${AUTO_CLOSE[e.key]}${after}`, [start + 1, end + 1]);
+      return;
+    }
+
+    if (e.key === 'Backspace' && start === end && start > 0 && AUTO_CLOSE[value[start - 1]] === next) {
+      e.preventDefault();
+      applyValue(`${value.slice(0, start - 1)}${value.slice(start + 1)}`, [start - 1, start - 1]);
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      applyValue(`${before}${INDENT}${after}`, [start + INDENT.length, start + INDENT.length]);
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const indent = /^[ \t]*/.exec(before.slice(before.lastIndexOf('\n') + 1))?.[0] || '';
+      const previous = before.trimEnd().slice(-1);
+      const opensBlock = previous === '{' || previous === '[';
+      const inner = opensBlock ? indent + INDENT : indent;
+      const closesBlock = opensBlock && AUTO_CLOSE[previous] === after.trimStart()[0] && start === end;
+      const insert = closesBlock ? `\n${inner}\n${indent}` : `\n${inner}`;
+      const caret = start + 1 + inner.length;
+      applyValue(`${before}${insert}${after}`, [caret, caret]);
     }
   };
 
@@ -52,24 +152,46 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ data, onChange }) => {
       scrollRef.current.scrollTop = e.currentTarget.scrollTop;
       scrollRef.current.scrollLeft = e.currentTarget.scrollLeft;
     }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
   };
 
-  // Improved syntax highlighter for a "pretty" look
-  const highlightJson = (code: string) => {
-    if (!code) return null;
-    
-    return code.split(/(".*?"|[\{\}\[\],:]|\d+)/).map((part, i) => {
-      if (part.startsWith('"')) {
-        // If it ends with ':', it's likely a key
-        const isKey = part.endsWith(':') || code.substring(code.indexOf(part) + part.length).trim().startsWith(':');
-        return <span key={i} className={isKey ? 'text-[#818cf8]' : 'text-[#f472b6]'}>{part}</span>;
-      }
-      if (/^\d+$/.test(part)) return <span key={i} className="text-[#fbbf24]">{part}</span>;
-      if (['{', '}', '[', ']', ',', ':'].includes(part)) return <span key={i} className="text-slate-500 font-bold">{part}</span>;
-      return <span key={i} className="text-slate-300">{part}</span>;
-    });
+  const revealDiagnostic = (diagnostic: Diagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(diagnostic.start, Math.max(diagnostic.end, diagnostic.start));
+    textarea.scrollTop = Math.max(0, (diagnostic.line - 3) * LINE_HEIGHT);
   };
 
+  const lineCount = useMemo(() => localValue.split('\n').length, [localValue]);
+  const errorLines = useMemo(() => new Set(diagnostics.map(d => d.line)), [diagnostics]);
+
+  // Tokens drive the colors; any token touching a diagnostic range gets a squiggle.
+  const highlighted = useMemo(() => {
+    if (!localValue) return null;
+    const overlaps = (token: JsonToken) =>
+      diagnostics.some(d => token.type !== 'whitespace' && token.start < Math.max(d.end, d.start + 1) && token.end > d.start);
+
+    const nodes = tokenizeJson(localValue).map((token, i) => (
+      <span
+        key={i}
+        className={`${TOKEN_CLASSES[token.type]} ${overlaps(token) ? 'underline decoration-wavy decoration-rose-500 underline-offset-4' : ''}`}
+      >
+        {token.text}
+      </span>
+    ));
+    // Errors at the very end of the document (e.g. a missing bracket) still need a visible marker.
+    if (diagnostics.some(d => d.start >= localValue.length)) {
+      nodes.push(<span key="eof" className="underline decoration-wavy decoration-rose-500 underline-offset-4">{'  '}</span>);
+    }
+    return nodes;
+  }, [localValue, diagnostics]);
+
+  const hasSyntaxError = diagnostics.some(d => d.kind === 'syntax');
+  const hasError = diagnostics.length > 0;
+
   return (
     <div className="flex flex-col flex-grow">
       {/* Header Section */}
@@ -79,9 +201,18 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ data, onChange }) => {
           <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Source Code</span>
         </div>
         <div className="flex items-center gap-2">
-          {error ? (
+          <button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={formatDocument}
+            disabled={hasSyntaxError}
+            title="Format document (Shift+Alt+F)"
+            className="px-2.5 py-1 text-[9px] font-black text-slate-400 uppercase tracking-tight border border-slate-200 rounded-full hover:text-slate-900 transition-all disabled:opacity-30"
+          >
+            Format
+          </button>
+          {hasError ? (
             <div className="flex items-center gap-1.5 px-2.5 py-1 bg-rose-50 border border-rose-100 rounded-full">
-              <span className="text-[9px] font-black text-rose-500 uppercase tracking-tight">Invalid Format</span>
+              <span className="text-[9px] font-black text-rose-500 uppercase tracking-tight">{hasSyntaxError ? 'Syntax Error' : 'Schema Error'}</span>
             </div>
           ) : (
             <div className="flex items-center gap-1.5 px-2.5 py-1 bg-emerald-50 border border-emerald-100 rounded-full">
@@ -90,28 +221,54 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ data, onChange }) => {
           )}
         </div>
       </div>
-      
+
       {/* Dark Theme Code Editor */}
-      <div className={`relative flex-grow group rounded-[32px] border-2 transition-all duration-500 bg-[#0c111d] overflow-hidden ${error ? 'border-rose-200 shadow-lg shadow-rose-100' : isFocused ? 'border-indigo-400 shadow-2xl shadow-indigo-100/50' : 'border-slate-100'}`}>
+      <div className={`relative flex-grow group rounded-[32px] border-2 transition-all duration-500 bg-[#0c111d] overflow-hidden ${hasError ? 'border-rose-200 shadow-lg shadow-rose-100' : isFocused ? 'border-indigo-400 shadow-2xl shadow-indigo-100/50' : 'border-slate-100'}`}>
+        {/* Line Number Gutter */}
+        <div
+          ref={gutterRef}
+          className="absolute inset-y-0 left-0 overflow-hidden border-r border-white/5 font-mono text-[10px] text-right select-none pointer-events-none"
+          style={{ width: GUTTER_WIDTH, paddingTop: PADDING_Y, paddingBottom: PADDING_Y, lineHeight: `${LINE_HEIGHT}px` }}
+          aria-hidden="true"
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={`pr-3 ${errorLines.has(i + 1) ? 'text-rose-400 font-bold' : 'text-slate-600'}`}>
+              {errorLines.has(i + 1) ? '● ' : ''}{i + 1}
+            </div>
+          ))}
+        </div>
+
         {/* Highlight Layer */}
-        <div 
+        <div
           ref={scrollRef}
-          className="absolute inset-0 p-8 font-mono text-xs leading-relaxed pointer-events-none whitespace-pre overflow-hidden"
+          className="absolute inset-0 font-mono text-xs pointer-events-none whitespace-pre overflow-hidden"
+          style={{ padding: `${PADDING_Y}px 32px ${PADDING_Y}px ${GUTTER_WIDTH + 16}px`, lineHeight: `${LINE_HEIGHT}px` }}
           aria-hidden="true"
         >
-          {highlightJson(localValue)}
+          {[...errorLines].map(line => (
+            <div
+              key={line}
+              className="absolute left-0 right-0 bg-rose-500/10"
+              style={{ top: PADDING_Y + (line - 1) * LINE_HEIGHT, height: LINE_HEIGHT }}
+            />
+          ))}
+          <div className="relative">{highlighted}</div>
         </div>
 
         {/* Interaction Layer */}
         <textarea
+          data-native-undo
           ref={textareaRef}
           value={localValue}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
           onScroll={syncScroll}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
-          className="absolute inset-0 w-full h-full p-8 font-mono text-xs leading-relaxed bg-transparent text-transparent caret-indigo-400 outline-none resize-none custom-scrollbar selection:bg-indigo-500/20"
+          className="absolute inset-0 w-full h-full font-mono text-xs bg-transparent text-transparent caret-indigo-400 outline-none resize-none custom-scrollbar selection:bg-indigo-500/20 whitespace-pre"
+          style={{ padding: `${PADDING_Y}px 32px ${PADDING_Y}px ${GUTTER_WIDTH + 16}px`, lineHeight: `${LINE_HEIGHT}px` }}
           spellCheck={false}
+          wrap="off"
         />
 
         <div className="absolute bottom-6 right-6 opacity-10 pointer-events-none group-hover:opacity-40 transition-opacity">
@@ -120,6 +277,24 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ data, onChange }) => {
           </svg>
         </div>
       </div>
+
+      {/* Diagnostics - click to jump to the offending token. Buttons keep focus in the
+          textarea, since blurring resets the editor to the last valid roadmap. */}
+      {hasError && (
+        <div className="mt-3 space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+          {diagnostics.map((diagnostic, i) => (
+            <button
+              key={i}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => revealDiagnostic(diagnostic)}
+              className="w-full flex gap-2 px-2 py-1 text-left text-[11px] font-semibold text-rose-500 rounded-lg hover:bg-rose-50 transition-all"
+            >
+              <span className="font-mono text-rose-300 flex-shrink-0">Ln {diagnostic.line}, Col {diagnostic.column}</span>
+              <span>{diagnostic.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import React from 'react';
+import { RoadmapLane } from '../types';
+
+interface LanesPanelProps {
+  lanes: RoadmapLane[];
+  onAdd: () => void;
+  onUpdate: (id: string, updates: Partial<RoadmapLane>) => void;
+  onRemove: (id: string) => void;
+}
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+
+/** Names and colors of the roadmap's parallel tracks. Stages are moved between them in the stage editor. */
+const LanesPanel: React.FC<LanesPanelProps> = ({ lanes, onAdd, onUpdate, onRemove }) => (
+  <div className="w-full max-w-2xl flex flex-col gap-4 px-8 py-6 bg-white rounded-3xl border border-slate-200 shadow-sm">
+    <div className="flex items-center justify-between">
+      <span className={labelClass}>Lanes</span>
+      <button onClick={onAdd} className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700">
+        + Add Lane
+      </button>
+    </div>
+
+    {lanes.length === 0 ? (
+      <p className="text-[12px] font-semibold text-slate-400">
+        Split the roadmap into parallel tracks, such as design and engineering, drawn as roads on one shared timeline. Every stage starts in the first lane.
+      </p>
+    ) : (
+      <div className="flex flex-col gap-2">
+        {lanes.map((lane, i) => (
+          <div key={lane.id} className="flex items-center gap-3">
+            <input
+              type="color"
+              value={lane.color}
+              onChange={(e) => onUpdate(lane.id, { color: e.target.value })}
+              className="w-9 h-9 rounded-xl border border-slate-200 cursor-pointer bg-transparent flex-shrink-0"
+              title={lane.color}
+            />
+            <input
+              value={lane.name}
+              onChange={(e) => onUpdate(lane.id, { name: e.target.value })}
+              placeholder={`Lane ${i + 1}`}
+              className="flex-grow px-3 py-2 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300"
+            />
+            {i === 0 && <span className="text-[10px] font-black uppercase tracking-widest text-slate-300 flex-shrink-0">Default</span>}
+            <button
+              onClick={() => onRemove(lane.id)}
+              className="text-slate-200 hover:text-rose-500 transition-all p-1 flex-shrink-0"
+              title={lanes.length === 1 ? 'Remove lane and go back to a single road' : 'Remove lane; its stages move to the first lane'}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default LanesPanel;
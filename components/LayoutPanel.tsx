@@ -0,0 +1,80 @@
+import React from 'react';
+import { LayoutOrientation, LayoutSettings, RoadStyle } from '../types';
+import { LAYOUT_LIMITS } from '../constants';
+
+interface LayoutPanelProps {
+  settings: LayoutSettings;
+  onChange: (updates: Partial<LayoutSettings>) => void;
+  /** Lanes are always straight, left-to-right roads, so only the spacing applies. */
+  hasLanes?: boolean;
+}
+
+const ORIENTATIONS: { value: LayoutOrientation; label: string }[] = [
+  { value: 'serpentine', label: 'Serpentine' },
+  { value: 'horizontal', label: 'Horizontal' },
+  { value: 'vertical', label: 'Vertical' }
+];
+
+const ROAD_STYLES: { value: RoadStyle; label: string }[] = [
+  { value: 'curved', label: 'Curved' },
+  { value: 'straight', label: 'Straight' },
+  { value: 'zigzag', label: 'Zigzag' }
+];
+
+const segmentClass = (isActive: boolean) =>
+  `px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${isActive ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`;
+
+const LayoutPanel: React.FC<LayoutPanelProps> = ({ settings, onChange, hasLanes = false }) => {
+  const isSerpentine = settings.orientation === 'serpentine' && !hasLanes;
+
+  const slider = (key: keyof typeof LAYOUT_LIMITS, label: string, step: number, disabled = false) => (
+    <label className={`flex flex-col gap-1.5 ${disabled ? 'opacity-30' : ''}`}>
+      <span className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">
+        {label}
+        <span className="text-slate-600">{settings[key]}</span>
+      </span>
+      <input
+        type="range"
+        min={LAYOUT_LIMITS[key].min}
+        max={LAYOUT_LIMITS[key].max}
+        step={step}
+        value={settings[key]}
+        disabled={disabled}
+        onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+        className="w-40 accent-indigo-600"
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-wrap items-end justify-center gap-6 px-6 py-4 bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <div className={`flex flex-col gap-1.5 ${hasLanes ? 'opacity-30 pointer-events-none' : ''}`}>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Orientation</span>
+        <div className="flex bg-slate-50 rounded-2xl p-1">
+          {ORIENTATIONS.map(option => (
+            <button key={option.value} onClick={() => onChange({ orientation: option.value })} className={segmentClass(settings.orientation === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`flex flex-col gap-1.5 ${hasLanes ? 'opacity-30 pointer-events-none' : ''}`}>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Road</span>
+        <div className="flex bg-slate-50 rounded-2xl p-1">
+          {ROAD_STYLES.map(option => (
+            <button key={option.value} onClick={() => onChange({ roadStyle: option.value })} className={segmentClass(settings.roadStyle === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {slider('stagesPerRow', 'Stages / Row', 1, !isSerpentine)}
+      {slider('stageSpacing', 'Stage Spacing', 10)}
+      {hasLanes ? slider('rowSpacing', 'Lane Spacing', 10) : slider('rowSpacing', 'Row Spacing', 10, !isSerpentine)}
+    </div>
+  );
+};
+
+export default LayoutPanel;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RoadmapData } from '../types';
+import { SchemaError, formatSchemaError } from '../utils/schema';
+import { parseRoadmapMarkdown, roadmapToMarkdown } from '../utils/markdown';
+import { exportAs } from '../services/converters';
+
+interface MarkdownPanelProps {
+  data: RoadmapData;
+  onImport: (data: RoadmapData, source: string) => void;
+}
+
+const pillClass = 'px-2.5 py-1 text-[9px] font-black text-slate-400 uppercase tracking-tight border border-slate-200 rounded-full hover:text-slate-900 transition-all disabled:opacity-30';
+
+/**
+ * The roadmap as editable Markdown. Unlike the JSON source, edits are applied
+ * explicitly, since half-written Markdown often parses into a different roadmap.
+ */
+const MarkdownPanel: React.FC<MarkdownPanelProps> = ({ data, onImport }) => {
+  const [text, setText] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [errors, setErrors] = useState<SchemaError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isDirty) setText(roadmapToMarkdown(data));
+  }, [data, isDirty]);
+
+  const apply = (markdown: string, source: string) => {
+    const result = parseRoadmapMarkdown(markdown);
+    setErrors(result.errors);
+    if (!result.data) return;
+    setIsDirty(false);
+    onImport(result.data, source);
+  };
+
+  const revert = () => {
+    setIsDirty(false);
+    setErrors([]);
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    const markdown = await file.text();
+    setText(markdown);
+    setIsDirty(true);
+    apply(markdown, file.name);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const download = () => exportAs('markdown', data);
+
+  return (
+    <div className="flex flex-col flex-grow">
+      <div className="flex items-center justify-between mb-4 px-2">
+        <div className="flex items-center gap-2.5">
+          <div className={`w-2 h-2 rounded-full ${isDirty ? 'bg-amber-400' : 'bg-slate-400'}`}></div>
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{isDirty ? 'Unapplied Edits' : 'Markdown'}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={pillClass} title="Import a .md file">
+            Upload
+          </button>
+          <button onClick={download} className={pillClass} title="Download as .md">
+            Download
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md,.markdown,text/markdown,text/plain"
+            className="hidden"
+            onChange={(e) => upload(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      <textarea
+        data-native-undo
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setIsDirty(true);
+        }}
+        className={`flex-grow min-h-[420px] p-6 font-mono text-xs leading-5 text-slate-600 bg-[#f8fafc] border-2 rounded-[32px] outline-none resize-none custom-scrollbar transition-all ${errors.length > 0 ? 'border-rose-200' : 'border-slate-100 focus:border-indigo-300'}`}
+        spellCheck={false}
+        wrap="off"
+      />
+
+      {errors.length > 0 && (
+        <div className="mt-3 space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+          {errors.map((error, i) => (
+            <p key={i} className="px-2 py-1 text-[11px] font-semibold text-rose-500">{formatSchemaError(error)}</p>
+          ))}
+        </div>
+      )}
+
+      {isDirty && (
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => apply(text, 'Markdown')}
+            className="flex-1 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-600 transition-all"
+          >
+            Apply Markdown
+          </button>
+          <button
+            onClick={revert}
+            className="px-5 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownPanel;
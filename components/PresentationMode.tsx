@@ -0,0 +1,257 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { RoadmapData, TimelineMode } from '../types';
+import { STAGE_STATUSES } from '../constants';
+import Timeline from './Timeline';
+import { useTimelineGeometry } from '../hooks/useTimelineGeometry';
+import { resolveStageSpan, spanDays } from '../utils/dates';
+import { formatPercent, getStageProgress } from '../utils/progress';
+import { PIN_HEAD_OFFSET } from '../utils/roadLayout';
+
+interface PresentationModeProps {
+  data: RoadmapData;
+  mode: TimelineMode;
+  onClose: () => void;
+}
+
+interface Camera {
+  /** Distance travelled along the road. */
+  length: number;
+  x: number;
+  y: number;
+}
+
+const PANEL_WIDTH = 440;
+const CAMERA_SCALE = 0.9;
+// Travel speed along the road, clamped so short hops still read as movement.
+const CAMERA_SPEED = 1.6;
+const MIN_TRAVEL_MS = 700;
+const MAX_TRAVEL_MS = 2200;
+const AUTO_PLAY_INTERVALS = [5000, 10000, 20000];
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const controlClass = 'px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 disabled:opacity-30 transition-all';
+
+/**
+ * Full-screen walkthrough for meetings. The camera travels along the road from
+ * stage to stage, uncovering the road and pins as it goes, while the current
+ * stage is shown in full beside it. Arrow keys step, Escape leaves.
+ */
+const PresentationMode: React.FC<PresentationModeProps> = ({ data, mode, onClose }) => {
+  const { segmentPaths } = useTimelineGeometry(data, mode);
+  // The camera follows the road from pin to pin, hopping across when the next stage is in another lane.
+  const route = useMemo(() => segmentPaths.join(' '), [segmentPaths]);
+  const { stages, theme } = data;
+  const { colors } = theme;
+  const roadRef = useRef<SVGPathElement>(null);
+  const segmentRefs = useRef<(SVGPathElement | null)[]>([]);
+  const [pinLengths, setPinLengths] = useState<number[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [camera, setCamera] = useState<Camera | null>(null);
+  const cameraRef = useRef<Camera | null>(null);
+  const [isTravelling, setIsTravelling] = useState(false);
+  const [autoPlayMs, setAutoPlayMs] = useState<number | null>(null);
+  const [screen, setScreen] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  // Each pin sits where the road leading up to it ends.
+  useLayoutEffect(() => {
+    let total = 0;
+    setPinLengths(segmentPaths.map((_, i) => (total += segmentRefs.current[i]?.getTotalLength() ?? 0)));
+  }, [segmentPaths]);
+
+  const pointAt = useCallback((length: number): Camera => {
+    const point = roadRef.current?.getPointAtLength(length) ?? { x: 0, y: 0 };
+    return { length, x: point.x, y: point.y - PIN_HEAD_OFFSET };
+  }, []);
+
+  // Travels from wherever the camera is to the current stage's pin.
+  useEffect(() => {
+    if (!pinLengths || pinLengths.length === 0) return;
+    const target = pinLengths[Math.min(index, pinLengths.length - 1)];
+    const from = cameraRef.current?.length ?? 0;
+    const duration = Math.min(MAX_TRAVEL_MS, Math.max(MIN_TRAVEL_MS, Math.abs(target - from) / CAMERA_SPEED));
+    const startedAt = performance.now();
+    let frame = 0;
+    setIsTravelling(true);
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startedAt) / duration);
+      const next = pointAt(from + (target - from) * easeInOut(t));
+      cameraRef.current = next;
+      setCamera(next);
+      if (t < 1) frame = requestAnimationFrame(step);
+      else setIsTravelling(false);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [index, pinLengths, pointAt]);
+
+  const lastIndex = stages.length - 1;
+  const goTo = useCallback((next: number) => setIndex(Math.max(0, Math.min(lastIndex, next))), [lastIndex]);
+
+  useEffect(() => {
+    if (autoPlayMs === null || isTravelling) return;
+    if (index >= lastIndex) {
+      setAutoPlayMs(null);
+      return;
+    }
+    const timer = setTimeout(() => goTo(index + 1), autoPlayMs);
+    return () => clearTimeout(timer);
+  }, [autoPlayMs, isTravelling, index, lastIndex, goTo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) goTo(index + 1);
+      else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) goTo(index - 1);
+      else if (e.key === 'Home') goTo(0);
+      else if (e.key === 'End') goTo(lastIndex);
+      else if (e.key === 'Escape') onClose();
+      else return;
+      e.preventDefault();
+    };
+    const handleResize = () => setScreen({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [index, lastIndex, goTo, onClose]);
+
+  // Leaving full screen with the browser's own controls ends the presentation too.
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  useEffect(() => {
+    const root = document.documentElement;
+    let entered = false;
+    const handleChange = () => {
+      if (document.fullscreenElement) entered = true;
+      else if (entered) onCloseRef.current();
+    };
+    document.addEventListener('fullscreenchange', handleChange);
+    root.requestFullscreen?.().catch(() => undefined);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+  }, []);
+
+  const stage = stages[Math.min(index, lastIndex)];
+  const revealedCount = camera && pinLengths ? pinLengths.filter(length => length <= camera.length + 1).length : 0;
+  const viewWidth = Math.max(0, screen.width - PANEL_WIDTH);
+  const scale = Math.min(CAMERA_SCALE, screen.height / 900);
+  const span = stage && resolveStageSpan(stage);
+  const status = stage && STAGE_STATUSES.find(s => s.value === (stage.status || 'not-started'));
+  const progress = stage && getStageProgress(stage);
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-hidden select-none" style={{ backgroundColor: colors.background }}>
+      {/* Road measurements - never shown */}
+      <svg width="0" height="0" className="absolute" aria-hidden>
+        <path ref={roadRef} d={route} />
+        {segmentPaths.map((segment, i) => (
+          <path key={i} ref={el => { segmentRefs.current[i] = el; }} d={segment} />
+        ))}
+      </svg>
+
+      {camera && (
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ transform: `translate(${viewWidth / 2 - camera.x * scale}px, ${screen.height / 2 - camera.y * scale}px) scale(${scale})` }}
+        >
+          <Timeline data={data} mode={mode} readOnly highlightedStageId={isTravelling ? null : stage?.id} reveal={{ stageCount: revealedCount, roadLength: camera.length }} />
+        </div>
+      )}
+
+      {stage && (
+        <aside
+          className="absolute top-0 right-0 bottom-0 flex flex-col p-10 shadow-2xl overflow-y-auto custom-scrollbar"
+          style={{ width: PANEL_WIDTH, backgroundColor: colors.cardBackground, borderLeft: `1px solid ${colors.cardBorder}`, color: colors.text }}
+        >
+          <span className="text-[10px] font-black uppercase tracking-[0.2em]" style={{ color: colors.muted }}>
+            Stage {index + 1} of {stages.length}
+          </span>
+          <div className="w-16 h-1.5 rounded-full mt-4 mb-6" style={{ backgroundColor: stage.color }} />
+          <h2 className="text-4xl font-black uppercase leading-tight break-words" style={{ color: colors.heading }}>{stage.title || 'Untitled'}</h2>
+
+          <div className="flex flex-wrap items-center gap-2 mt-5">
+            {status && (
+              <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest text-white" style={{ backgroundColor: status.color }}>
+                {status.label}
+              </span>
+            )}
+            {span && (
+              <span className="text-[12px] font-bold" style={{ color: colors.muted }}>
+                {formatDay(span.start)} – {formatDay(span.end)} · {spanDays(span)} {spanDays(span) === 1 ? 'day' : 'days'}
+              </span>
+            )}
+          </div>
+
+          {stage.description && <p className="mt-6 text-lg font-medium leading-relaxed whitespace-pre-line">{stage.description}</p>}
+
+          {stage.assignees && stage.assignees.length > 0 && (
+            <p className="mt-6 text-[12px] font-bold" style={{ color: colors.muted }}>{stage.assignees.join(' · ')}</p>
+          )}
+
+          {progress && (
+            <div className="mt-8">
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                <span style={{ color: colors.muted }}>{progress.done}/{progress.total} Tasks</span>
+                <span style={{ color: stage.color }}>{formatPercent(progress.ratio)}</span>
+              </div>
+              <div className="h-2 mt-2 rounded-full overflow-hidden" style={{ backgroundColor: colors.cardBorder }}>
+                <div className="h-full" style={{ width: formatPercent(progress.ratio), backgroundColor: stage.color }} />
+              </div>
+              <ul className="mt-4 space-y-2">
+                {stage.tasks?.map(task => (
+                  <li key={task.id} className={`text-[13px] font-semibold ${task.done ? 'line-through opacity-50' : ''}`}>
+                    {task.done ? '✓' : '○'} {task.title}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </aside>
+      )}
+
+      {/* Controls */}
+      <div
+        className="absolute bottom-6 flex items-center bg-white rounded-2xl border border-slate-200 p-1 shadow-lg"
+        style={{ left: viewWidth / 2, transform: 'translateX(-50%)' }}
+      >
+        <button onClick={() => goTo(index - 1)} disabled={index === 0} className={controlClass} title="Previous stage (←)">
+          ← Prev
+        </button>
+        <button onClick={() => goTo(index + 1)} disabled={index >= lastIndex} className={`${controlClass} border-l border-slate-100`} title="Next stage (→)">
+          Next →
+        </button>
+        <div className="flex items-center border-l border-slate-100">
+          <button
+            onClick={() => setAutoPlayMs(prev => (prev === null ? AUTO_PLAY_INTERVALS[0] : null))}
+            disabled={index >= lastIndex && autoPlayMs === null}
+            className={`${controlClass} ${autoPlayMs !== null ? 'text-indigo-600' : ''}`}
+          >
+            {autoPlayMs === null ? 'Auto-play' : 'Pause'}
+          </button>
+          {autoPlayMs !== null && AUTO_PLAY_INTERVALS.map(ms => (
+            <button
+              key={ms}
+              onClick={() => setAutoPlayMs(ms)}
+              className={`px-2 py-2 text-[10px] font-black transition-all ${autoPlayMs === ms ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-900'}`}
+            >
+              {ms / 1000}s
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className={`${controlClass} border-l border-slate-100`} title="Exit (Esc)">
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationMode;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { RoadmapData } from '../types';
+import { STAGE_CHANGES } from '../constants';
+import { FieldChange, StageDiff, diffRoadmaps, getStageChange } from '../utils/roadmapDiff';
+import { TextDiffPart } from '../utils/sequences';
+
+interface RoadmapDiffViewProps {
+  before: RoadmapData;
+  after: RoadmapData;
+  /** Offers a Restore button on changed stages that existed in `before`. */
+  onRestore?: (stageId: string) => void;
+  restoreTitle?: string;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+
+const DIFF_PART_CLASSES: Record<TextDiffPart['type'], string> = {
+  same: 'text-slate-600',
+  removed: 'bg-rose-50 text-rose-600 line-through decoration-rose-300',
+  added: 'bg-emerald-50 text-emerald-700'
+};
+
+const DiffText: React.FC<{ parts: TextDiffPart[] }> = ({ parts }) => (
+  <p className="text-[12px] font-medium whitespace-pre-wrap break-words">
+    {parts.map((part, i) => <span key={i} className={`rounded ${DIFF_PART_CLASSES[part.type]}`}>{part.text}</span>)}
+  </p>
+);
+
+const FieldChanges: React.FC<{ fields: FieldChange[] }> = ({ fields }) => (
+  <dl className="space-y-2">
+    {fields.map(field => (
+      <div key={field.label} className="grid grid-cols-[96px_1fr] gap-3">
+        <dt className="pt-0.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">{field.label}</dt>
+        <dd><DiffText parts={field.parts} /></dd>
+      </div>
+    ))}
+  </dl>
+);
+
+/**
+ * What changed between two versions of the roadmap, stage by stage. Stages
+ * are matched by id, so a renamed stage shows as edited, not removed and added.
+ */
+const RoadmapDiffView: React.FC<RoadmapDiffViewProps> = ({ before, after, onRestore, restoreTitle }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const diff = useMemo(() => diffRoadmaps(before, after), [before, after]);
+
+  const changed = diff.stages.filter(stage => getStageChange(stage));
+  const unchangedCount = diff.stages.length - changed.length;
+  const visible = showUnchanged ? diff.stages : changed;
+  const counts = changed.reduce<Record<string, number>>((acc, stage) => {
+    const change = getStageChange(stage)!;
+    return { ...acc, [change]: (acc[change] || 0) + 1 };
+  }, {});
+
+  const describePosition = (stage: StageDiff) => {
+    if (!stage.moved) return null;
+    const was = before.stages.findIndex(s => s.id === stage.id) + 1;
+    const now = after.stages.findIndex(s => s.id === stage.id) + 1;
+    return `#${was} → #${now}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {changed.length === 0 && diff.document.length === 0 && (
+          <span className="text-[12px] font-semibold text-slate-400">No differences.</span>
+        )}
+        {(Object.keys(STAGE_CHANGES) as (keyof typeof STAGE_CHANGES)[]).filter(change => counts[change]).map(change => (
+          <span key={change} className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest text-white" style={{ backgroundColor: STAGE_CHANGES[change].color }}>
+            {counts[change]} {STAGE_CHANGES[change].label}
+          </span>
+        ))}
+      </div>
+
+      {diff.document.length > 0 && (
+        <div className="p-5 rounded-3xl border border-slate-100">
+          <span className={labelClass}>Roadmap</span>
+          <FieldChanges fields={diff.document} />
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(stage => {
+          const change = getStageChange(stage);
+          const version = stage.after || stage.before!;
+          const position = describePosition(stage);
+          return (
+            <li key={stage.id} className={`p-5 rounded-3xl border ${change ? 'border-slate-200' : 'border-slate-100 opacity-50'}`}>
+              <div className="flex items-center gap-3">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: version.color }} />
+                <span className={`flex-grow min-w-0 truncate text-[14px] font-black ${stage.kind === 'removed' ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
+                  {version.title || 'Untitled'}
+                </span>
+                {position && <span className="text-[11px] font-bold text-slate-400 flex-shrink-0">{position}</span>}
+                {change && (
+                  <span className="px-2.5 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest text-white flex-shrink-0" style={{ backgroundColor: STAGE_CHANGES[change].color }}>
+                    {STAGE_CHANGES[change].label}
+                  </span>
+                )}
+                {stage.moved && stage.fields.length > 0 && (
+                  <span className="px-2.5 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest text-white flex-shrink-0" style={{ backgroundColor: STAGE_CHANGES.edited.color }}>
+                    {STAGE_CHANGES.edited.label}
+                  </span>
+                )}
+                {onRestore && change && change !== 'added' && (
+                  <button
+                    onClick={() => onRestore(stage.id)}
+                    title={restoreTitle}
+                    className="flex-shrink-0 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest text-slate-500 border border-slate-200 hover:text-slate-900 hover:border-slate-300 transition-all"
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+              {stage.fields.length > 0 && (
+                <div className="mt-4">
+                  <FieldChanges fields={stage.fields} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {unchangedCount > 0 && (
+        <button
+          onClick={() => setShowUnchanged(prev => !prev)}
+          className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-900 transition-all"
+        >
+          {showUnchanged ? 'Hide' : 'Show'} unchanged stages ({unchangedCount})
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RoadmapDiffView;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { SavedRoadmap } from '../types';
+
+interface RoadmapLibraryProps {
+  roadmaps: SavedRoadmap[];
+  activeId: string | null;
+  error?: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onBrowseTemplates: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatUpdatedAt = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RoadmapLibrary: React.FC<RoadmapLibraryProps> = ({
+  roadmaps,
+  activeId,
+  error,
+  onOpen,
+  onCreate,
+  onBrowseTemplates,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (roadmap: SavedRoadmap) => {
+    setEditingId(roadmap.id);
+    setDraftName(roadmap.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (roadmap: SavedRoadmap) => {
+    if (window.confirm(`Delete "${roadmap.name}"? This cannot be undone.`)) onDelete(roadmap.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-2xl rounded-[48px] shadow-2xl p-10 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">Roadmap Library</h2>
+            <p className="text-sm text-slate-500 font-medium">Switch between your saved roadmaps.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-300 hover:text-slate-900 transition-all p-2 rounded-full hover:bg-slate-50"
+            title="Close Library"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+          </button>
+        </div>
+
+        {error && (
+          <p className="mb-4 px-5 py-3 bg-rose-50 border border-rose-100 rounded-2xl text-[12px] font-semibold text-rose-500">{error}</p>
+        )}
+
+        <div className="space-y-3 overflow-y-auto custom-scrollbar pr-1 flex-grow">
+          {roadmaps.map((roadmap) => {
+            const isActive = roadmap.id === activeId;
+            // Records are only validated when opened, so never trust their shape here.
+            const stages = Array.isArray(roadmap.data?.stages) ? roadmap.data.stages : [];
+            return (
+              <div
+                key={roadmap.id}
+                className={`flex items-center gap-4 p-5 rounded-[28px] border transition-all ${isActive ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 hover:border-slate-200'}`}
+              >
+                <div className="flex -space-x-1.5 flex-shrink-0">
+                  {stages.slice(0, 4).map((stage) => (
+                    <span key={stage.id} className="w-4 h-4 rounded-full ring-2 ring-white" style={{ backgroundColor: stage.color }} />
+                  ))}
+                </div>
+
+                <div className="flex-grow min-w-0">
+                  {editingId === roadmap.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full font-black text-slate-900 bg-white border border-indigo-200 rounded-xl px-3 py-1 outline-none"
+                    />
+                  ) : (
+                    <p className="font-black text-slate-900 truncate">{roadmap.name}</p>
+                  )}
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                    {stages.length} stages · Updated {formatUpdatedAt(roadmap.updatedAt)}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {isActive ? (
+                    <span className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600">Open</span>
+                  ) : (
+                    <button
+                      onClick={() => onOpen(roadmap.id)}
+                      className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-white bg-[#5046e5] rounded-xl hover:bg-[#4338ca] transition-all"
+                    >
+                      Switch
+                    </button>
+                  )}
+                  <button onClick={() => startRename(roadmap)} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all">
+                    Rename
+                  </button>
+                  <button onClick={() => onDuplicate(roadmap.id)} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all">
+                    Duplicate
+                  </button>
+                  <button onClick={() => confirmDelete(roadmap)} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-rose-500 transition-all">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onCreate}
+            className="flex-1 py-5 border-2 border-dashed border-slate-200 rounded-[32px] text-slate-400 font-black uppercase tracking-widest text-[11px] hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-center gap-2"
+          >
+            <span className="text-xl">+</span> New Roadmap
+          </button>
+          <button
+            onClick={onBrowseTemplates}
+            className="flex-1 py-5 border-2 border-dashed border-slate-200 rounded-[32px] text-slate-400 font-black uppercase tracking-widest text-[11px] hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"/></svg>
+            From Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoadmapLibrary;
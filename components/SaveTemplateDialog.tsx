@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { RoadmapData, RoadmapTemplate } from '../types';
+import { TemplateReplacement, createTemplate } from '../utils/templates';
+import { hasAnyDates } from '../utils/dates';
+
+interface SaveTemplateDialogProps {
+  data: RoadmapData;
+  onSave: (template: RoadmapTemplate) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const inputClass = 'w-full px-4 py-3 text-[13px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300';
+
+const countOccurrences = (data: RoadmapData, text: string) => {
+  const find = text.trim();
+  if (!find) return 0;
+  return [data.title, data.description, ...(data.lanes || []).map(lane => lane.name), ...data.stages.flatMap(stage => [stage.title, stage.description])]
+    .reduce((count, value) => count + value.split(find).length - 1, 0);
+};
+
+/**
+ * Saves the open roadmap as a reusable template. Text such as a client's
+ * name can be turned into a blank that is asked for on every new roadmap.
+ */
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ data, onSave, onClose }) => {
+  const [name, setName] = useState(data.title);
+  const [description, setDescription] = useState('');
+  const [replacements, setReplacements] = useState<TemplateReplacement[]>([{ label: '', text: '' }]);
+  const canShiftDates = hasAnyDates(data.stages);
+  const [useStartDate, setUseStartDate] = useState(canShiftDates);
+
+  const updateReplacement = (index: number, updates: Partial<TemplateReplacement>) =>
+    setReplacements(prev => prev.map((replacement, i) => (i === index ? { ...replacement, ...updates } : replacement)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-xl max-h-[90vh] flex flex-col rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Save as Template</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">Progress and comments are left out; stages, tasks and styling are kept.</p>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar pr-1 space-y-5">
+          <label className="block">
+            <span className={labelClass}>Template Name</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Description</span>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What is this template for?" className={inputClass} />
+          </label>
+
+          <div>
+            <span className={labelClass}>Blanks</span>
+            <p className="mb-3 text-[12px] font-medium text-slate-500">Each text found in the roadmap is asked for when a roadmap is created from the template.</p>
+            <div className="space-y-2">
+              {replacements.map((replacement, i) => {
+                const found = countOccurrences(data, replacement.text);
+                return (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      value={replacement.label}
+                      onChange={(e) => updateReplacement(i, { label: e.target.value })}
+                      placeholder="Blank, e.g. Client name"
+                      className={`${inputClass} flex-1`}
+                    />
+                    <input
+                      value={replacement.text}
+                      onChange={(e) => updateReplacement(i, { text: e.target.value })}
+                      placeholder="Replaces, e.g. Acme Corp"
+                      className={`${inputClass} flex-1`}
+                    />
+                    <span className={`w-16 flex-shrink-0 text-[10px] font-black uppercase tracking-widest ${found > 0 ? 'text-emerald-600' : 'text-slate-300'}`}>
+                      {replacement.text.trim() ? `${found} found` : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => setReplacements(prev => [...prev, { label: '', text: '' }])}
+              className="mt-3 text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:text-indigo-800 transition-all"
+            >
+              + Add Blank
+            </button>
+          </div>
+
+          {canShiftDates && (
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input type="checkbox" checked={useStartDate} onChange={(e) => setUseStartDate(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+              <span className="text-[13px] font-semibold text-slate-600">Ask for a start date and move every date with it</span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(createTemplate(data, { name, description, replacements, useStartDate: canShiftDates && useStartDate }))}
+            className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] transition-all"
+          >
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveTemplateDialog;
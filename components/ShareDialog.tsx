@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { RoadmapData } from '../types';
+import { LONG_LINK_LENGTH, buildShareUrl } from '../services/shareLink';
+import { withoutComments } from '../utils/comments';
+
+interface ShareDialogProps {
+  data: RoadmapData;
+  onClose: () => void;
+}
+
+/**
+ * Builds a read-only link that carries the roadmap itself. Nothing is
+ * uploaded, so the link shows the roadmap as it is now; later edits need a
+ * new link. Review comments are left out unless the user opts in, since links
+ * often go to people outside the review.
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ data, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [includeComments, setIncludeComments] = useState(false);
+  const commentCount = (data.comments || []).length;
+
+  useEffect(() => {
+    let isCurrent = true;
+    setUrl(null);
+    buildShareUrl(includeComments ? data : withoutComments(data))
+      .then(link => isCurrent && setUrl(link))
+      .catch(err => {
+        console.error('Share Error:', err);
+        if (isCurrent) setError('The share link could not be created.');
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [data, includeComments]);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  const copy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsCopied(true);
+    } catch {
+      setError('Copying was blocked by the browser. Select the link and copy it by hand.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-black text-slate-900">Share Roadmap</h2>
+        <p className="text-sm text-slate-500 font-medium mb-8">
+          Anyone with the link can view this version of the roadmap and copy it into their own library.
+        </p>
+
+        <span className="block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Read-only Link</span>
+        <input
+          readOnly
+          value={url ?? 'Creating link…'}
+          onFocus={(e) => e.target.select()}
+          className="w-full px-4 py-3 font-mono text-xs text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300"
+        />
+        {url && (
+          <p className="mt-2 text-[11px] font-semibold text-slate-400">
+            {url.length.toLocaleString()} characters
+            {url.length > LONG_LINK_LENGTH && (
+              <span className="text-amber-600"> · some apps shorten links this long. A smaller logo keeps it shorter.</span>
+            )}
+          </p>
+        )}
+        {commentCount > 0 && (
+          <label className="flex items-center gap-2 mt-3 text-[12px] font-semibold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={includeComments} onChange={(e) => setIncludeComments(e.target.checked)} className="accent-indigo-600" />
+            Include {commentCount} review {commentCount === 1 ? 'comment' : 'comments'} and their authors
+          </label>
+        )}
+        {error && <p className="mt-2 text-[12px] font-semibold text-rose-500">{error}</p>}
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={() => url && window.open(url, '_blank', 'noopener')}
+            disabled={!url}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 disabled:opacity-50 transition-all"
+          >
+            Preview
+          </button>
+          <button
+            onClick={copy}
+            disabled={!url}
+            className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-50 transition-all"
+          >
+            {isCopied ? 'Copied!' : 'Copy Link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { RoadmapData, TimelineMode } from '../types';
+import Timeline from './Timeline';
+import TimelineCanvas from './TimelineCanvas';
+import PresentationMode from './PresentationMode';
+import { useTimelineGeometry } from '../hooks/useTimelineGeometry';
+import { useViewport } from '../hooks/useViewport';
+import { decodeRoadmap } from '../services/shareLink';
+import { addToLibrary, createRoadmapStore } from '../services/roadmapStore';
+import { hasAnyDates } from '../utils/dates';
+import { hasLanes } from '../utils/lanes';
+import { formatSchemaError } from '../utils/schema';
+
+interface SharedRoadmapViewProps {
+  /** The encoded roadmap from the link's fragment. */
+  payload: string;
+  /** Leaves the shared view for the editor. */
+  onOpenEditor: () => void;
+}
+
+const buttonClass = 'px-5 py-2.5 rounded-2xl border font-black text-[10px] uppercase tracking-widest shadow-sm transition-all disabled:opacity-50';
+
+const SharedTimeline: React.FC<{ data: RoadmapData }> = ({ data }) => {
+  const [mode, setMode] = useState<TimelineMode>('even');
+  const [isPresenting, setIsPresenting] = useState(false);
+  const canUseCalendar = hasAnyDates(data.stages) && (data.layout.orientation !== 'vertical' || hasLanes(data));
+  const timelineMode = canUseCalendar ? mode : 'even';
+  const geometry = useTimelineGeometry(data, timelineMode);
+  const viewport = useViewport(geometry.width, geometry.height);
+
+  return (
+    <>
+      <div className="flex justify-center mb-4">
+        {canUseCalendar && (
+          <div className="flex bg-white rounded-2xl border border-slate-200 p-1 shadow-sm mr-3">
+            {(['even', 'calendar'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${timelineMode === value ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+              >
+                {value === 'even' ? 'Road' : 'Calendar'}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={() => setIsPresenting(true)}
+          disabled={data.stages.length === 0}
+          className="flex items-center gap-2 px-5 py-2 rounded-2xl border bg-white border-slate-200 text-slate-500 hover:text-slate-900 text-[10px] font-black uppercase tracking-widest transition-all shadow-sm disabled:opacity-30"
+        >
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+          Present
+        </button>
+      </div>
+      <TimelineCanvas viewport={viewport} geometry={geometry} stages={data.stages} theme={data.theme}>
+        <Timeline data={data} mode={timelineMode} readOnly />
+      </TimelineCanvas>
+      {isPresenting && <PresentationMode data={data} mode={timelineMode} onClose={() => setIsPresenting(false)} />}
+    </>
+  );
+};
+
+/**
+ * A roadmap opened from a share link: the timeline without any editing
+ * controls, plus the option to fork it into the receiver's own library.
+ */
+const SharedRoadmapView: React.FC<SharedRoadmapViewProps> = ({ payload, onOpenEditor }) => {
+  const [data, setData] = useState<RoadmapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setData(null);
+    setError(null);
+    decodeRoadmap(payload).then(result => {
+      if (!isCurrent) return;
+      if (result.data) setData(result.data);
+      else setError(formatSchemaError(result.errors[0]));
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [payload]);
+
+  const copyToLibrary = async () => {
+    if (!data) return;
+    setIsCopying(true);
+    try {
+      await addToLibrary(createRoadmapStore(), data);
+      onOpenEditor();
+    } catch (err) {
+      console.error('Library Error:', err);
+      setError('The roadmap could not be saved to your library.');
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#fcfcfd] text-slate-900">
+      <header className="bg-white pt-12 pb-8 text-center relative">
+        <div className="absolute top-6 left-6 px-4 py-2 rounded-2xl bg-slate-100 text-slate-500 font-black text-[10px] uppercase tracking-widest">
+          Read-only
+        </div>
+        <div className="absolute top-6 right-6 flex gap-2">
+          <button onClick={onOpenEditor} className={`${buttonClass} bg-white border-slate-200 text-slate-500 hover:text-slate-900`}>
+            Open Editor
+          </button>
+          <button
+            onClick={copyToLibrary}
+            disabled={!data || isCopying}
+            className={`${buttonClass} bg-[#5046e5] border-[#5046e5] text-white hover:bg-[#4338ca]`}
+          >
+            {isCopying ? 'Copying…' : 'Copy into My Library'}
+          </button>
+        </div>
+        <div className="container mx-auto px-4 flex flex-col items-center">
+          <h1 className="text-4xl md:text-6xl font-black text-slate-900">{data ? data.title : 'Shared Roadmap'}</h1>
+          {data?.description && <p className="max-w-2xl text-lg text-slate-500 font-medium mt-2 whitespace-pre-line">{data.description}</p>}
+          {data && error && <p className="mt-3 text-sm font-semibold text-rose-500">{error}</p>}
+        </div>
+      </header>
+
+      <main className="flex-grow bg-white py-6">
+        {data ? (
+          <SharedTimeline data={data} />
+        ) : (
+          <div className="flex h-[50vh] flex-col items-center justify-center gap-2 text-center px-4">
+            {error ? (
+              <>
+                <p className="text-lg font-black text-slate-900">This link could not be opened.</p>
+                <p className="text-sm font-semibold text-rose-500">{error}</p>
+              </>
+            ) : (
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Loading roadmap…</p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedRoadmapView;
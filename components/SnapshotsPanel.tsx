@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { RoadmapSnapshot } from '../types';
+
+interface SnapshotsPanelProps {
+  snapshots: RoadmapSnapshot[];
+  /** False until the library knows which roadmap is open. */
+  canTake: boolean;
+  onTake: (name: string) => void;
+  onCompare: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Named versions of the open roadmap, kept with it in the library. */
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ snapshots, canTake, onTake, onCompare, onDelete }) => {
+  const [name, setName] = useState('');
+
+  const take = () => {
+    onTake(name);
+    setName('');
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3 px-2">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Snapshots</span>
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-tight">Saved with the roadmap</span>
+      </div>
+      <div className="flex gap-2 mb-3">
+        <input
+          data-native-undo
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && canTake) take();
+          }}
+          placeholder="e.g. Sent to stakeholders"
+          className="flex-grow min-w-0 px-4 py-2.5 text-[12px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300"
+        />
+        <button
+          onClick={take}
+          disabled={!canTake}
+          className="flex-shrink-0 px-4 py-2.5 bg-slate-900 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-700 disabled:opacity-40 transition-all"
+        >
+          Snapshot
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="px-2 text-[12px] font-semibold text-slate-300">Take a snapshot to compare later versions against it.</p>
+      ) : (
+        <ul className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+          {[...snapshots].reverse().map(snapshot => (
+            <li key={snapshot.id} className="group flex items-center gap-3 px-4 py-2.5 rounded-2xl border border-slate-100">
+              <span className="flex-grow min-w-0">
+                <span className="block text-[12px] font-bold text-slate-700 truncate">{snapshot.name}</span>
+                <span className="block text-[10px] font-bold text-slate-300">{formatDate(snapshot.createdAt)}</span>
+              </span>
+              <button
+                onClick={() => onCompare(snapshot.id)}
+                className="flex-shrink-0 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest text-indigo-600 border border-indigo-100 hover:bg-indigo-50 transition-all"
+              >
+                Compare
+              </button>
+              <button
+                onClick={() => onDelete(snapshot.id)}
+                title="Delete snapshot"
+                className="flex-shrink-0 text-slate-200 hover:text-rose-500 transition-all opacity-0 group-hover:opacity-100"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
@@ -1,14 +1,38 @@
 
-import React from 'react';
-import { ProjectStage } from '../types';
-import { THEME_COLORS } from '../constants';
+import React, { useState } from 'react';
+import { PathType, ProjectStage, RoadmapLane, RoadPosition } from '../types';
+import { STAGE_STATUSES } from '../constants';
+import { resolveStageSpan, spanDays } from '../utils/dates';
+import { validateDependencies, wouldCreateCycle } from '../utils/dependencies';
+import TaskList from './TaskList';
+import CommentsPanel, { CommentsPanelProps } from './CommentsPanel';
+import { countOpenThreads } from '../utils/comments';
+import { Peer } from '../services/collaboration';
+import { REFINEMENT_ACTIONS, RefinementKind } from '../services/aiRefinements';
+import { getStageLaneIndex } from '../utils/lanes';
 
 interface StageEditorProps {
   stage: ProjectStage;
+  stages: ProjectStage[];
+  /** Swatches from the roadmap theme. */
+  palette: string[];
+  /** The roadmap's lanes; the stage can be moved between them. */
+  lanes?: RoadmapLane[];
   index: number;
   isDragging?: boolean;
   onUpdate: (updates: Partial<ProjectStage>) => void;
   onRemove: () => void;
+  onLocate?: () => void;
+  currentPosition?: RoadPosition;
+  onSetPosition: (position: RoadPosition | undefined) => void;
+  /** Collaborators currently editing this card. */
+  editors?: Peer[];
+  onFocusChange?: (isFocused: boolean) => void;
+  /** Review threads on this stage, shown in a side panel. */
+  comments?: CommentsPanelProps;
+  /** Asks the AI for a change to this stage; the result is reviewed before it applies. */
+  onRefine?: (kind: RefinementKind) => void;
+  isRefining?: boolean;
   onDragStart: () => void;
   onDragOver: (e: React.DragEvent) => void;
   onDragEnd: () => void;
@@ -16,22 +40,78 @@ interface StageEditorProps {
 
 const StageEditor: React.FC<StageEditorProps> = ({ 
   stage, 
+  stages,
+  palette,
+  lanes = [],
   index, 
   isDragging, 
   onUpdate, 
   onRemove,
+  onLocate,
+  currentPosition,
+  onSetPosition,
+  editors = [],
+  onFocusChange,
+  comments,
+  onRefine,
+  isRefining,
   onDragStart,
   onDragOver,
   onDragEnd
 }) => {
+  const span = resolveStageSpan(stage);
+  const dependsOn = stage.dependsOn || [];
+  const otherStages = stages.filter(s => s.id !== stage.id);
+  const isCustomColor = !palette.some(color => color.toLowerCase() === stage.color.toLowerCase());
+  const dependencyIssues = validateDependencies(stages).filter(issue => issue.stageId === stage.id);
+  const assignees = stage.assignees || [];
+  const [assigneeDraft, setAssigneeDraft] = useState('');
+  const isCurrent = currentPosition?.stageId === stage.id;
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const openThreads = comments ? countOpenThreads(comments.threads) : 0;
+  const [isAiMenuOpen, setIsAiMenuOpen] = useState(false);
+
+  const addAssignee = () => {
+    const name = assigneeDraft.trim();
+    if (name && !assignees.includes(name)) onUpdate({ assignees: [...assignees, name] });
+    setAssigneeDraft('');
+  };
+
+  const toggleDependency = (id: string) => {
+    if (dependsOn.includes(id)) {
+      onUpdate({ dependsOn: dependsOn.filter(d => d !== id) });
+    } else if (!wouldCreateCycle(stages, stage.id, id)) {
+      onUpdate({ dependsOn: [...dependsOn, id] });
+    }
+  };
+
   return (
     <div 
       draggable
       onDragStart={onDragStart}
       onDragOver={onDragOver}
       onDragEnd={onDragEnd}
+      onFocus={() => onFocusChange?.(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onFocusChange?.(false);
+      }}
       className={`bg-white p-8 rounded-[40px] border border-slate-200/40 shadow-sm transition-all relative flex flex-col md:flex-row gap-8 ${isDragging ? 'opacity-40 scale-[0.98]' : 'opacity-100 hover:shadow-xl hover:border-slate-300/50'}`}
+      style={editors.length > 0 ? { boxShadow: `0 0 0 3px ${editors[0].color}` } : undefined}
     >
+      {/* Presence - who else is editing this card */}
+      {editors.length > 0 && (
+        <div className="absolute -top-3 right-10 flex gap-1.5">
+          {editors.map(editor => (
+            <span
+              key={editor.id}
+              className="px-2.5 py-1 rounded-full text-[9px] font-black uppercase tracking-widest text-white shadow-sm"
+              style={{ backgroundColor: editor.color }}
+            >
+              {editor.name}
+            </span>
+          ))}
+        </div>
+      )}
       {/* Circle Index - Matching screenshot exactly */}
       <div 
         className="w-14 h-14 rounded-[22px] flex items-center justify-center text-white font-black text-2xl flex-shrink-0 shadow-lg transition-transform hover:scale-105"
@@ -53,6 +133,58 @@ const StageEditor: React.FC<StageEditorProps> = ({
             style={{ color: stage.color }}
             placeholder="Milestone Title"
           />
+          {onRefine && (
+            <div className="relative">
+              <button
+                onClick={() => setIsAiMenuOpen(prev => !prev)}
+                disabled={isRefining}
+                className={`transition-all p-2 rounded-full ${isAiMenuOpen ? 'text-indigo-500 bg-indigo-50' : 'text-slate-200 hover:text-indigo-500 hover:bg-indigo-50'} ${isRefining ? 'animate-pulse' : ''}`}
+                title={isRefining ? 'Waiting for AI…' : 'Refine with AI'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z"/></svg>
+              </button>
+              {isAiMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 z-20 w-64 bg-white rounded-3xl border border-slate-100 shadow-xl p-2">
+                  {REFINEMENT_ACTIONS.filter(action => action.scope === 'stage').map(action => (
+                    <button
+                      key={action.kind}
+                      onClick={() => {
+                        setIsAiMenuOpen(false);
+                        onRefine(action.kind);
+                      }}
+                      className="w-full text-left px-4 py-2.5 rounded-2xl hover:bg-indigo-50 transition-all"
+                    >
+                      <span className="block text-[12px] font-black text-slate-700">{action.label}</span>
+                      <span className="block text-[10px] font-bold text-slate-400">{action.hint}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {comments && (
+            <button
+              onClick={() => setIsCommentsOpen(prev => !prev)}
+              className={`relative transition-all p-2 rounded-full ${isCommentsOpen ? 'text-indigo-500 bg-indigo-50' : 'text-slate-200 hover:text-indigo-500 hover:bg-indigo-50'}`}
+              title={isCommentsOpen ? 'Hide comments' : 'Comments'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"/></svg>
+              {openThreads > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-indigo-500 text-white text-[9px] font-black flex items-center justify-center">
+                  {openThreads}
+                </span>
+              )}
+            </button>
+          )}
+          {onLocate && (
+            <button 
+              onClick={onLocate} 
+              className="text-slate-200 hover:text-indigo-500 transition-all p-2 rounded-full hover:bg-indigo-50"
+              title="Show on Roadmap"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/></svg>
+            </button>
+          )}
           <button 
             onClick={onRemove} 
             className="text-slate-200 hover:text-rose-500 transition-all p-2 rounded-full hover:bg-rose-50"
@@ -72,21 +204,227 @@ const StageEditor: React.FC<StageEditorProps> = ({
           />
         </div>
 
-        {/* Theme Color Selector - Label matches screenshot */}
+        {/* Status - blocked and done stages stand out on the roadmap */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Status</span>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex bg-[#f8fafc] border border-slate-100 rounded-xl p-0.5 w-fit">
+              {STAGE_STATUSES.map(option => {
+                const isSelected = (stage.status || 'not-started') === option.value;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => onUpdate({ status: option.value === 'not-started' ? undefined : option.value })}
+                    className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-[11px] font-bold transition-all ${isSelected ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-700'}`}
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: option.color }} />
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => onSetPosition(isCurrent ? undefined : { stageId: stage.id, offset: 0.5 })}
+              className={`px-3 py-1 rounded-full text-[11px] font-bold border transition-all ${isCurrent ? 'bg-slate-900 text-white border-transparent shadow-sm' : 'text-slate-500 border-slate-200 hover:border-slate-300'}`}
+              title={isCurrent ? 'Remove the marker' : 'Place the "you are here" marker on the road leading to this stage'}
+            >
+              You Are Here
+            </button>
+            {isCurrent && (
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(currentPosition.offset * 100)}
+                onChange={(e) => onSetPosition({ stageId: stage.id, offset: Number(e.target.value) / 100 })}
+                className="w-28 accent-slate-900"
+                title="How far along the road to this stage"
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Assignees */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Assignees</span>
+          <div className="flex flex-wrap items-center gap-2">
+            {assignees.map(name => (
+              <span key={name} className="flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-full text-[11px] font-bold text-slate-600 bg-[#f8fafc] border border-slate-100">
+                {name}
+                <button
+                  onClick={() => onUpdate({ assignees: assignees.filter(a => a !== name) })}
+                  className="text-slate-300 hover:text-rose-500 transition-all px-0.5"
+                  title={`Remove ${name}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              value={assigneeDraft}
+              onChange={(e) => setAssigneeDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addAssignee();
+                }
+              }}
+              onBlur={addAssignee}
+              className="w-36 px-3 py-1 text-[12px] font-semibold text-slate-600 bg-transparent border border-dashed border-slate-200 rounded-full outline-none focus:border-indigo-300 placeholder:text-slate-300"
+              placeholder="Add a person"
+            />
+          </div>
+        </div>
+
+        {/* Lane - which parallel road the stage runs on */}
+        {lanes.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Lane</span>
+            <div className="flex flex-wrap bg-[#f8fafc] border border-slate-100 rounded-xl p-0.5 w-fit">
+              {lanes.map((lane, i) => {
+                const isSelected = getStageLaneIndex(stage, lanes) === i;
+                return (
+                  <button
+                    key={lane.id}
+                    onClick={() => onUpdate({ laneId: lane.id })}
+                    className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-[11px] font-bold transition-all ${isSelected ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-700'}`}
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: lane.color }} />
+                    {lane.name || 'Untitled'}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Tasks - checklist that drives the progress shown on the roadmap */}
+        <div className="flex flex-col md:flex-row md:items-start gap-4">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0 md:pt-1.5">Tasks</span>
+          <div className="flex-grow min-w-0">
+            <TaskList tasks={stage.tasks || []} color={stage.color} onChange={(tasks) => onUpdate({ tasks })} />
+          </div>
+        </div>
+
+        {/* Schedule - optional dates drive the calendar timeline */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Schedule</span>
+          <div className="flex flex-wrap items-center gap-2.5">
+            <input
+              type="date"
+              value={stage.startDate || ''}
+              onChange={(e) => onUpdate({ startDate: e.target.value || undefined })}
+              className="px-3 py-1.5 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300"
+              title="Start date"
+            />
+            <span className="text-slate-300 font-black">→</span>
+            <input
+              type="date"
+              value={stage.endDate || ''}
+              onChange={(e) => onUpdate({ endDate: e.target.value || undefined })}
+              className="px-3 py-1.5 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300"
+              title="End date"
+            />
+            <input
+              type="number"
+              min={1}
+              value={stage.endDate ? (span ? spanDays(span) : '') : stage.durationDays ?? ''}
+              disabled={!!stage.endDate}
+              onChange={(e) => onUpdate({ durationDays: e.target.value ? Math.max(1, Number(e.target.value)) : undefined })}
+              className="w-20 px-3 py-1.5 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300 disabled:text-slate-400"
+              title={stage.endDate ? 'Duration follows the end date' : 'Duration in days'}
+            />
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]">Days</span>
+          </div>
+        </div>
+
+        {/* Dependencies - stages that must finish first */}
+        {otherStages.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-start gap-4">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0 md:pt-1.5">Depends On</span>
+            <div className="flex flex-col gap-2">
+              <div className="flex gap-2 flex-wrap">
+                {otherStages.map((other) => {
+                  const isSelected = dependsOn.includes(other.id);
+                  const isBlocked = !isSelected && wouldCreateCycle(stages, stage.id, other.id);
+                  return (
+                    <button
+                      key={other.id}
+                      onClick={() => toggleDependency(other.id)}
+                      disabled={isBlocked}
+                      title={isBlocked ? `Would create a cycle: '${other.title}' already depends on this stage` : undefined}
+                      className={`px-3 py-1 rounded-full text-[11px] font-bold border transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isSelected ? 'text-white border-transparent shadow-sm' : 'text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                      style={isSelected ? { backgroundColor: other.color } : undefined}
+                    >
+                      {other.title || 'Untitled'}
+                    </button>
+                  );
+                })}
+              </div>
+              {dependencyIssues.map((issue) => (
+                <p key={issue.message} className="text-[11px] font-semibold text-rose-500">{issue.message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Card Placement - unset alternates sides along the road */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Card</span>
+          <div className="flex bg-[#f8fafc] border border-slate-100 rounded-xl p-0.5 w-fit">
+            {[
+              { value: undefined, label: 'Auto' },
+              { value: PathType.PEAK, label: 'Above' },
+              { value: PathType.VALLEY, label: 'Below' }
+            ].map(option => (
+              <button
+                key={option.label}
+                onClick={() => onUpdate({ placement: option.value })}
+                title={option.value ? `${option.label} the road (${option.value === PathType.PEAK ? 'left' : 'right'} on a vertical road)` : 'Alternate sides'}
+                className={`px-3 py-1 rounded-lg text-[11px] font-bold transition-all ${stage.placement === option.value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-700'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Theme Color Selector - swatches come from the roadmap theme palette */}
         <div className="flex flex-col md:flex-row md:items-center gap-4">
           <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">Theme Color</span>
           <div className="flex gap-2.5 flex-wrap">
-            {THEME_COLORS.map((color) => (
+            {palette.map((color, i) => (
               <button
-                key={color}
+                key={`${color}-${i}`}
                 onClick={() => onUpdate({ color })}
                 className={`w-6 h-6 rounded-full transition-all relative ${stage.color === color ? 'scale-110 shadow-md ring-2 ring-slate-800 ring-offset-2' : 'opacity-80 hover:scale-110 hover:opacity-100'}`}
                 style={{ backgroundColor: color }}
               />
             ))}
+            {/* One-off color outside the palette */}
+            <label
+              className={`w-6 h-6 rounded-full relative overflow-hidden cursor-pointer border-2 border-dashed transition-all hover:scale-110 ${isCustomColor ? 'border-transparent scale-110 shadow-md ring-2 ring-slate-800 ring-offset-2' : 'border-slate-300'}`}
+              style={isCustomColor ? { backgroundColor: stage.color } : undefined}
+              title="Custom color"
+            >
+              <input
+                type="color"
+                value={stage.color}
+                onChange={(e) => onUpdate({ color: e.target.value })}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              />
+            </label>
           </div>
         </div>
       </div>
+
+      {/* Review threads - side panel next to the fields */}
+      {comments && isCommentsOpen && (
+        <aside className="md:w-72 flex-shrink-0 md:pl-8 md:border-l border-slate-100">
+          <CommentsPanel {...comments} />
+        </aside>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { StageTask } from '../types';
+import { formatPercent, getStageProgress } from '../utils/progress';
+
+interface TaskListProps {
+  tasks: StageTask[];
+  color: string;
+  onChange: (tasks: StageTask[]) => void;
+}
+
+const fieldClass = 'px-2 py-1 text-[12px] font-semibold text-slate-600 bg-transparent border border-transparent rounded-lg outline-none hover:border-slate-100 focus:border-indigo-300 focus:bg-white';
+
+const TaskList: React.FC<TaskListProps> = ({ tasks, color, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const progress = getStageProgress({ id: '', title: '', description: '', color, tasks });
+
+  const updateTask = (id: string, updates: Partial<StageTask>) =>
+    onChange(tasks.map(task => (task.id === id ? { ...task, ...updates } : task)));
+
+  const addTask = () => {
+    const title = draft.trim();
+    if (!title) return;
+    onChange([...tasks, { id: Math.random().toString(36).substr(2, 9), title, done: false }]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {progress && (
+        <div className="flex items-center gap-3">
+          <div className="flex-grow h-1.5 rounded-full bg-slate-100 overflow-hidden">
+            <div className="h-full rounded-full transition-all" style={{ width: formatPercent(progress.ratio), backgroundColor: color }} />
+          </div>
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.1em] flex-shrink-0">
+            {progress.done}/{progress.total} · {formatPercent(progress.ratio)}
+          </span>
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-1">
+        {tasks.map(task => (
+          <li key={task.id} className="group/task flex flex-wrap items-center gap-2">
+            <input
+              type="checkbox"
+              checked={task.done}
+              onChange={(e) => updateTask(task.id, { done: e.target.checked })}
+              className="w-4 h-4 flex-shrink-0 cursor-pointer"
+              style={{ accentColor: color }}
+            />
+            <input
+              value={task.title}
+              onChange={(e) => updateTask(task.id, { title: e.target.value })}
+              className={`${fieldClass} flex-grow min-w-[140px] ${task.done ? 'line-through text-slate-400' : ''}`}
+              placeholder="Task"
+            />
+            <input
+              value={task.owner || ''}
+              onChange={(e) => updateTask(task.id, { owner: e.target.value || undefined })}
+              className={`${fieldClass} w-28`}
+              placeholder="Owner"
+              title="Owner"
+            />
+            <input
+              type="date"
+              value={task.dueDate || ''}
+              onChange={(e) => updateTask(task.id, { dueDate: e.target.value || undefined })}
+              className={`${fieldClass} w-36`}
+              title="Due date"
+            />
+            <button
+              onClick={() => onChange(tasks.filter(t => t.id !== task.id))}
+              className="text-slate-200 hover:text-rose-500 transition-all px-1 opacity-0 group-hover/task:opacity-100 focus:opacity-100"
+              title="Remove Task"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addTask();
+            }
+          }}
+          className="flex-grow px-3 py-1.5 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300 placeholder:text-slate-300"
+          placeholder="Add a task and press Enter"
+        />
+        <button
+          onClick={addTask}
+          disabled={!draft.trim()}
+          className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 disabled:opacity-30 transition-all"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskList;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { RoadmapData, RoadmapTemplate } from '../types';
+import { defaultTemplateValues, fillTemplate } from '../utils/templates';
+import { formatSchemaError, parseRoadmap } from '../utils/schema';
+
+interface TemplateGalleryProps {
+  builtIn: RoadmapTemplate[];
+  saved: RoadmapTemplate[];
+  error?: string | null;
+  onCreate: (data: RoadmapData) => void;
+  onDelete: (id: string) => void;
+  onSaveCurrent: () => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block mb-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const inputClass = 'w-full px-4 py-3 text-[13px] font-semibold text-slate-700 bg-[#f8fafc] border border-slate-100 rounded-2xl outline-none focus:border-indigo-300';
+
+const TemplateCard: React.FC<{ template: RoadmapTemplate; onSelect: () => void; onDelete?: () => void }> = ({ template, onSelect, onDelete }) => {
+  // Saved templates come from storage, so their shape is not trusted here.
+  const stages = Array.isArray(template.data?.stages) ? template.data.stages : [];
+  return (
+    <div className="group relative">
+      <button
+        onClick={onSelect}
+        className="w-full h-full text-left p-5 rounded-[28px] border border-slate-100 hover:border-indigo-200 hover:bg-indigo-50/30 transition-all"
+      >
+        <div className="flex -space-x-1.5 mb-3">
+          {stages.slice(0, 6).map(stage => (
+            <span key={stage.id} className="w-4 h-4 rounded-full ring-2 ring-white" style={{ backgroundColor: stage.color }} />
+          ))}
+        </div>
+        <p className="font-black text-slate-900 truncate pr-6">{template.name}</p>
+        {template.description && <p className="mt-1 text-[12px] font-medium text-slate-500 line-clamp-2">{template.description}</p>}
+        <p className="mt-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">{stages.length} stages</p>
+      </button>
+      {onDelete && (
+        <button
+          onClick={() => {
+            if (window.confirm(`Delete the template "${template.name}"?`)) onDelete();
+          }}
+          title="Delete template"
+          className="absolute top-4 right-4 text-slate-200 hover:text-rose-500 transition-all opacity-0 group-hover:opacity-100"
+        >
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** Starts a new roadmap from a built-in or saved template, asking for its blanks first. */
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ builtIn, saved, error, onCreate, onDelete, onSaveCurrent, onClose }) => {
+  const [selected, setSelected] = useState<RoadmapTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const select = (template: RoadmapTemplate) => {
+    setSelected(template);
+    setValues(defaultTemplateValues(template));
+  };
+
+  // Filled and validated on every keystroke, so the preview is exactly what gets created.
+  const result = useMemo(() => (selected ? parseRoadmap(fillTemplate(selected, values)) : null), [selected, values]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[48px] shadow-2xl p-10" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">{selected ? selected.name : 'Templates'}</h2>
+            <p className="text-sm text-slate-500 font-medium">
+              {selected ? 'Fill in the blanks; they are used throughout the roadmap.' : 'Start a new roadmap from a proven shape.'}
+            </p>
+          </div>
+          {!selected && (
+            <button
+              onClick={onSaveCurrent}
+              className="flex-shrink-0 px-4 py-2.5 border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all"
+            >
+              Save Current as Template
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="mb-4 px-5 py-3 bg-rose-50 border border-rose-100 rounded-2xl text-[12px] font-semibold text-rose-500">{error}</p>
+        )}
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar pr-1">
+          {!selected ? (
+            <div className="space-y-8">
+              <div>
+                <span className={labelClass}>Built-in</span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {builtIn.map(template => <TemplateCard key={template.id} template={template} onSelect={() => select(template)} />)}
+                </div>
+              </div>
+              <div>
+                <span className={labelClass}>My Templates</span>
+                {saved.length === 0 ? (
+                  <p className="text-[12px] font-semibold text-slate-300">Save a roadmap as a template to reuse its stages.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {saved.map(template => (
+                      <TemplateCard key={template.id} template={template} onSelect={() => select(template)} onDelete={() => onDelete(template.id)} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {selected.variables.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {selected.variables.map(variable => (
+                    <label key={variable.key} className="block">
+                      <span className={labelClass}>{variable.label}</span>
+                      <input
+                        type={variable.kind === 'date' ? 'date' : 'text'}
+                        value={values[variable.key] ?? ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [variable.key]: e.target.value }))}
+                        placeholder={variable.label}
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {result?.data ? (
+                <div className="p-5 rounded-3xl border border-slate-100">
+                  <span className={labelClass}>Preview</span>
+                  <p className="font-black text-slate-900">{result.data.title}</p>
+                  <ol className="mt-3 space-y-2">
+                    {result.data.stages.map(stage => (
+                      <li key={stage.id} className="flex items-center gap-3 text-[13px] font-semibold text-slate-600">
+                        <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: stage.color }} />
+                        <span className="flex-grow min-w-0 truncate">{stage.title}</span>
+                        {stage.startDate && <span className="text-[11px] font-bold text-slate-400 flex-shrink-0">{stage.startDate}</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ) : (
+                <p className="text-[12px] font-semibold text-rose-500">
+                  This template does not make a valid roadmap: {result && formatSchemaError(result.errors[0])}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-8">
+          <button
+            onClick={selected ? () => setSelected(null) : onClose}
+            className="flex-1 py-4 border border-slate-200 rounded-[24px] font-black text-[11px] uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-all"
+          >
+            {selected ? 'Back' : 'Close'}
+          </button>
+          {selected && (
+            <button
+              onClick={() => result?.data && onCreate(result.data)}
+              disabled={!result?.data}
+              className="flex-1 py-4 bg-[#5046e5] text-white rounded-[24px] font-black text-[11px] uppercase tracking-widest shadow-lg shadow-indigo-100 hover:bg-[#4338ca] disabled:opacity-50 transition-all"
+            >
+              Create Roadmap
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
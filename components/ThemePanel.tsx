@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { RoadmapTheme, ThemeColors } from '../types';
+import { BUILT_IN_THEMES, FONT_OPTIONS, MAX_CARD_RADIUS, MAX_LOGO_BYTES } from '../constants';
+
+interface ThemePanelProps {
+  theme: RoadmapTheme;
+  onChange: (updates: Partial<RoadmapTheme>) => void;
+  onApplyPreset: (preset: RoadmapTheme) => void;
+  onRecolorStages: () => void;
+}
+
+const COLOR_LABELS: Record<keyof ThemeColors, string> = {
+  background: 'Background',
+  road: 'Road',
+  roadEdge: 'Road Edge',
+  roadMarking: 'Markings',
+  cardBackground: 'Card',
+  cardBorder: 'Card Border',
+  heading: 'Headings',
+  text: 'Text',
+  muted: 'Labels'
+};
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.1em]';
+const selectClass = 'px-3 py-2 text-[12px] font-semibold text-slate-600 bg-[#f8fafc] border border-slate-100 rounded-xl outline-none focus:border-indigo-300';
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onChange, onApplyPreset, onRecolorStages }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  // Any manual edit turns the theme into a custom one.
+  const edit = (updates: Partial<RoadmapTheme>) => onChange({ ...updates, name: 'Custom' });
+
+  const setPaletteColor = (index: number, color: string) =>
+    edit({ palette: theme.palette.map((c, i) => (i === index ? color : c)) });
+
+  const fontChoices = (current: string) => (FONT_OPTIONS.includes(current) ? FONT_OPTIONS : [current, ...FONT_OPTIONS]);
+
+  const uploadLogo = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setLogoError('Choose an image file.');
+    } else if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(`Logos must be under ${Math.round(MAX_LOGO_BYTES / 1024)} KB.`);
+    } else {
+      setLogoError(null);
+      edit({ logo: await readAsDataUrl(file) });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-6 px-8 py-6 bg-white rounded-3xl border border-slate-200 shadow-sm">
+      {/* Presets */}
+      <div className="flex flex-col gap-2">
+        <span className={labelClass}>Themes</span>
+        <div className="flex flex-wrap gap-2">
+          {BUILT_IN_THEMES.map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => onApplyPreset(preset)}
+              className={`flex items-center gap-3 px-4 py-2 rounded-2xl border transition-all ${theme.name === preset.name ? 'border-indigo-300 ring-2 ring-indigo-100' : 'border-slate-100 hover:border-slate-200'}`}
+              style={{ backgroundColor: preset.colors.background }}
+            >
+              <span className="flex -space-x-1">
+                {preset.palette.slice(0, 4).map(color => (
+                  <span key={color} className="w-3.5 h-3.5 rounded-full border border-white/60" style={{ backgroundColor: color }} />
+                ))}
+              </span>
+              <span className="text-[11px] font-black uppercase tracking-widest" style={{ color: preset.colors.heading }}>{preset.name}</span>
+            </button>
+          ))}
+          {theme.name === 'Custom' && (
+            <span className="flex items-center px-4 py-2 rounded-2xl border border-indigo-300 ring-2 ring-indigo-100 text-[11px] font-black uppercase tracking-widest text-indigo-600">
+              Custom
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Palette */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Stage Palette</span>
+          <button onClick={onRecolorStages} className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700">
+            Apply to Stages
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {theme.palette.map((color, i) => (
+            <div key={i} className="relative group/swatch">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setPaletteColor(i, e.target.value)}
+                className="w-9 h-9 rounded-xl border border-slate-200 cursor-pointer bg-transparent"
+                title={color}
+              />
+              {theme.palette.length > 1 && (
+                <button
+                  onClick={() => edit({ palette: theme.palette.filter((_, k) => k !== i) })}
+                  className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-slate-900 text-white text-[10px] leading-none hidden group-hover/swatch:flex items-center justify-center"
+                  title="Remove color"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => edit({ palette: [...theme.palette, theme.palette[theme.palette.length - 1]] })}
+            className="w-9 h-9 rounded-xl border-2 border-dashed border-slate-200 text-slate-400 font-black hover:border-indigo-300 hover:text-indigo-500 transition-all"
+            title="Add color"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      {/* Surface Colors */}
+      <div className="flex flex-col gap-2">
+        <span className={labelClass}>Colors</span>
+        <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+          {(Object.keys(COLOR_LABELS) as (keyof ThemeColors)[]).map(key => (
+            <label key={key} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={theme.colors[key]}
+                onChange={(e) => edit({ colors: { ...theme.colors, [key]: e.target.value } })}
+                className="w-7 h-7 rounded-lg border border-slate-200 cursor-pointer bg-transparent flex-shrink-0"
+              />
+              <span className="text-[11px] font-semibold text-slate-600">{COLOR_LABELS[key]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Typography, Cards & Logo */}
+      <div className="flex flex-wrap items-end gap-6">
+        {(['heading', 'body'] as const).map(key => (
+          <label key={key} className="flex flex-col gap-1.5">
+            <span className={labelClass}>{key === 'heading' ? 'Heading Font' : 'Body Font'}</span>
+            <select
+              value={theme.fonts[key]}
+              onChange={(e) => edit({ fonts: { ...theme.fonts, [key]: e.target.value } })}
+              className={selectClass}
+              style={{ fontFamily: `'${theme.fonts[key]}', sans-serif` }}
+            >
+              {fontChoices(theme.fonts[key]).map(font => (
+                <option key={font} value={font}>{font}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="flex flex-col gap-1.5">
+          <span className={`flex justify-between ${labelClass}`}>
+            Card Corners
+            <span className="text-slate-600">{theme.cardRadius}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_CARD_RADIUS}
+            value={theme.cardRadius}
+            onChange={(e) => edit({ cardRadius: Number(e.target.value) })}
+            className="w-36 accent-indigo-600"
+          />
+        </label>
+
+        <div className="flex flex-col gap-1.5">
+          <span className={labelClass}>Logo</span>
+          <div className="flex items-center gap-2">
+            {theme.logo && (
+              <img src={theme.logo} alt="Roadmap logo" className="h-9 max-w-[120px] object-contain rounded-lg border border-slate-100 p-1" />
+            )}
+            <button onClick={() => fileInputRef.current?.click()} className={`${selectClass} font-black uppercase tracking-widest text-[10px]`}>
+              {theme.logo ? 'Replace' : 'Upload'}
+            </button>
+            {theme.logo && (
+              <button onClick={() => edit({ logo: undefined })} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-500">
+                Remove
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => uploadLogo(e.target.files?.[0])} />
+          </div>
+          {logoError && <span className="text-[11px] font-semibold text-rose-500">{logoError}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
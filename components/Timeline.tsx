@@ -1,68 +1,158 @@
 
-import React, { useMemo } from 'react';
-import { RoadmapData, ProjectStage } from '../types';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { RoadmapData, ProjectStage, StageChange, ThemeColors, TimelineMode } from '../types';
+import { STAGE_CHANGES, STAGE_STATUSES } from '../constants';
+import { CARD_SIZE, useTimelineGeometry } from '../hooks/useTimelineGeometry';
+import { countOpenThreads, getStageThreads } from '../utils/comments';
+import { computeCriticalPath } from '../utils/dependencies';
+import { formatPercent, getRoadProgress, getStageProgress } from '../utils/progress';
+import { HORIZONTAL_PADDING, PIN_HEAD_OFFSET, getCardOrigin, resolvePlacement } from '../utils/roadLayout';
+import { TextStyle, measureText, wrapText } from '../utils/textLayout';
+import { ensureFontLoaded, fontStack } from '../services/fonts';
+
+/** How much of the roadmap is shown while it is being presented. */
+export interface TimelineReveal {
+  /** Stages shown, counted from the first. */
+  stageCount: number;
+  /** Length of road drawn from its start, in canvas units. */
+  roadLength: number;
+}
 
 interface TimelineProps {
   data: RoadmapData;
+  mode?: TimelineMode;
+  showDependencies?: boolean;
+  /** Stage whose pin pulses, e.g. after jumping to it from the editor. */
+  highlightedStageId?: string | null;
   onAddStage?: () => void;
   onUpdateStage?: (id: string, updates: Partial<ProjectStage>) => void;
-  onPushHistory?: () => void;
+  /** Shows the static card twins instead of the editable cards and hides the add button. */
+  readOnly?: boolean;
+  /** Draws only part of the road and stages; everything is shown when omitted. */
+  reveal?: TimelineReveal;
+  /** Stages to outline as changed, by id, e.g. while comparing with a snapshot. */
+  changes?: Record<string, StageChange>;
 }
 
-const Timeline: React.FC<TimelineProps> = ({ data, onAddStage, onUpdateStage, onPushHistory }) => {
-  const STAGES_PER_ROW = 3;
-  const STAGE_WIDTH = 450;
-  const ROW_HEIGHT = 500;
-  const ROAD_OFFSET_Y = 140;
-  const HORIZONTAL_PADDING = 100;
-
-  const numRows = Math.ceil(data.stages.length / STAGES_PER_ROW);
-  const VIEWBOX_WIDTH = STAGES_PER_ROW * STAGE_WIDTH + (HORIZONTAL_PADDING * 2);
-  const VIEWBOX_HEIGHT = numRows * ROW_HEIGHT + ROAD_OFFSET_Y + 50;
-
-  const getStagePos = (i: number) => {
-    const row = Math.floor(i / STAGES_PER_ROW);
-    const col = i % STAGES_PER_ROW;
-    const isEvenRow = row % 2 === 0;
-    
-    const x = isEvenRow 
-      ? (col + 0.5) * STAGE_WIDTH + HORIZONTAL_PADDING
-      : (STAGES_PER_ROW - col - 0.5) * STAGE_WIDTH + HORIZONTAL_PADDING;
-    
-    const y = row * ROW_HEIGHT + ROW_HEIGHT / 2 + ROAD_OFFSET_Y;
-    
-    return { x, y, row, col, isEvenRow };
-  };
+// Stage card metrics, shared by the editable HTML card and its pure-SVG export twin.
+const CARD_WIDTH = CARD_SIZE.width;
+const CARD_HEIGHT = CARD_SIZE.height;
+const CARD_PADDING = 16;
+const cardTitleStyle = (family: string): TextStyle => ({ fontFamily: fontStack(family), fontSize: 15, fontWeight: 900, letterSpacing: 0.05, uppercase: true });
+const cardBodyStyle = (family: string): TextStyle => ({ fontFamily: fontStack(family), fontSize: 12, fontWeight: 600 });
+const CARD_BODY_LINE_HEIGHT = 18;
+const CARD_BODY_TOP = 62;
+const CARD_BODY_MAX_LINES = 5;
+// Cards with tasks give up a body line for the progress footer.
+const CARD_BODY_MAX_LINES_WITH_PROGRESS = 4;
+const CARD_PROGRESS_LABEL_Y = CARD_HEIGHT - CARD_PADDING - 14;
+const CARD_PROGRESS_BAR_Y = CARD_HEIGHT - CARD_PADDING - 6;
+const CARD_PROGRESS_BAR_HEIGHT = 6;
+const PROGRESS_RING_RADIUS = 31;
+// Status pill and assignee avatars sit on the card's top edge.
+const badgeStyle = (family: string): TextStyle => ({ fontFamily: fontStack(family), fontSize: 9, fontWeight: 900, letterSpacing: 0.1, uppercase: true });
+const BADGE_HEIGHT = 18;
+const BADGE_PADDING_X = 8;
+const AVATAR_RADIUS = 11;
+const MAX_AVATARS = 3;
+const BLOCKED_COLOR = STAGE_STATUSES.find(s => s.value === 'blocked')!.color;
+// Open review threads get a speech bubble opposite the blocked badge; it never appears in exports.
+const COMMENT_BADGE_COLOR = '#6366f1';
+// Logo box in the top-left corner, above the road.
+const LOGO_MARGIN = 24;
+const LOGO_WIDTH = 180;
+const LOGO_HEIGHT = 72;
+
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+
+/**
+ * "You are here" marker part way along a stretch of road. The point is read
+ * from the rendered path, which works for every road style and the calendar.
+ */
+const RoadPositionMarker: React.FC<{ segment: string; offset: number; colors: ThemeColors; fontFamily: string }> = ({
+  segment,
+  offset,
+  colors,
+  fontFamily
+}) => {
+  const pathRef = useRef<SVGPathElement>(null);
+  const [point, setPoint] = useState<{ x: number; y: number } | null>(null);
+
+  useLayoutEffect(() => {
+    const path = pathRef.current;
+    if (!path?.getTotalLength) return;
+    const { x, y } = path.getPointAtLength(path.getTotalLength() * offset);
+    setPoint({ x, y });
+  }, [segment, offset]);
+
+  const label = 'YOU ARE HERE';
+  const labelWidth = measureText(label, { fontFamily, fontSize: 11, fontWeight: 900, letterSpacing: 0.1 }) + 24;
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      <path ref={pathRef} d={segment} fill="none" stroke="none" />
+      {point && (
+        <g transform={`translate(${point.x}, ${point.y})`}>
+          <circle r="24" fill={colors.heading} opacity="0.3" className="no-export animate-ping" style={{ transformBox: 'fill-box', transformOrigin: 'center' }} />
+          <circle r="16" fill={colors.heading} stroke={colors.background} strokeWidth="5" />
+          <circle r="5" fill={colors.background} />
+          <g transform="translate(0, -44)">
+            <rect x={-labelWidth / 2} y="-13" width={labelWidth} height="26" rx="13" fill={colors.heading} />
+            <path d="M -6 12 L 0 20 L 6 12 Z" fill={colors.heading} />
+            <text
+              textAnchor="middle"
+              dominantBaseline="central"
+              style={{ fontFamily, fontWeight: 900, fontSize: '11px', fill: colors.background, letterSpacing: '0.1em' }}
+            >
+              {label}
+            </text>
+          </g>
+        </g>
+      )}
+    </g>
+  );
+};
+
+const Timeline: React.FC<TimelineProps> = ({ data, mode, showDependencies = false, highlightedStageId, onAddStage, onUpdateStage, readOnly = false, reveal, changes }) => {
+  const { layout, calendar, pathData, segmentPaths, positions, lanes } = useTimelineGeometry(data, mode);
+  const getStagePos = (i: number) => positions[i];
+  // Lane roads always run left to right, whatever the orientation setting says.
+  const cardLayout = lanes.length > 0 ? { ...data.layout, orientation: 'horizontal' as const } : data.layout;
+  const { theme } = data;
+  const { colors } = theme;
+  const headingFont = fontStack(theme.fonts.heading);
+  const bodyFont = fontStack(theme.fonts.body);
+
+  // Card text is measured, so it is wrapped again once the theme fonts have loaded.
+  const [loadedFonts, setLoadedFonts] = useState('');
+  useEffect(() => {
+    const families = [theme.fonts.heading, theme.fonts.body];
+    families.forEach(ensureFontLoaded);
+    let isCurrent = true;
+    Promise.all(families.map(family => document.fonts?.load(`900 15px ${fontStack(family)}`)))
+      .catch(() => undefined)
+      .then(() => isCurrent && setLoadedFonts(families.join('|')));
+    return () => {
+      isCurrent = false;
+    };
+  }, [theme.fonts.heading, theme.fonts.body]);
 
-  const pathData = useMemo(() => {
-    if (data.stages.length === 0) return '';
-    
-    const firstPos = getStagePos(0);
-    let d = `M ${firstPos.x - (firstPos.isEvenRow ? 100 : -100)} ${firstPos.y}`;
-    d += ` L ${firstPos.x} ${firstPos.y}`;
-    
-    for (let i = 0; i < data.stages.length - 1; i++) {
-      const current = getStagePos(i);
-      const next = getStagePos(i + 1);
-      
-      if (current.row === next.row) {
-        const cp1x = current.x + (current.isEvenRow ? STAGE_WIDTH / 2 : -STAGE_WIDTH / 2);
-        const cp2x = next.x - (next.isEvenRow ? STAGE_WIDTH / 2 : -STAGE_WIDTH / 2);
-        d += ` C ${cp1x} ${current.y}, ${cp2x} ${next.y}, ${next.x} ${next.y}`;
-      } else {
-        const isRightTurn = current.isEvenRow; 
-        const bulgeWidth = STAGE_WIDTH * 0.7; 
-        const cp1x = current.x + (isRightTurn ? bulgeWidth : -bulgeWidth);
-        const cp2x = next.x + (isRightTurn ? bulgeWidth : -bulgeWidth);
-        d += ` C ${cp1x} ${current.y}, ${cp2x} ${next.y}, ${next.x} ${next.y}`;
-      }
-    }
-    
-    const lastPos = getStagePos(data.stages.length - 1);
-    d += ` L ${lastPos.x + (lastPos.isEvenRow ? 150 : -150)} ${lastPos.y}`;
-    
-    return d;
-  }, [data.stages]);
+  // Export cards are plain <text>, so lines are wrapped up front from measured text.
+  const exportCardText = useMemo(() => {
+    const innerWidth = CARD_WIDTH - CARD_PADDING * 2;
+    const titleStyle = cardTitleStyle(theme.fonts.heading);
+    const bodyStyle = cardBodyStyle(theme.fonts.body);
+    return data.stages.map(stage => ({
+      title: wrapText(stage.title || 'Untitled', innerWidth, titleStyle, 1)[0],
+      lines: wrapText(
+        stage.description,
+        innerWidth,
+        bodyStyle,
+        getStageProgress(stage) ? CARD_BODY_MAX_LINES_WITH_PROGRESS : CARD_BODY_MAX_LINES
+      )
+    }));
+  }, [data.stages, theme.fonts.heading, theme.fonts.body, loadedFonts]);
 
   if (data.stages.length === 0) {
     return (
@@ -78,15 +168,52 @@ const Timeline: React.FC<TimelineProps> = ({ data, onAddStage, onUpdateStage, on
     );
   }
 
-  const lastIdx = data.stages.length - 1;
-  const lastPos = getStagePos(lastIdx);
-  const plusX = lastPos.x + (lastPos.isEvenRow ? 150 : -150);
-  const plusY = lastPos.y;
+  const roadProgress = getRoadProgress(data.stages);
+  const stageIndexById = new Map<string, number>(data.stages.map((s, i) => [s.id, i]));
+  const currentPositionIndex = data.currentPosition ? stageIndexById.get(data.currentPosition.stageId) ?? -1 : -1;
+  const criticalPath = showDependencies ? computeCriticalPath(data.stages) : null;
+  const criticalIds = new Set(criticalPath?.stageIds);
+  const isCriticalEdge = (fromId: string, toId: string) => {
+    const at = criticalPath ? criticalPath.stageIds.indexOf(fromId) : -1;
+    return at >= 0 && criticalPath?.stageIds[at + 1] === toId;
+  };
+
+  // Curved arrow between two pin heads, trimmed so it starts and ends outside the pins.
+  const getDependencyArrow = (fromIndex: number, toIndex: number) => {
+    const a = getStagePos(fromIndex);
+    const b = getStagePos(toIndex);
+    const ax = a.x;
+    const ay = a.y - PIN_HEAD_OFFSET;
+    const bx = b.x;
+    const by = b.y - PIN_HEAD_OFFSET;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const dist = Math.hypot(dx, dy) || 1;
+    const cx = (ax + bx) / 2 - (dy / dist) * dist * 0.25;
+    const cy = (ay + by) / 2 + (dx / dist) * dist * 0.25 - 40;
+    const trim = (px: number, py: number, tx: number, ty: number, amount: number) => {
+      const len = Math.hypot(tx - px, ty - py) || 1;
+      return { x: px + ((tx - px) / len) * amount, y: py + ((ty - py) / len) * amount };
+    };
+    const start = trim(ax, ay, cx, cy, 32);
+    const end = trim(bx, by, cx, cy, 38);
+    return `M ${start.x} ${start.y} Q ${cx} ${cy} ${end.x} ${end.y}`;
+  };
+
+  // Road elements share one mask that uncovers the road up to the revealed length.
+  const roadMask = reveal ? 'url(#road-reveal)' : undefined;
+  const isRevealed = (index: number) => !reveal || index < reveal.stageCount;
+
+  const VIEWBOX_WIDTH = layout.width;
+  const VIEWBOX_HEIGHT = layout.height;
+  const plusX = calendar ? calendar.end.x : layout.end.x;
+  const plusY = calendar ? calendar.end.y : layout.end.y;
 
   return (
     <div className="relative overflow-visible">
       <svg
         id="roadmap-svg-export"
+        data-page-breaks={layout.pageBreaks.join(',')}
         viewBox={`0 0 ${VIEWBOX_WIDTH} ${VIEWBOX_HEIGHT}`}
         width={VIEWBOX_WIDTH}
         height={VIEWBOX_HEIGHT}
@@ -94,165 +221,601 @@ const Timeline: React.FC<TimelineProps> = ({ data, onAddStage, onUpdateStage, on
         className="overflow-visible"
         style={{ minWidth: '100%' }}
       >
-        <rect width={VIEWBOX_WIDTH} height={VIEWBOX_HEIGHT} fill="white" />
+        <rect className="export-background" width={VIEWBOX_WIDTH} height={VIEWBOX_HEIGHT} fill={colors.background} />
+
+        <defs>
+          <filter id="export-card-shadow" x="-20%" y="-20%" width="140%" height="150%">
+            <feDropShadow dx="0" dy="10" stdDeviation="8" floodColor="#000000" floodOpacity="0.1" />
+          </filter>
+          {reveal && (
+            <mask id="road-reveal" maskUnits="userSpaceOnUse" x="0" y="0" width={VIEWBOX_WIDTH} height={VIEWBOX_HEIGHT}>
+              {lanes.length > 0 ? (
+                // Lanes are uncovered stage by stage, each along its own road.
+                <path
+                  d={reveal.stageCount >= data.stages.length ? pathData : segmentPaths.slice(0, reveal.stageCount).join(' ')}
+                  fill="none"
+                  stroke="#ffffff"
+                  strokeWidth="120"
+                  strokeLinecap="round"
+                />
+              ) : (
+                <path
+                  d={pathData}
+                  fill="none"
+                  stroke="#ffffff"
+                  strokeWidth="120"
+                  strokeLinejoin="round"
+                  strokeDasharray={`${reveal.roadLength} ${VIEWBOX_WIDTH * VIEWBOX_HEIGHT}`}
+                />
+              )}
+            </mask>
+          )}
+        </defs>
+
+        {theme.logo && (
+          <image
+            href={theme.logo}
+            x={LOGO_MARGIN}
+            y={LOGO_MARGIN}
+            width={LOGO_WIDTH}
+            height={LOGO_HEIGHT}
+            preserveAspectRatio="xMinYMin meet"
+          />
+        )}
 
         <g transform={`translate(${VIEWBOX_WIDTH / 2}, 60)`} className="svg-export-only">
           <text
             textAnchor="middle"
-            style={{ fontFamily: 'Inter, sans-serif', fontWeight: 900, fontSize: '48px', fill: '#0f172a' }}
+            style={{ fontFamily: headingFont, fontWeight: 900, fontSize: '48px', fill: colors.heading }}
           >
             {data.title}
           </text>
           <text
             y="50"
             textAnchor="middle"
-            style={{ fontFamily: 'Inter, sans-serif', fontWeight: 500, fontSize: '18px', fill: '#64748b' }}
+            style={{ fontFamily: bodyFont, fontWeight: 500, fontSize: '18px', fill: colors.muted }}
           >
             {data.description}
           </text>
         </g>
 
+        {/* Lanes - a colored verge along each lane's road, and its name */}
+        {lanes.map(lane => (
+          <g key={lane.id}>
+            <path mask={roadMask} d={lane.path} fill="none" stroke={lane.color} strokeWidth="100" strokeLinecap="round" opacity="0.25" />
+            <text
+              x={lane.labelX}
+              y={lane.y}
+              textAnchor="end"
+              dominantBaseline="middle"
+              style={{ fontFamily: headingFont, fontWeight: 900, fontSize: '16px', fill: lane.color, letterSpacing: '0.05em', textTransform: 'uppercase' }}
+            >
+              {lane.name}
+            </text>
+          </g>
+        ))}
+
         {/* Road Base */}
         <path
+          mask={roadMask}
           d={pathData}
           fill="none"
-          stroke="#eef2f6"
+          stroke={colors.roadEdge}
           strokeWidth="80"
           strokeLinecap="round"
+          strokeLinejoin="round"
         />
 
         {/* Main Road Surface */}
         <path
+          mask={roadMask}
           d={pathData}
           fill="none"
-          stroke="#1e293b"
+          stroke={colors.road}
           strokeWidth="65"
           strokeLinecap="round"
+          strokeLinejoin="round"
         />
 
+        {/* Progress - the road fills towards each stage as its tasks get done */}
+        {roadProgress && (
+          <g mask={roadMask}>
+            {segmentPaths.map((segment, i) => roadProgress[i] > 0 && (
+              <path
+                key={data.stages[i].id}
+                d={segment}
+                pathLength={1}
+                strokeDasharray={roadProgress[i] < 1 ? `${roadProgress[i]} 1` : undefined}
+                fill="none"
+                stroke={data.stages[i].color}
+                strokeWidth="22"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity="0.9"
+              />
+            ))}
+          </g>
+        )}
+
         {/* Road Dashes */}
         <path
+          mask={roadMask}
           d={pathData}
           fill="none"
-          stroke="white"
+          stroke={colors.roadMarking}
           strokeWidth="5"
           strokeDasharray="25, 30"
           strokeLinecap="round"
+          strokeLinejoin="round"
           opacity="0.4"
         />
 
+        {calendar && (
+          <g mask={roadMask}>
+            {/* Stage Date Spans */}
+            {calendar.spanPaths.map((span, i) => span && (
+              <path
+                key={data.stages[i].id}
+                d={span}
+                fill="none"
+                stroke={data.stages[i].color}
+                strokeWidth="14"
+                strokeLinecap="butt"
+                opacity="0.85"
+              />
+            ))}
+
+            {/* Month & Quarter Ticks */}
+            {calendar.ticks.map(tick => (
+              <g key={`${tick.label}-${tick.x1}-${tick.y1}`}>
+                <line
+                  x1={tick.x1}
+                  y1={tick.y1}
+                  x2={tick.x2}
+                  y2={tick.y2}
+                  stroke={colors.muted}
+                  opacity={tick.isQuarter ? 1 : 0.7}
+                  strokeWidth={tick.isQuarter ? 4 : 2}
+                />
+                <text
+                  x={tick.labelX}
+                  y={tick.labelY}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  style={{
+                    fontFamily: bodyFont,
+                    fontWeight: tick.isQuarter ? 900 : 600,
+                    fontSize: tick.isQuarter ? '13px' : '11px',
+                    fill: tick.isQuarter ? colors.heading : colors.muted,
+                    letterSpacing: '0.05em',
+                    textTransform: 'uppercase'
+                  }}
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {/* Today Marker */}
+            {calendar.today && (
+              <g>
+                <line
+                  x1={calendar.today.x1}
+                  y1={calendar.today.y1}
+                  x2={calendar.today.x2}
+                  y2={calendar.today.y2}
+                  stroke="#ef4444"
+                  strokeWidth="5"
+                  strokeLinecap="round"
+                />
+                <circle cx={calendar.today.x} cy={calendar.today.y} r="7" fill="#ef4444" stroke={colors.background} strokeWidth="3" />
+                <text
+                  x={calendar.today.labelX}
+                  y={calendar.today.labelY}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '12px', fill: '#ef4444', letterSpacing: '0.1em', textTransform: 'uppercase' }}
+                >
+                  {calendar.today.label}
+                </text>
+              </g>
+            )}
+          </g>
+        )}
+
+        {showDependencies && (
+          <g>
+            <defs>
+              <marker id="dependency-arrow" viewBox="0 0 10 10" refX="6" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#6366f1" />
+              </marker>
+              <marker id="dependency-arrow-critical" viewBox="0 0 10 10" refX="6" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#ef4444" />
+              </marker>
+            </defs>
+
+            {/* Dependency Arrows */}
+            {data.stages.flatMap((stage, i) => (stage.dependsOn || []).map((depId) => {
+              const depIndex = stageIndexById.get(depId);
+              if (depIndex === undefined || depIndex === i) return null;
+              const isCritical = isCriticalEdge(depId, stage.id);
+              return (
+                <path
+                  key={`${depId}->${stage.id}`}
+                  d={getDependencyArrow(depIndex, i)}
+                  fill="none"
+                  stroke={isCritical ? '#ef4444' : '#6366f1'}
+                  strokeWidth={isCritical ? 5 : 3}
+                  strokeDasharray={isCritical ? undefined : '10, 8'}
+                  strokeLinecap="round"
+                  opacity={isCritical ? 1 : 0.7}
+                  markerEnd={`url(#${isCritical ? 'dependency-arrow-critical' : 'dependency-arrow'})`}
+                />
+              );
+            }))}
+
+            {/* Critical Path Legend */}
+            {criticalPath && criticalPath.stageIds.length > 0 && (
+              <text
+                x={HORIZONTAL_PADDING}
+                y={VIEWBOX_HEIGHT - 20}
+                style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '13px', fill: '#ef4444', letterSpacing: '0.1em', textTransform: 'uppercase' }}
+              >
+                Critical path · {criticalPath.stageIds.length} {criticalPath.stageIds.length === 1 ? 'stage' : 'stages'} · {criticalPath.totalDays} {criticalPath.totalDays === 1 ? 'day' : 'days'}
+              </text>
+            )}
+          </g>
+        )}
+
         {/* Final Add Button */}
-        <g 
-          className="no-export cursor-pointer group/plus" 
-          transform={`translate(${plusX}, ${plusY})`}
-          onClick={onAddStage}
-          style={{ pointerEvents: 'all' }}
-        >
-          <circle r="40" fill="#1e293b" stroke="#ffffff33" strokeWidth="2" className="transition-all group-hover/plus:fill-indigo-600" />
-          <path d="M-12 0 L12 0 M0 -12 L0 12" stroke="white" strokeWidth="6" strokeLinecap="round" />
-        </g>
+        {!readOnly && (
+          <g 
+            className="no-export cursor-pointer group/plus" 
+            transform={`translate(${plusX}, ${plusY})`}
+            onClick={onAddStage}
+            style={{ pointerEvents: 'all' }}
+          >
+            <circle r="40" fill={colors.road} stroke="#ffffff33" strokeWidth="2" className="transition-all group-hover/plus:fill-indigo-600" />
+            <path d="M-12 0 L12 0 M0 -12 L0 12" stroke={colors.roadMarking} strokeWidth="6" strokeLinecap="round" />
+          </g>
+        )}
 
         {data.stages.map((stage, i) => {
           const pos = getStagePos(i);
-          const isPeak = i % 2 === 1; 
+          const { x: cardX, y: cardY } = getCardOrigin(pos, resolvePlacement(stage, i), cardLayout, CARD_SIZE);
+          const cardText = exportCardText[i];
+          const progress = getStageProgress(stage);
+          const status = STAGE_STATUSES.find(s => s.value === stage.status);
+          const isBlocked = stage.status === 'blocked';
+          const assignees = stage.assignees || [];
+          const statusWidth = status ? measureText(status.label, badgeStyle(theme.fonts.body)) + BADGE_PADDING_X * 2 : 0;
+          const openThreads = readOnly ? 0 : countOpenThreads(getStageThreads(data.comments, stage.id));
           
           return (
-            <g key={stage.id}>
+            <g key={stage.id} opacity={isRevealed(i) ? 1 : 0} style={{ transition: reveal ? 'opacity 500ms ease-out' : undefined }}>
               {/* Pin Marker */}
               <g 
                 transform={`translate(${pos.x}, ${pos.y})`} 
                 style={{ pointerEvents: 'none' }}
               >
+                {highlightedStageId === stage.id && (
+                  <circle
+                    cx="0"
+                    cy={-PIN_HEAD_OFFSET}
+                    r="40"
+                    fill={stage.color}
+                    opacity="0.35"
+                    className="no-export animate-ping"
+                    style={{ transformBox: 'fill-box', transformOrigin: 'center' }}
+                  />
+                )}
+                {criticalIds.has(stage.id) && (
+                  <circle cx="0" cy={-PIN_HEAD_OFFSET} r="36" fill="none" stroke="#ef4444" strokeWidth="5" opacity="0.85" />
+                )}
                 <path
                   d="M0 0 C-15 -15 -25 -40 -25 -55 A25 25 0 1 1 25 -55 C25 -40 15 -15 0 0 Z"
                   fill={stage.color}
+                  fillOpacity={isBlocked ? 0.45 : 1}
+                  stroke={isBlocked ? BLOCKED_COLOR : 'none'}
+                  strokeWidth="4"
+                  strokeDasharray="7 5"
                 />
+                {progress && (
+                  <g>
+                    <circle cx="0" cy={-PIN_HEAD_OFFSET} r={PROGRESS_RING_RADIUS} fill="none" stroke={colors.roadEdge} strokeWidth="5" />
+                    <circle
+                      cx="0"
+                      cy={-PIN_HEAD_OFFSET}
+                      r={PROGRESS_RING_RADIUS}
+                      fill="none"
+                      stroke={stage.color}
+                      strokeWidth="5"
+                      strokeLinecap="round"
+                      pathLength={100}
+                      strokeDasharray={`${progress.ratio * 100} 100`}
+                      transform={`rotate(-90 0 ${-PIN_HEAD_OFFSET})`}
+                    />
+                  </g>
+                )}
                 <circle cx="0" cy="-55" r="14" fill="white" />
+                {stage.status === 'done' ? (
+                  <path d="M -6 -55 L -2 -50.5 L 6.5 -59.5" fill="none" stroke={stage.color} strokeWidth="3.5" strokeLinecap="round" strokeLinejoin="round" />
+                ) : (
+                  <text
+                    x="0"
+                    y="-51"
+                    textAnchor="middle"
+                    fill={isBlocked ? BLOCKED_COLOR : stage.color}
+                    style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '14px' }}
+                  >
+                    {i + 1}
+                  </text>
+                )}
+                {isBlocked && (
+                  <g transform="translate(20, -78)">
+                    <circle r="10" fill={BLOCKED_COLOR} stroke={colors.background} strokeWidth="2.5" />
+                    <path d="M0 -5 L0 1 M0 4.5 L0 4.6" stroke="white" strokeWidth="2.5" strokeLinecap="round" />
+                  </g>
+                )}
+                {openThreads > 0 && (
+                  <g transform="translate(-20, -78)" className="no-export">
+                    <title>{`${openThreads} open ${openThreads === 1 ? 'comment thread' : 'comment threads'}`}</title>
+                    <path d="M-10 -10 H10 V6 H-2 L-7 11 V6 H-10 Z" fill={COMMENT_BADGE_COLOR} stroke={colors.background} strokeWidth="2.5" strokeLinejoin="round" />
+                    <text y="2" textAnchor="middle" fill="white" style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '10px' }}>
+                      {openThreads > 9 ? '9+' : openThreads}
+                    </text>
+                  </g>
+                )}
+              </g>
+
+              {/* Stage Detail Card - pure SVG twin used by every export format and read-only views */}
+              <g className={readOnly ? undefined : 'svg-export-only'} transform={`translate(${cardX}, ${cardY})`}>
+                <rect
+                  width={CARD_WIDTH}
+                  height={CARD_HEIGHT}
+                  rx={theme.cardRadius}
+                  fill={colors.cardBackground}
+                  stroke={colors.cardBorder}
+                  filter="url(#export-card-shadow)"
+                />
                 <text
-                  x="0"
-                  y="-51"
-                  textAnchor="middle"
-                  fill={stage.color}
-                  style={{ fontFamily: 'Inter, sans-serif', fontWeight: 900, fontSize: '14px' }}
+                  x={CARD_PADDING}
+                  y={CARD_PADDING + 14}
+                  style={{ fontFamily: headingFont, fontWeight: 900, fontSize: '15px', fill: colors.heading, letterSpacing: '0.05em' }}
                 >
-                  {i + 1}
+                  {cardText.title}
                 </text>
+                <line
+                  x1={CARD_PADDING}
+                  x2={CARD_WIDTH - CARD_PADDING}
+                  y1={CARD_PADDING + 22.5}
+                  y2={CARD_PADDING + 22.5}
+                  stroke={colors.cardBorder}
+                />
+                <text
+                  y={CARD_BODY_TOP}
+                  style={{ fontFamily: bodyFont, fontWeight: 600, fontSize: '12px', fill: colors.text }}
+                >
+                  {cardText.lines.map((line, k) => (
+                    <tspan key={k} x={CARD_PADDING} dy={k === 0 ? 0 : CARD_BODY_LINE_HEIGHT}>{line}</tspan>
+                  ))}
+                </text>
+                {progress && (
+                  <g>
+                    <text
+                      x={CARD_PADDING}
+                      y={CARD_PROGRESS_LABEL_Y}
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '10px', fill: colors.muted, letterSpacing: '0.1em' }}
+                    >
+                      {progress.done}/{progress.total} TASKS
+                    </text>
+                    <text
+                      x={CARD_WIDTH - CARD_PADDING}
+                      y={CARD_PROGRESS_LABEL_Y}
+                      textAnchor="end"
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '10px', fill: stage.color }}
+                    >
+                      {formatPercent(progress.ratio)}
+                    </text>
+                    <rect
+                      x={CARD_PADDING}
+                      y={CARD_PROGRESS_BAR_Y}
+                      width={CARD_WIDTH - CARD_PADDING * 2}
+                      height={CARD_PROGRESS_BAR_HEIGHT}
+                      rx={CARD_PROGRESS_BAR_HEIGHT / 2}
+                      fill={colors.cardBorder}
+                    />
+                    <rect
+                      x={CARD_PADDING}
+                      y={CARD_PROGRESS_BAR_Y}
+                      width={(CARD_WIDTH - CARD_PADDING * 2) * progress.ratio}
+                      height={CARD_PROGRESS_BAR_HEIGHT}
+                      rx={CARD_PROGRESS_BAR_HEIGHT / 2}
+                      fill={stage.color}
+                    />
+                  </g>
+                )}
               </g>
 
-              {/* Stage Detail Card */}
-              <foreignObject
-                x={pos.x - 110}
-                y={isPeak ? pos.y + 35 : pos.y - 255}
-                width="220"
-                height="170"
-                className="overflow-visible"
-                style={{ pointerEvents: 'auto' }}
-              >
-                <div 
-                  style={{ 
-                    backgroundColor: 'white',
-                    fontFamily: 'Inter, sans-serif',
-                    padding: '16px',
-                    borderRadius: '20px',
-                    border: '1px solid #e2e8f0',
-                    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
-                    display: 'flex',
-                    flexDirection: 'column',
-                    alignItems: 'flex-start',
-                    textAlign: 'left',
-                    width: '220px',
-                    height: '170px',
-                    boxSizing: 'border-box',
-                    overflow: 'hidden'
-                  }}
+              {/* Stage Detail Card - editable */}
+              {!readOnly && (
+                <foreignObject
+                  x={cardX}
+                  y={cardY}
+                  width={CARD_WIDTH}
+                  height={CARD_HEIGHT}
+                  className="no-export overflow-visible"
+                  style={{ pointerEvents: 'auto' }}
                 >
-                  <input
-                    value={stage.title}
-                    onFocus={onPushHistory}
-                    onChange={(e) => onUpdateStage?.(stage.id, { title: e.target.value })}
-                    style={{ 
-                      margin: '0 0 10px 0', 
-                      fontSize: '15px', 
-                      fontWeight: 900, 
-                      color: '#0f172a', 
-                      textTransform: 'uppercase', 
-                      letterSpacing: '0.05em', 
-                      lineHeight: 1.2,
-                      width: '100%',
-                      border: 'none',
-                      borderBottom: '1px solid #f1f5f9',
-                      paddingBottom: '4px',
-                      background: 'transparent',
-                      outline: 'none',
-                      fontFamily: 'inherit'
-                    }}
-                    placeholder="TITLE"
-                  />
-                  <textarea
-                    value={stage.description}
-                    onFocus={onPushHistory}
-                    onChange={(e) => onUpdateStage?.(stage.id, { description: e.target.value })}
+                  <div 
                     style={{ 
-                      margin: 0, 
-                      color: '#475569', 
-                      fontSize: '12px', 
-                      lineHeight: 1.5, 
-                      fontWeight: 600,
-                      width: '100%',
-                      flex: 1,
-                      border: 'none',
-                      background: 'transparent',
-                      outline: 'none',
-                      resize: 'none',
-                      fontFamily: 'inherit'
+                      backgroundColor: colors.cardBackground,
+                      fontFamily: bodyFont,
+                      padding: `${CARD_PADDING}px`,
+                      borderRadius: `${theme.cardRadius}px`,
+                      border: `1px solid ${colors.cardBorder}`,
+                      boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: 'flex-start',
+                      textAlign: 'left',
+                      width: `${CARD_WIDTH}px`,
+                      height: `${CARD_HEIGHT}px`,
+                      boxSizing: 'border-box',
+                      overflow: 'hidden'
                     }}
-                    placeholder="Brief description..."
+                  >
+                    <input
+                      value={stage.title}
+                      onChange={(e) => onUpdateStage?.(stage.id, { title: e.target.value })}
+                      style={{ 
+                        margin: '0 0 10px 0', 
+                        fontSize: '15px', 
+                        fontWeight: 900, 
+                        color: colors.heading, 
+                        textTransform: 'uppercase', 
+                        letterSpacing: '0.05em', 
+                        lineHeight: 1.2,
+                        width: '100%',
+                        border: 'none',
+                        borderBottom: `1px solid ${colors.cardBorder}`,
+                        paddingBottom: '4px',
+                        background: 'transparent',
+                        outline: 'none',
+                        fontFamily: headingFont
+                      }}
+                      placeholder="TITLE"
+                    />
+                    <textarea
+                      value={stage.description}
+                      onChange={(e) => onUpdateStage?.(stage.id, { description: e.target.value })}
+                      style={{ 
+                        margin: 0, 
+                        color: colors.text, 
+                        fontSize: '12px', 
+                        lineHeight: 1.5, 
+                        fontWeight: 600,
+                        width: '100%',
+                        flex: 1,
+                        border: 'none',
+                        background: 'transparent',
+                        outline: 'none',
+                        resize: 'none',
+                        fontFamily: 'inherit'
+                      }}
+                      placeholder="Brief description..."
+                    />
+                    {progress && (
+                      <div style={{ width: '100%', marginTop: '6px' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', fontWeight: 900, letterSpacing: '0.1em' }}>
+                          <span style={{ color: colors.muted }}>{progress.done}/{progress.total} TASKS</span>
+                          <span style={{ color: stage.color }}>{formatPercent(progress.ratio)}</span>
+                        </div>
+                        <div style={{ height: `${CARD_PROGRESS_BAR_HEIGHT}px`, marginTop: '4px', borderRadius: '999px', backgroundColor: colors.cardBorder, overflow: 'hidden' }}>
+                          <div style={{ width: formatPercent(progress.ratio), height: '100%', backgroundColor: stage.color }} />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </foreignObject>
+              )}
+
+              {/* Card Badges - plain SVG over both cards, so every export keeps them */}
+              <g transform={`translate(${cardX}, ${cardY})`} style={{ pointerEvents: 'none' }}>
+                {isBlocked && (
+                  <rect
+                    width={CARD_WIDTH}
+                    height={CARD_HEIGHT}
+                    rx={theme.cardRadius}
+                    fill="none"
+                    stroke={BLOCKED_COLOR}
+                    strokeWidth="2.5"
+                    strokeDasharray="8 5"
                   />
-                </div>
-              </foreignObject>
+                )}
+                {status && (
+                  <g transform={`translate(${CARD_WIDTH - CARD_PADDING - statusWidth}, ${-BADGE_HEIGHT / 2})`}>
+                    <rect width={statusWidth} height={BADGE_HEIGHT} rx={BADGE_HEIGHT / 2} fill={status.color} />
+                    <text
+                      x={statusWidth / 2}
+                      y={BADGE_HEIGHT / 2}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '9px', fill: '#ffffff', letterSpacing: '0.1em' }}
+                    >
+                      {status.label.toUpperCase()}
+                    </text>
+                  </g>
+                )}
+                {assignees.slice(0, MAX_AVATARS).map((name, k) => (
+                  <g key={name} transform={`translate(${CARD_PADDING + AVATAR_RADIUS + k * (AVATAR_RADIUS * 2 - 4)}, 0)`}>
+                    <title>{name}</title>
+                    <circle r={AVATAR_RADIUS} fill={stage.color} stroke={colors.cardBackground} strokeWidth="2" />
+                    <text
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '9px', fill: '#ffffff' }}
+                    >
+                      {getInitials(name)}
+                    </text>
+                  </g>
+                ))}
+                {assignees.length > MAX_AVATARS && (
+                  <g transform={`translate(${CARD_PADDING + AVATAR_RADIUS + MAX_AVATARS * (AVATAR_RADIUS * 2 - 4)}, 0)`}>
+                    <circle r={AVATAR_RADIUS} fill={colors.cardBorder} stroke={colors.cardBackground} strokeWidth="2" />
+                    <text
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '9px', fill: colors.text }}
+                    >
+                      +{assignees.length - MAX_AVATARS}
+                    </text>
+                  </g>
+                )}
+              </g>
             </g>
           );
         })}
+
+        {/* Compare Overlay - ghost rings and tags on changed pins, never exported */}
+        {changes && (
+          <g className="no-export" style={{ pointerEvents: 'none' }}>
+            {data.stages.map((stage, i) => {
+              const change = changes[stage.id];
+              if (!change) return null;
+              const pos = getStagePos(i);
+              const { label, color } = STAGE_CHANGES[change];
+              const tagWidth = measureText(label, badgeStyle(theme.fonts.body)) + BADGE_PADDING_X * 2;
+              return (
+                <g key={stage.id} transform={`translate(${pos.x}, ${pos.y})`}>
+                  <circle cy={-PIN_HEAD_OFFSET} r="44" fill={color} fillOpacity="0.12" stroke={color} strokeWidth="4" strokeDasharray="10 6" />
+                  <g transform={`translate(${-tagWidth / 2}, ${-PIN_HEAD_OFFSET - 44 - BADGE_HEIGHT - 6})`}>
+                    <rect width={tagWidth} height={BADGE_HEIGHT} rx={BADGE_HEIGHT / 2} fill={color} />
+                    <text
+                      x={tagWidth / 2}
+                      y={BADGE_HEIGHT / 2}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      style={{ fontFamily: bodyFont, fontWeight: 900, fontSize: '9px', fill: '#ffffff', letterSpacing: '0.1em' }}
+                    >
+                      {label.toUpperCase()}
+                    </text>
+                  </g>
+                </g>
+              );
+            })}
+          </g>
+        )}
+
+        {/* Current Position - drawn last so cards never hide it */}
+        {currentPositionIndex >= 0 && isRevealed(currentPositionIndex) && data.currentPosition && (
+          <RoadPositionMarker
+            segment={segmentPaths[currentPositionIndex]}
+            offset={data.currentPosition.offset}
+            colors={colors}
+            fontFamily={bodyFont}
+          />
+        )}
       </svg>
     </div>
   );
@@ -0,0 +1,129 @@
+import React from 'react';
+import { ProjectStage, RoadmapTheme } from '../types';
+import { TimelineGeometry } from '../hooks/useTimelineGeometry';
+import { Viewport, ZOOM_STEP } from '../hooks/useViewport';
+
+interface TimelineCanvasProps {
+  viewport: Viewport;
+  geometry: TimelineGeometry;
+  stages: ProjectStage[];
+  theme: RoadmapTheme;
+  children: React.ReactNode;
+}
+
+const MINIMAP_MAX_WIDTH = 200;
+const MINIMAP_MAX_HEIGHT = 160;
+
+const controlClass = 'px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-all';
+
+const Minimap: React.FC<{ viewport: Viewport; geometry: TimelineGeometry; stages: ProjectStage[]; theme: RoadmapTheme }> = ({
+  viewport,
+  geometry,
+  stages,
+  theme
+}) => {
+  const { view, viewportSize } = viewport;
+  const ratio = Math.min(MINIMAP_MAX_WIDTH / geometry.width, MINIMAP_MAX_HEIGHT / geometry.height);
+
+  // Dragging on the minimap centres the main view on the pointer.
+  const moveTo = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    viewport.centerOn((e.clientX - rect.left) / ratio, (e.clientY - rect.top) / ratio, 0, e.type === 'pointerdown');
+  };
+
+  return (
+    <div className="absolute left-4 bottom-4 p-2 bg-white/90 backdrop-blur rounded-2xl border border-slate-200 shadow-lg" data-no-pan>
+      <svg
+        width={geometry.width * ratio}
+        height={geometry.height * ratio}
+        viewBox={`0 0 ${geometry.width} ${geometry.height}`}
+        className="block cursor-pointer"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveTo(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e);
+        }}
+      >
+        <rect width={geometry.width} height={geometry.height} fill={theme.colors.background} />
+        <path d={geometry.pathData} fill="none" stroke={theme.colors.road} strokeWidth="65" strokeLinecap="round" strokeLinejoin="round" opacity="0.8" />
+        {geometry.positions.map((pos, i) => (
+          <circle key={stages[i]?.id ?? i} cx={pos.x} cy={pos.y - 55} r="45" fill={stages[i]?.color ?? '#94a3b8'} />
+        ))}
+        <rect
+          x={-view.x / view.scale}
+          y={-view.y / view.scale}
+          width={viewportSize.width / view.scale}
+          height={viewportSize.height / view.scale}
+          fill="#6366f1"
+          fillOpacity="0.08"
+          stroke="#6366f1"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+          rx={12 / ratio}
+        />
+      </svg>
+    </div>
+  );
+};
+
+/**
+ * Zoomable, pannable frame around the Timeline with zoom controls and a
+ * minimap. Zoom with Ctrl/Cmd + wheel, a pinch or the buttons; drag empty
+ * space to pan, or click the canvas and scroll.
+ */
+const TimelineCanvas: React.FC<TimelineCanvasProps> = ({ viewport, geometry, stages, theme, children }) => {
+  const { view, isPanning } = viewport;
+  const hasContent = geometry.width > 0;
+
+  return (
+    <div
+      ref={viewport.containerRef}
+      {...viewport.handlers}
+      tabIndex={0}
+      className={`relative h-[70vh] min-h-[520px] overflow-hidden select-none outline-none transition-colors focus-visible:ring-4 focus-visible:ring-indigo-100 ${hasContent ? (isPanning ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
+      style={{ touchAction: 'none', backgroundColor: theme.colors.background }}
+    >
+      {hasContent ? (
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transition: view.smooth ? 'transform 300ms ease-out' : undefined,
+            width: geometry.width,
+            height: geometry.height
+          }}
+        >
+          {children}
+        </div>
+      ) : (
+        <div className="flex h-full items-center justify-center">{children}</div>
+      )}
+
+      {hasContent && (
+        <>
+          <Minimap viewport={viewport} geometry={geometry} stages={stages} theme={theme} />
+
+          {/* Zoom Controls */}
+          <div className="absolute right-4 bottom-4 flex items-center bg-white rounded-2xl border border-slate-200 p-1 shadow-lg" data-no-pan>
+            <button onClick={() => viewport.zoomBy(1 / ZOOM_STEP)} className={controlClass} title="Zoom out">
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 12h14"/></svg>
+            </button>
+            <button onClick={() => viewport.zoomTo(1)} className={`${controlClass} w-16 text-center`} title="Reset to 100%">
+              {Math.round(view.scale * 100)}%
+            </button>
+            <button onClick={() => viewport.zoomBy(ZOOM_STEP)} className={controlClass} title="Zoom in">
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 5v14M5 12h14"/></svg>
+            </button>
+            <button onClick={viewport.fit} className={`${controlClass} border-l border-slate-100`} title="Fit to screen">
+              Fit
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineCanvas;
@@ -1,3 +1,7 @@
+import { LayoutSettings, ProjectStage, RoadmapData, RoadmapTemplate, RoadmapTheme, StageChange, StageStatus, TemplateVariable } from './types';
+
+// Bump together with a new entry in the migration chain in utils/schema.ts.
+export const CURRENT_SCHEMA_VERSION = 8;
 
 export const THEME_COLORS = [
   '#f43f5e', // Rose
@@ -9,7 +13,103 @@ export const THEME_COLORS = [
   '#eab308', // Yellow
 ];
 
-export const INITIAL_STAGES = [
+// Fonts offered in the theme editor; each is loaded from Google Fonts on demand.
+export const FONT_OPTIONS = ['Inter', 'Poppins', 'Montserrat', 'Nunito', 'Raleway', 'Playfair Display'];
+
+export const BUILT_IN_THEMES: RoadmapTheme[] = [
+  {
+    name: 'Classic',
+    palette: THEME_COLORS,
+    colors: {
+      background: '#ffffff',
+      road: '#1e293b',
+      roadEdge: '#eef2f6',
+      roadMarking: '#ffffff',
+      cardBackground: '#ffffff',
+      cardBorder: '#e2e8f0',
+      heading: '#0f172a',
+      text: '#475569',
+      muted: '#64748b'
+    },
+    fonts: { heading: 'Inter', body: 'Inter' },
+    cardRadius: 20
+  },
+  {
+    name: 'Midnight',
+    palette: ['#fb7185', '#34d399', '#a78bfa', '#fb923c', '#38bdf8', '#e879f9', '#facc15'],
+    colors: {
+      background: '#0b1120',
+      road: '#334155',
+      roadEdge: '#1e293b',
+      roadMarking: '#e2e8f0',
+      cardBackground: '#151e32',
+      cardBorder: '#27324a',
+      heading: '#f8fafc',
+      text: '#cbd5e1',
+      muted: '#94a3b8'
+    },
+    fonts: { heading: 'Inter', body: 'Inter' },
+    cardRadius: 20
+  },
+  {
+    name: 'Blueprint',
+    palette: ['#1d4ed8', '#0891b2', '#4f46e5', '#0284c7', '#0f766e', '#7c3aed'],
+    colors: {
+      background: '#eff6ff',
+      road: '#1e3a8a',
+      roadEdge: '#bfdbfe',
+      roadMarking: '#dbeafe',
+      cardBackground: '#ffffff',
+      cardBorder: '#bfdbfe',
+      heading: '#1e3a8a',
+      text: '#1e40af',
+      muted: '#3b82f6'
+    },
+    fonts: { heading: 'Montserrat', body: 'Nunito' },
+    cardRadius: 8
+  },
+  {
+    name: 'Editorial',
+    palette: ['#b91c1c', '#15803d', '#a16207', '#1d4ed8', '#7e22ce', '#be185d'],
+    colors: {
+      background: '#fdfaf3',
+      road: '#292524',
+      roadEdge: '#e7e0d0',
+      roadMarking: '#f5f5f4',
+      cardBackground: '#fffdf8',
+      cardBorder: '#e7e0d0',
+      heading: '#1c1917',
+      text: '#44403c',
+      muted: '#78716c'
+    },
+    fonts: { heading: 'Playfair Display', body: 'Raleway' },
+    cardRadius: 4
+  }
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+export const MAX_CARD_RADIUS = 40;
+// Logos are stored inline in the roadmap, so keep them small.
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+// Status colors are fixed rather than themed so they read the same on every roadmap.
+export const STAGE_STATUSES: { value: StageStatus; label: string; color: string }[] = [
+  { value: 'not-started', label: 'Not Started', color: '#94a3b8' },
+  { value: 'in-progress', label: 'In Progress', color: '#0ea5e9' },
+  { value: 'blocked', label: 'Blocked', color: '#e11d48' },
+  { value: 'done', label: 'Done', color: '#10b981' }
+];
+
+// Badge colors for the version compare view and the Timeline overlay.
+export const STAGE_CHANGES: Record<StageChange, { label: string; color: string }> = {
+  added: { label: 'Added', color: '#10b981' },
+  removed: { label: 'Removed', color: '#e11d48' },
+  moved: { label: 'Moved', color: '#f59e0b' },
+  edited: { label: 'Edited', color: '#0ea5e9' }
+};
+
+export const INITIAL_STAGES: ProjectStage[] = [
   {
     id: '1',
     title: 'Brief',
@@ -41,3 +141,130 @@ export const INITIAL_STAGES = [
     color: '#0ea5e9'
   }
 ];
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  orientation: 'serpentine',
+  stagesPerRow: 3,
+  stageSpacing: 450,
+  rowSpacing: 500,
+  roadStyle: 'curved'
+};
+
+// Lower bounds keep neighbouring cards from overlapping.
+export const LAYOUT_LIMITS = {
+  stagesPerRow: { min: 1, max: 8 },
+  stageSpacing: { min: 280, max: 800 },
+  rowSpacing: { min: 480, max: 900 }
+};
+
+export const DEFAULT_ROADMAP: RoadmapData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  title: 'Roadmap Visionary',
+  description: 'Visualize your project journey with precision. Add stages manually or let AI draft your entire strategy.',
+  layout: DEFAULT_LAYOUT,
+  theme: DEFAULT_THEME,
+  stages: INITIAL_STAGES
+};
+
+// Templates date their stages relative to this blank, e.g. `{{startDate+14}}`.
+export const TEMPLATE_START_DATE: TemplateVariable = { key: 'startDate', label: 'Start date', kind: 'date' };
+
+// Stages run back to back from the template's start date: [title, description, days].
+const templateStages = (theme: RoadmapTheme, rows: [string, string, number][]): ProjectStage[] => {
+  let offset = 0;
+  return rows.map(([title, description, days], i) => {
+    const stage: ProjectStage = {
+      id: String(i + 1),
+      title,
+      description,
+      color: theme.palette[i % theme.palette.length],
+      startDate: offset === 0 ? '{{startDate}}' : `{{startDate+${offset}}}`,
+      durationDays: days
+    };
+    offset += days;
+    return stage;
+  });
+};
+
+const templateRoadmap = (title: string, description: string, theme: RoadmapTheme, rows: [string, string, number][]): RoadmapData => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  title,
+  description,
+  layout: DEFAULT_LAYOUT,
+  theme,
+  stages: templateStages(theme, rows)
+});
+
+// Offered in the template gallery next to the user's own templates.
+export const BUILT_IN_TEMPLATES: RoadmapTemplate[] = [
+  {
+    id: 'software-release',
+    name: 'Software Release',
+    description: 'From scoping a version to shipping it and watching it in production.',
+    variables: [{ key: 'product', label: 'Product', kind: 'text', defaultValue: 'Acme App' }, { key: 'version', label: 'Version', kind: 'text', defaultValue: '2.0' }, TEMPLATE_START_DATE],
+    data: templateRoadmap('{{product}} {{version}}', 'Release plan for {{product}} {{version}}.', BUILT_IN_THEMES[2], [
+      ['Scope', 'Agree on the features and fixes that make {{version}}, and what waits.', 10],
+      ['Build', 'Implement the scoped work behind feature flags, with reviews on every change.', 30],
+      ['Code Freeze', 'Only release blockers land; the release branch is cut.', 5],
+      ['QA & Beta', 'Regression testing and a beta group running {{product}} {{version}} daily.', 14],
+      ['Release', 'Staged rollout with release notes and a rollback plan ready.', 3],
+      ['Monitor', 'Watch errors, performance and feedback; ship a patch if needed.', 14]
+    ])
+  },
+  {
+    id: 'product-launch',
+    name: 'Product Launch',
+    description: 'Positioning, assets and channels for taking a product to market.',
+    variables: [{ key: 'product', label: 'Product', kind: 'text', defaultValue: 'Acme One' }, TEMPLATE_START_DATE],
+    data: templateRoadmap('Launching {{product}}', 'Go-to-market plan for {{product}}.', BUILT_IN_THEMES[0], [
+      ['Research', 'Size the market, study competitors and pick the audience for {{product}}.', 14],
+      ['Positioning', 'Messaging, pricing and the one-line story everyone repeats.', 10],
+      ['Assets', 'Landing page, demo video, press kit and sales material.', 21],
+      ['Pre-launch', 'Waitlist, early access and briefing press and partners.', 14],
+      ['Launch Day', 'Announcements across every channel, with the team on hand for questions.', 1],
+      ['Growth', 'Follow-up campaigns and learning from the first customers.', 30]
+    ])
+  },
+  {
+    id: 'hiring-plan',
+    name: 'Hiring Plan',
+    description: 'Filling a role, from writing the job description to onboarding.',
+    variables: [{ key: 'role', label: 'Role', kind: 'text', defaultValue: 'Senior Engineer' }, { key: 'team', label: 'Team', kind: 'text', defaultValue: 'Platform' }, TEMPLATE_START_DATE],
+    data: templateRoadmap('Hiring a {{role}}', 'Hiring plan for the {{team}} team.', BUILT_IN_THEMES[3], [
+      ['Role Definition', 'Write the job description and scorecard for the {{role}} with the {{team}} team.', 5],
+      ['Sourcing', 'Post the role, ask for referrals and reach out to candidates directly.', 21],
+      ['Screening', 'Résumé review and first calls against the scorecard.', 14],
+      ['Interviews', 'Technical and team interviews, with written feedback within a day.', 14],
+      ['Offer', 'References, offer and negotiation.', 7],
+      ['Onboarding', 'First-week plan, buddy and 30-day goals for the new {{role}}.', 30]
+    ])
+  },
+  {
+    id: 'agency-project',
+    name: 'Agency Project',
+    description: 'A client engagement from kickoff to handover.',
+    variables: [{ key: 'client', label: 'Client name', kind: 'text', defaultValue: 'Acme Corp' }, { key: 'project', label: 'Project', kind: 'text', defaultValue: 'Website Redesign' }, TEMPLATE_START_DATE],
+    data: templateRoadmap('{{client}}: {{project}}', '{{project}} for {{client}}.', BUILT_IN_THEMES[0], [
+      ['Kickoff', 'Meet {{client}}, confirm goals, budget, contacts and sign-off rules.', 3],
+      ['Discovery', 'Workshops and research to understand {{client}} and their users.', 10],
+      ['Concept', 'Direction options presented to {{client}} for one to be chosen.', 10],
+      ['Production', 'Design and build of the agreed direction, with weekly check-ins.', 30],
+      ['Review', 'Rounds of {{client}} feedback and fixes before sign-off.', 10],
+      ['Handover', 'Final delivery, documentation and training for {{client}}.', 5]
+    ])
+  },
+  {
+    id: 'okr-quarter',
+    name: 'OKR Quarter',
+    description: 'Setting, tracking and grading a quarter of objectives and key results.',
+    variables: [{ key: 'team', label: 'Team', kind: 'text', defaultValue: 'Growth' }, { key: 'quarter', label: 'Quarter', kind: 'text', defaultValue: 'Q1' }, TEMPLATE_START_DATE],
+    data: templateRoadmap('{{team}} OKRs, {{quarter}}', 'Objectives and key results for the {{team}} team in {{quarter}}.', BUILT_IN_THEMES[1], [
+      ['Draft OKRs', 'Propose objectives and measurable key results for {{quarter}}.', 7],
+      ['Align', 'Check the OKRs against company goals and other teams, then commit.', 7],
+      ['Execution', 'Work toward the key results; weekly confidence check-ins.', 35],
+      ['Mid-quarter Review', 'Grade progress so far and adjust plans, not the goals.', 3],
+      ['Final Push', 'Focus on the key results that are behind.', 31],
+      ['Grade & Retro', 'Score every key result and carry lessons into the next quarter.', 7]
+    ])
+  }
+];
@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import { AI_PROVIDERS, AiSettings, DEFAULT_AI_SETTINGS } from '../services/aiProviders';
+
+const SETTINGS_KEY = 'roadmap_visionary_ai_v1';
+
+const loadSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const provider = saved.provider in AI_PROVIDERS ? saved.provider : DEFAULT_AI_SETTINGS.provider;
+    return {
+      provider,
+      model: typeof saved.model === 'string' ? saved.model : AI_PROVIDERS[provider].defaultModel,
+      baseUrl: typeof saved.baseUrl === 'string' ? saved.baseUrl : DEFAULT_AI_SETTINGS.baseUrl,
+      apiKey: typeof saved.apiKey === 'string' ? saved.apiKey : ''
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+/** The AI provider and model, remembered in this browser. */
+export const useAiSettings = () => {
+  const [settings, setSettings] = useState(loadSettings);
+
+  const save = useCallback((next: AiSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    setSettings(next);
+  }, []);
+
+  return { settings, save };
+};
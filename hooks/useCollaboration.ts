@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RoadmapData } from '../types';
+import { RoadmapCrdt, RoadmapOp, createRoadmapCrdt } from '../utils/roadmapCrdt';
+import { formatSchemaError, parseRoadmap } from '../utils/schema';
+import {
+  ConnectionStatus,
+  DEFAULT_SYNC_URL,
+  PEER_COLORS,
+  Peer,
+  PeerPresence,
+  SyncConnection,
+  connectToRoom,
+  stampKey
+} from '../services/collaboration';
+
+export interface CollaborationSettings {
+  url: string;
+  room: string;
+  name: string;
+}
+
+const SETTINGS_KEY = 'roadmap_visionary_collab_v1';
+
+const loadSettings = (): Omit<CollaborationSettings, 'room'> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { url: saved.url || DEFAULT_SYNC_URL, name: saved.name || '' };
+  } catch {
+    return { url: DEFAULT_SYNC_URL, name: '' };
+  }
+};
+
+/**
+ * Live editing of the open roadmap with everyone in the same room. Local
+ * changes to `data` are diffed into CRDT operations and sent; merged remote
+ * changes come back through `onRemoteChange`, labelled for the history.
+ */
+export const useCollaboration = (data: RoadmapData, onRemoteChange: (data: RoadmapData, label: string, groupKey: string) => void) => {
+  const [session, setSession] = useState<CollaborationSettings | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+  const [peers, setPeers] = useState<PeerPresence[]>([]);
+  const [defaults] = useState(loadSettings);
+  const selfRef = useRef<Peer>({
+    id: Math.random().toString(36).substr(2, 9),
+    name: '',
+    color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)]
+  });
+  const crdtRef = useRef<RoadmapCrdt | null>(null);
+  const connectionRef = useRef<SyncConnection | null>(null);
+  const localOpsRef = useRef<RoadmapOp[]>([]);
+  const isSyncedRef = useRef(false);
+  const peersRef = useRef<PeerPresence[]>([]);
+  const dataRef = useRef(data);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  dataRef.current = data;
+  onRemoteChangeRef.current = onRemoteChange;
+
+  // Sends whatever the user changed since the document last saw their roadmap.
+  const flushLocal = useCallback(() => {
+    const crdt = crdtRef.current;
+    if (!crdt || !isSyncedRef.current) return;
+    const ops = crdt.commitLocal(dataRef.current);
+    if (ops.length === 0) return;
+    localOpsRef.current.push(...ops);
+    connectionRef.current?.sendOps(ops);
+  }, []);
+
+  useEffect(flushLocal, [data, flushLocal]);
+
+  // The merged roadmap counts as seen straight away, so a second message
+  // arriving before React re-renders is not diffed against stale data. A merge
+  // that is not a valid roadmap is dropped rather than put into the history.
+  const publish = useCallback((label: string, groupKey: string) => {
+    const materialized = crdtRef.current?.materialize();
+    if (!materialized) return;
+    const { data: merged, errors } = parseRoadmap(materialized);
+    if (!merged) {
+      console.error('Collaboration Error: ignored an invalid merge:', formatSchemaError(errors[0]));
+      return;
+    }
+    if (JSON.stringify(merged) === JSON.stringify(dataRef.current)) return;
+    dataRef.current = merged;
+    onRemoteChangeRef.current(merged, label, groupKey);
+  }, []);
+
+  const disconnect = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    crdtRef.current = null;
+    localOpsRef.current = [];
+    isSyncedRef.current = false;
+    setSession(null);
+  }, []);
+
+  const connect = useCallback((settings: CollaborationSettings) => {
+    disconnect();
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ url: settings.url, name: settings.name }));
+    const self = { ...selfRef.current, name: settings.name.trim() || 'Anonymous' };
+    selfRef.current = self;
+    const crdt = createRoadmapCrdt(self.id);
+    crdtRef.current = crdt;
+    setSession(settings);
+
+    const connection = connectToRoom(settings.url, settings.room, self, {
+      onWelcome: (ops) => {
+        if (crdtRef.current !== crdt) return;
+        if (!isSyncedRef.current) {
+          // The first person in a room brings their roadmap; everyone after adopts the room's.
+          crdt.applyRemote(ops);
+          isSyncedRef.current = true;
+          if (crdt.materialize()) publish(`Joined room '${settings.room}'`, `join:${settings.room}`);
+          else flushLocal();
+          return;
+        }
+        // After a reconnect, resend what the server missed (e.g. it restarted),
+        // then the edits made while offline, and only then catch up.
+        const known = new Set(ops.map(stampKey));
+        connectionRef.current?.sendOps(localOpsRef.current.filter(op => !known.has(stampKey(op))));
+        flushLocal();
+        crdt.applyRemote(ops);
+        publish('Synced after reconnecting', 'sync');
+      },
+      onOps: (ops, fromPeerId) => {
+        if (crdtRef.current !== crdt || !isSyncedRef.current) return;
+        flushLocal();
+        crdt.applyRemote(ops);
+        const name = peersRef.current.find(peer => peer.id === fromPeerId)?.name || 'a collaborator';
+        publish(`Changes from ${name}`, `remote:${fromPeerId}`);
+      },
+      onPeers: (list) => {
+        const others = list.filter(peer => peer.id !== self.id);
+        peersRef.current = others;
+        setPeers(others);
+      },
+      onStatus: setStatus
+    });
+    connectionRef.current = connection;
+  }, [disconnect, flushLocal, publish]);
+
+  const editingStageRef = useRef<string | null>(null);
+  const setEditingStage = useCallback((stageId: string | null) => {
+    if (editingStageRef.current === stageId) return;
+    editingStageRef.current = stageId;
+    connectionRef.current?.setPresence(stageId);
+  }, []);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  return { session, status, peers, defaults, self: selfRef.current, connect, disconnect, setEditingStage };
+};
@@ -0,0 +1,77 @@
+import { useState, useCallback, useRef } from 'react';
+
+const MAX_HISTORY = 50;
+
+export interface HistoryEntry<T> {
+  id: number;
+  /** Human readable description of the change, e.g. "Removed stage 'Design'". */
+  label: string;
+  state: T;
+  timestamp: number;
+  /** Consecutive commits sharing a key are merged into one entry. */
+  groupKey?: string;
+}
+
+interface HistoryTimeline<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+// Navigation clears the group on the entry it lands on, so typing afterwards starts a fresh entry.
+const land = <T,>(prev: HistoryTimeline<T>, index: number): HistoryTimeline<T> => {
+  if (index < 0 || index >= prev.entries.length || index === prev.index) return prev;
+  const entries = prev.entries.map((entry, i) => (i === index ? { ...entry, groupKey: undefined } : entry));
+  return { entries, index };
+};
+
+/**
+ * Linear undo/redo history. Every entry stores the state after its change,
+ * so jumping to an entry restores exactly what the user saw at that point.
+ */
+export const useHistory = <T,>(initialState: T, initialLabel: string) => {
+  const nextId = useRef(1);
+  const [timeline, setTimeline] = useState<HistoryTimeline<T>>(() => ({
+    entries: [{ id: 0, label: initialLabel, state: initialState, timestamp: Date.now() }],
+    index: 0
+  }));
+
+  const commit = useCallback((label: string, next: T | ((prev: T) => T), groupKey?: string) => {
+    setTimeline(prev => {
+      const current = prev.entries[prev.index];
+      const state = typeof next === 'function' ? (next as (prev: T) => T)(current.state) : next;
+      if (state === current.state) return prev;
+
+      const isLatest = prev.index === prev.entries.length - 1;
+      if (groupKey && current.groupKey === groupKey && isLatest) {
+        const merged = { ...current, state, timestamp: Date.now() };
+        return { entries: [...prev.entries.slice(0, -1), merged], index: prev.index };
+      }
+
+      const entry: HistoryEntry<T> = { id: nextId.current++, label, state, timestamp: Date.now(), groupKey };
+      const entries = [...prev.entries.slice(0, prev.index + 1), entry].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => setTimeline(prev => land(prev, index)), []);
+  const undo = useCallback(() => setTimeline(prev => land(prev, prev.index - 1)), []);
+  const redo = useCallback(() => setTimeline(prev => land(prev, prev.index + 1)), []);
+
+  /** Replaces the whole history, e.g. when a different roadmap is opened. */
+  const reset = useCallback((state: T, label: string) => {
+    setTimeline({ entries: [{ id: nextId.current++, label, state, timestamp: Date.now() }], index: 0 });
+  }, []);
+
+  return {
+    present: timeline.entries[timeline.index].state,
+    entries: timeline.entries,
+    index: timeline.index,
+    canUndo: timeline.index > 0,
+    canRedo: timeline.index < timeline.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RoadmapData, RoadmapSnapshot, SavedRoadmap } from '../types';
+import { DEFAULT_ROADMAP } from '../constants';
+import {
+  RoadmapStore,
+  createRoadmapStore,
+  createSavedRoadmap,
+  createRoadmapId,
+  ensureLibraryInitialized
+} from '../services/roadmapStore';
+import { formatSchemaError, parseRoadmap } from '../utils/schema';
+
+const byRecentlyUpdated = (a: SavedRoadmap, b: SavedRoadmap) => b.updatedAt - a.updatedAt;
+
+const describeStorageError = (err: unknown) => (err instanceof Error && err.message ? err.message : 'browser storage is unavailable');
+
+/**
+ * Keeps the list of saved roadmaps in sync with the store and tracks which one
+ * is open. `onOpen` fires whenever a different roadmap becomes active. Storage
+ * failures, such as an exceeded quota, are reported through `error` instead of
+ * rejecting, so callers can fire and forget.
+ */
+export const useRoadmapLibrary = (onOpen: (roadmap: SavedRoadmap) => void) => {
+  const storeRef = useRef<RoadmapStore | null>(null);
+  const initRef = useRef<Promise<SavedRoadmap[]> | null>(null);
+  const onOpenRef = useRef(onOpen);
+  const [roadmaps, setRoadmaps] = useState<SavedRoadmap[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  onOpenRef.current = onOpen;
+  const store = () => (storeRef.current ??= createRoadmapStore());
+
+  const fail = useCallback((action: string, err: unknown) => {
+    console.error('Library Error:', err);
+    setError(`${action}: ${describeStorageError(err)}`);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const list = await store().list();
+    setRoadmaps([...list].sort(byRecentlyUpdated));
+    return list;
+  }, []);
+
+  // Stored roadmaps are migrated to the current schema and validated before they are opened.
+  const activate = useCallback(async (roadmap: SavedRoadmap): Promise<boolean> => {
+    const result = parseRoadmap(roadmap.data);
+    if (!result.data) {
+      setError(`"${roadmap.name}" could not be opened: ${formatSchemaError(result.errors[0])}`);
+      return false;
+    }
+    await store().setActiveId(roadmap.id);
+    setActiveId(roadmap.id);
+    setError(null);
+    onOpenRef.current({ ...roadmap, data: result.data });
+    return true;
+  }, []);
+
+  // Resolves to false when the roadmap could not be written, so callers can hold off switching away from it.
+  const save = useCallback(async (data: RoadmapData): Promise<boolean> => {
+    try {
+      if (!activeId) return true;
+      const existing = await store().get(activeId);
+      if (!existing) return true;
+      await store().put({ ...existing, data: JSON.parse(JSON.stringify(data)), updatedAt: Date.now() });
+      await refresh();
+      setError(null);
+      return true;
+    } catch (err) {
+      fail('Your changes could not be saved', err);
+      return false;
+    }
+  }, [activeId, refresh, fail]);
+
+  const open = useCallback(async (id: string) => {
+    try {
+      const roadmap = await store().get(id);
+      if (roadmap) await activate(roadmap);
+    } catch (err) {
+      fail('The roadmap could not be opened', err);
+    }
+  }, [activate, fail]);
+
+  const create = useCallback(async (data: RoadmapData = DEFAULT_ROADMAP, name?: string): Promise<SavedRoadmap | null> => {
+    try {
+      const roadmap = createSavedRoadmap(data, name);
+      await store().put(roadmap);
+      await refresh();
+      await activate(roadmap);
+      return roadmap;
+    } catch (err) {
+      fail('The roadmap could not be created', err);
+      return null;
+    }
+  }, [refresh, activate, fail]);
+
+  const duplicate = useCallback(async (id: string) => {
+    try {
+      const source = await store().get(id);
+      if (!source) return;
+      const copy = createSavedRoadmap(source.data, `${source.name} (Copy)`);
+      await store().put(copy);
+      await refresh();
+    } catch (err) {
+      fail('The roadmap could not be duplicated', err);
+    }
+  }, [refresh, fail]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    try {
+      const roadmap = await store().get(id);
+      if (!roadmap || !name.trim()) return;
+      await store().put({ ...roadmap, name: name.trim(), updatedAt: Date.now() });
+      await refresh();
+    } catch (err) {
+      fail('The roadmap could not be renamed', err);
+    }
+  }, [refresh, fail]);
+
+  // Deleting the open roadmap switches to the most recent one; the library is never left empty.
+  const remove = useCallback(async (id: string) => {
+    try {
+      await store().remove(id);
+      const remaining = await refresh();
+      if (id !== activeId) return;
+      if (remaining.length > 0) {
+        await activate([...remaining].sort(byRecentlyUpdated)[0]);
+      } else {
+        await create();
+      }
+    } catch (err) {
+      fail('The roadmap could not be deleted', err);
+    }
+  }, [activeId, refresh, activate, create, fail]);
+
+  // Snapshots belong to the open roadmap and are written straight to its record.
+  const takeSnapshot = useCallback(async (data: RoadmapData, name: string): Promise<RoadmapSnapshot | null> => {
+    try {
+      const roadmap = activeId ? await store().get(activeId) : null;
+      if (!roadmap) return null;
+      const snapshot: RoadmapSnapshot = {
+        id: createRoadmapId(),
+        name: name.trim() || 'Untitled Snapshot',
+        data: JSON.parse(JSON.stringify(data)),
+        createdAt: Date.now()
+      };
+      await store().put({ ...roadmap, snapshots: [...(roadmap.snapshots || []), snapshot] });
+      await refresh();
+      return snapshot;
+    } catch (err) {
+      fail('The snapshot could not be saved', err);
+      return null;
+    }
+  }, [activeId, refresh, fail]);
+
+  const removeSnapshot = useCallback(async (snapshotId: string) => {
+    try {
+      const roadmap = activeId ? await store().get(activeId) : null;
+      if (!roadmap) return;
+      await store().put({ ...roadmap, snapshots: (roadmap.snapshots || []).filter(s => s.id !== snapshotId) });
+      await refresh();
+    } catch (err) {
+      fail('The snapshot could not be deleted', err);
+    }
+  }, [activeId, refresh, fail]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      // Shared across effect re-runs so StrictMode cannot seed the library twice.
+      const list = await (initRef.current ??= ensureLibraryInitialized(store()));
+      const savedActiveId = await store().getActiveId();
+      const candidates = [...list].sort((a, b) => (a.id === savedActiveId ? -1 : b.id === savedActiveId ? 1 : byRecentlyUpdated(a, b)));
+      if (cancelled) return;
+      await refresh();
+      let opened = false;
+      for (const candidate of candidates) {
+        if ((opened = await activate(candidate))) break;
+      }
+      if (!opened) await create();
+    })()
+      // The editor stays usable without a library; saving reports the problem again if it persists.
+      .catch(err => fail('Your saved roadmaps could not be loaded', err))
+      .finally(() => { if (!cancelled) setIsReady(true); });
+    return () => { cancelled = true; };
+  }, [refresh, activate, create, fail]);
+
+  const snapshots = roadmaps.find(r => r.id === activeId)?.snapshots || [];
+
+  return { roadmaps, activeId, isReady, error, save, open, create, duplicate, rename, remove, snapshots, takeSnapshot, removeSnapshot };
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { RoadmapTemplate } from '../types';
+
+const TEMPLATES_KEY = 'roadmap_visionary_templates_v1';
+
+// Templates are checked when used, not here; only obviously broken entries are dropped.
+const loadTemplates = (): RoadmapTemplate[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(t => t && typeof t.id === 'string' && t.data && Array.isArray(t.variables)) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Templates the user saved from their own roadmaps, kept in this browser. */
+export const useTemplates = () => {
+  const [templates, setTemplates] = useState<RoadmapTemplate[]>(loadTemplates);
+  const [error, setError] = useState<string | null>(null);
+
+  const write = useCallback((next: RoadmapTemplate[]) => {
+    try {
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(next));
+      setTemplates(next);
+      setError(null);
+      return true;
+    } catch {
+      setError('The template could not be saved; browser storage is full.');
+      return false;
+    }
+  }, []);
+
+  const save = useCallback((template: RoadmapTemplate) => write([...templates, template]), [templates, write]);
+  const remove = useCallback((id: string) => write(templates.filter(t => t.id !== id)), [templates, write]);
+
+  return { templates, error, save, remove };
+};
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { RoadmapData, TimelineMode } from '../types';
+import { CalendarLayout, RoadPoint, computeCalendarLayout } from '../utils/calendarLayout';
+import { todayUtc } from '../utils/dates';
+import { CardSize, RoadLayout, computeRoadLayout, getRowGeometry } from '../utils/roadLayout';
+import { LaneBand, LaneLayout, computeLaneCalendarLayout, computeLaneLayout } from '../utils/laneLayout';
+
+// Stage card footprint on the road; the Timeline draws its cards at this size.
+export const CARD_SIZE: CardSize = { width: 220, height: 170 };
+
+export interface TimelineGeometry {
+  /** Even layout; also provides the canvas size and page breaks in calendar mode. */
+  layout: RoadLayout | null;
+  /** Time-scaled layout, only present in calendar mode when it can be drawn. */
+  calendar: CalendarLayout | null;
+  width: number;
+  height: number;
+  pathData: string;
+  /** Road leading up to each stage, used to draw progress along it. */
+  segmentPaths: string[];
+  positions: RoadPoint[];
+  /** One road per lane, with its name; empty when the roadmap is a single road. */
+  lanes: LaneBand[];
+}
+
+/**
+ * Where the road and every stage pin sit on the canvas. Shared by the Timeline
+ * itself and by anything drawn around it, such as the minimap.
+ */
+export const useTimelineGeometry = (data: RoadmapData, mode: TimelineMode = 'even'): TimelineGeometry => {
+  const { stages, layout: settings } = data;
+  const lanes = data.lanes && data.lanes.length > 0 ? data.lanes : null;
+  // A single road only depends on how many stages there are; lanes also on which lane each is in.
+  const laneStages = lanes ? stages : null;
+
+  const layout = useMemo((): RoadLayout | LaneLayout | null => {
+    if (stages.length === 0) return null;
+    return lanes ? computeLaneLayout(stages, lanes, settings) : computeRoadLayout(stages.length, settings, CARD_SIZE);
+  }, [stages.length, laneStages, lanes, settings]);
+
+  // Calendar mode needs at least one dated stage and a road made of rows or lanes; otherwise the even layout is used.
+  const calendar = useMemo(() => {
+    if (mode !== 'calendar') return null;
+    if (lanes) return computeLaneCalendarLayout(stages, lanes, settings, todayUtc());
+    const geometry = getRowGeometry(stages.length, settings);
+    return geometry ? computeCalendarLayout(stages, geometry, todayUtc()) : null;
+  }, [mode, stages, lanes, settings]);
+
+  return {
+    layout,
+    calendar,
+    width: layout ? layout.width : 0,
+    height: layout ? layout.height : 0,
+    pathData: calendar ? calendar.pathData : layout ? layout.pathData : '',
+    segmentPaths: calendar ? calendar.segmentPaths : layout ? layout.segmentPaths : [],
+    positions: calendar ? calendar.positions : layout ? layout.positions : [],
+    lanes: layout && 'lanes' in layout ? layout.lanes : []
+  };
+};
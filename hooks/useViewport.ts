@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+  /** Animate towards this transform; off while the user drags or pinches. */
+  smooth: boolean;
+}
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+export const ZOOM_STEP = 1.25;
+const WHEEL_ZOOM_SPEED = 0.0015;
+// Pixels per line for wheels that report their delta in lines (Firefox).
+const WHEEL_LINE_HEIGHT = 16;
+// Movement before a press turns into a pan, so clicks on the canvas still work.
+const DRAG_THRESHOLD = 4;
+// How much of the content must stay inside the viewport while panning.
+const KEEP_VISIBLE = 80;
+const FIT_PADDING = 24;
+
+// Presses that start on these are left to the element itself.
+const INTERACTIVE = 'input, textarea, select, button, a, foreignObject, [data-no-pan]';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Pointer {
+  x: number;
+  y: number;
+}
+
+/**
+ * Zoom and pan state for a fixed-size viewport showing content of the given
+ * size. Until the user moves the view it keeps the content fitted to the
+ * viewport width, so the canvas stays responsive.
+ */
+export const useViewport = (contentWidth: number, contentHeight: number) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0, smooth: false });
+  const [isPanning, setIsPanning] = useState(false);
+  const hasInteracted = useRef(false);
+  const pointers = useRef(new Map<number, Pointer>());
+  const gesture = useRef<{ start: Pointer; origin: ViewTransform; distance: number; moved: boolean } | null>(null);
+
+  const constrain = useCallback((next: ViewTransform): ViewTransform => {
+    const scale = clamp(next.scale, MIN_SCALE, MAX_SCALE);
+    const width = contentWidth * scale;
+    const height = contentHeight * scale;
+    return {
+      ...next,
+      scale,
+      x: clamp(next.x, KEEP_VISIBLE - width, size.width - KEEP_VISIBLE),
+      y: clamp(next.y, KEEP_VISIBLE - height, size.height - KEEP_VISIBLE)
+    };
+  }, [contentWidth, contentHeight, size]);
+
+  const update = useCallback((updater: (prev: ViewTransform) => ViewTransform) => {
+    hasInteracted.current = true;
+    setView(prev => constrain(updater(prev)));
+  }, [constrain]);
+
+  /** Zooms by `factor`, keeping the given viewport point (default: centre) in place. */
+  const zoomBy = useCallback((factor: number, origin?: Pointer, smooth = true) => {
+    update(prev => {
+      const scale = clamp(prev.scale * factor, MIN_SCALE, MAX_SCALE);
+      const ox = origin ? origin.x : size.width / 2;
+      const oy = origin ? origin.y : size.height / 2;
+      const ratio = scale / prev.scale;
+      return { scale, x: ox - (ox - prev.x) * ratio, y: oy - (oy - prev.y) * ratio, smooth };
+    });
+  }, [update, size]);
+
+  const zoomTo = useCallback((scale: number) => zoomBy(scale / view.scale), [zoomBy, view.scale]);
+
+  const computeFit = useCallback((widthOnly: boolean): ViewTransform => {
+    const availableWidth = Math.max(1, size.width - FIT_PADDING * 2);
+    const availableHeight = Math.max(1, size.height - FIT_PADDING * 2);
+    const byWidth = availableWidth / contentWidth;
+    const scale = clamp(Math.min(1, widthOnly ? byWidth : Math.min(byWidth, availableHeight / contentHeight)), MIN_SCALE, MAX_SCALE);
+    return {
+      scale,
+      x: (size.width - contentWidth * scale) / 2,
+      y: widthOnly ? FIT_PADDING : (size.height - contentHeight * scale) / 2,
+      smooth: true
+    };
+  }, [size, contentWidth, contentHeight]);
+
+  /** Shows the whole roadmap. */
+  const fit = useCallback(() => update(() => computeFit(false)), [update, computeFit]);
+
+  /** Centres the given content point, optionally zooming in to at least `minScale`. */
+  const centerOn = useCallback((x: number, y: number, minScale = 0, smooth = true) => {
+    update(prev => {
+      const scale = Math.max(prev.scale, minScale);
+      return { scale, x: size.width / 2 - x * scale, y: size.height / 2 - y * scale, smooth };
+    });
+  }, [update, size]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (size.width === 0 || contentWidth === 0) return;
+    if (!hasInteracted.current) {
+      setView({ ...computeFit(true), smooth: false });
+    } else {
+      setView(prev => constrain(prev));
+    }
+  }, [size, contentWidth, contentHeight, computeFit, constrain]);
+
+  // Ctrl/Cmd + wheel zooms; trackpad pinches arrive the same way. A plain wheel
+  // pans once the canvas itself has focus and otherwise scrolls the page past it.
+  // Both need a non-passive listener so the page does not scroll as well.
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (contentWidth === 0) return;
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const rect = element.getBoundingClientRect();
+        zoomBy(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), { x: e.clientX - rect.left, y: e.clientY - rect.top }, false);
+        return;
+      }
+      if (document.activeElement !== element) return;
+      e.preventDefault();
+      const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const dx = e.deltaX * unit;
+      const dy = e.deltaY * unit;
+      update(prev => ({ ...prev, x: prev.x - dx, y: prev.y - dy, smooth: false }));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomBy, update, contentWidth]);
+
+  const localPoint = (e: React.PointerEvent): Pointer => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const beginGesture = () => {
+    const points = [...pointers.current.values()];
+    const start = points.length > 1
+      ? { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 }
+      : points[0];
+    const distance = points.length > 1 ? Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y) : 0;
+    gesture.current = { start, origin: view, distance, moved: gesture.current?.moved ?? false };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (contentWidth === 0 || e.button !== 0 || (e.target as Element).closest(INTERACTIVE)) return;
+    pointers.current.set(e.pointerId, localPoint(e));
+    beginGesture();
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, localPoint(e));
+    const { start, origin, distance } = gesture.current;
+    const points = [...pointers.current.values()];
+
+    if (points.length > 1) {
+      // Pinch: scale around the starting midpoint and follow the midpoint as it moves.
+      const mid = { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+      const ratio = clamp(origin.scale * (Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y) / (distance || 1)), MIN_SCALE, MAX_SCALE) / origin.scale;
+      gesture.current.moved = true;
+      update(() => ({
+        scale: origin.scale * ratio,
+        x: mid.x - (start.x - origin.x) * ratio,
+        y: mid.y - (start.y - origin.y) * ratio,
+        smooth: false
+      }));
+    } else {
+      const dx = points[0].x - start.x;
+      const dy = points[0].y - start.y;
+      if (!gesture.current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      if (!gesture.current.moved) {
+        gesture.current.moved = true;
+        containerRef.current?.setPointerCapture(e.pointerId);
+        setIsPanning(true);
+      }
+      update(() => ({ ...origin, x: origin.x + dx, y: origin.y + dy, smooth: false }));
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    if (pointers.current.size > 0) {
+      beginGesture();
+      return;
+    }
+    gesture.current = null;
+    setIsPanning(false);
+  };
+
+  return {
+    containerRef,
+    view,
+    viewportSize: size,
+    isPanning,
+    zoomBy,
+    zoomTo,
+    fit,
+    centerOn,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp }
+  };
+};
+
+export type Viewport = ReturnType<typeof useViewport>;
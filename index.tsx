@@ -1,7 +1,32 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedRoadmapView from './components/SharedRoadmapView';
+import { getSharePayload } from './services/shareLink';
+
+// Share links open a read-only view; everything else is the editor.
+const Root: React.FC = () => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const sync = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', sync);
+    window.addEventListener('popstate', sync);
+    return () => {
+      window.removeEventListener('hashchange', sync);
+      window.removeEventListener('popstate', sync);
+    };
+  }, []);
+
+  const openEditor = () => {
+    window.history.pushState(null, '', window.location.pathname + window.location.search);
+    setHash('');
+  };
+
+  const payload = getSharePayload(hash);
+  return payload ? <SharedRoadmapView payload={payload} onOpenEditor={openEditor} /> : <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +36,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
@@ -0,0 +1,205 @@
+// Relay server for live collaboration: `npm run sync-server`, then connect
+// from the app's Live dialog. Each room keeps its operation log in memory, so
+// people who join later replay it; rooms are dropped once the last person
+// leaves. The server never interprets operations, clients merge them. A room's
+// log is capped at MAX_ROOM_BYTES; once full, further edits are refused until
+// everyone has left and the room starts over.
+//
+// Plain Node with no dependencies, including a small WebSocket (RFC 6455)
+// implementation covering text frames, ping/pong and close.
+//
+// Rooms have no authentication: anyone who can reach the server and knows a
+// room name can join it. By default any web page may connect, so set
+// ALLOWED_ORIGINS (comma-separated, e.g. `https://roadmaps.example.com`) when
+// the server is reachable from outside your machine.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 1234;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const MAX_ROOM_BYTES = Number(process.env.MAX_ROOM_BYTES) || 64 * 1024 * 1024;
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+const CLOSE = { normal: 1000, protocolError: 1002, unsupportedData: 1003, tooBig: 1009 };
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+/** @type {Map<string, { ops: unknown[], bytes: number, clients: Set<Connection> }>} */
+const rooms = new Map();
+
+const isObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPeer = value =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.color === 'string';
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Connection {
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.room = null;
+    this.peer = null;
+    this.presence = null;
+    // A malformed frame or message closes this connection only, never the server.
+    socket.on('data', chunk => {
+      try {
+        this.receive(chunk);
+      } catch {
+        this.close(CLOSE.protocolError);
+      }
+    });
+    socket.on('close', () => this.leave());
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message) {
+    if (this.socket.writable) this.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code = CLOSE.normal) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    if (this.socket.writable) this.socket.end(encodeFrame(OPCODE.close, payload));
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      // Frames after a close are ignored.
+      if (this.buffer.length < 2 || !this.socket.writable) return;
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Browsers always mask; anything else is not a WebSocket client.
+      if (!masked || length > MAX_MESSAGE_BYTES) return this.close(CLOSE.protocolError);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE.ping) {
+        this.socket.write(encodeFrame(OPCODE.pong, payload));
+      } else if (opcode === OPCODE.close) {
+        this.close();
+      } else if (opcode === OPCODE.text || opcode === OPCODE.continuation) {
+        // The limit applies to the whole message, not just each fragment of it.
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE_BYTES) return this.close(CLOSE.tooBig);
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments);
+          this.fragments = [];
+          this.fragmentBytes = 0;
+          this.handle(message.toString('utf8'), message.length);
+        }
+      }
+    }
+  }
+
+  // Every message is a JSON object; anything else means the client is not ours.
+  handle(text, size) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return this.close(CLOSE.unsupportedData);
+    }
+    if (!isObject(message)) return this.close(CLOSE.unsupportedData);
+
+    if (message.type === 'join' && typeof message.room === 'string' && isPeer(message.peer)) {
+      this.leave();
+      if (!rooms.has(message.room)) rooms.set(message.room, { ops: [], bytes: 0, clients: new Set() });
+      this.room = rooms.get(message.room);
+      this.peer = { id: message.peer.id, name: message.peer.name, color: message.peer.color };
+      this.room.clients.add(this);
+      this.send({ type: 'welcome', ops: this.room.ops });
+      broadcastPeers(this.room);
+    } else if (!this.room) {
+      return;
+    } else if (message.type === 'ops' && Array.isArray(message.ops)) {
+      if (this.room.bytes + size > MAX_ROOM_BYTES) return this.close(CLOSE.tooBig);
+      this.room.bytes += size;
+      // One push per op: spreading a large batch into push() overflows the call stack.
+      for (const op of message.ops) this.room.ops.push(op);
+      this.room.clients.forEach(client => client !== this && client.send({ type: 'ops', from: this.peer.id, ops: message.ops }));
+    } else if (message.type === 'presence') {
+      this.presence = isObject(message.presence) ? message.presence : null;
+      broadcastPeers(this.room);
+    }
+  }
+
+  leave() {
+    const room = this.room;
+    if (!room) return;
+    this.room = null;
+    room.clients.delete(this);
+    if (room.clients.size === 0) {
+      rooms.forEach((value, key) => value === room && rooms.delete(key));
+    } else {
+      broadcastPeers(room);
+    }
+  }
+}
+
+const broadcastPeers = room => {
+  const peers = [...room.clients].map(client => ({ ...client.peer, presence: client.presence }));
+  room.clients.forEach(client => client.send({ type: 'peers', peers }));
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end(`Roadmap sync server: ${rooms.size} active ${rooms.size === 1 ? 'room' : 'rooms'}\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(request.headers.origin)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  new Connection(socket);
+});
+
+server.listen(PORT, () => console.log(`Roadmap sync server listening on ws://localhost:${PORT}`));
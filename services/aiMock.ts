@@ -0,0 +1,108 @@
+import { AiOutputs, AiRequest, AiTask } from './aiPrompts';
+import { CompleteOptions } from './aiProviders';
+import { DAY_MS, formatIsoDate, parseIsoDate, todayUtc } from '../utils/dates';
+
+/*
+ * Canned answers for offline demos and tests. They depend only on the
+ * request's context, so the same roadmap always gets the same suggestion.
+ */
+
+const GENERATED_PHASES = [
+  ['Discovery', 'Interview stakeholders and pin down goals and constraints for'],
+  ['Planning', 'Break the work into milestones and agree on scope for'],
+  ['Build', 'Produce the first complete version of'],
+  ['Review', 'Test with real users and collect feedback on'],
+  ['Launch', 'Ship and announce']
+];
+
+const MOCK_STAGE_DAYS = 14;
+
+const firstSentence = (text: string) => (text.match(/^[^.!?]*[.!?]?/)?.[0] || text).trim();
+
+type MockAnswers = { [T in AiTask]: (request: AiRequest) => AiOutputs[T] };
+
+const ANSWERS: MockAnswers = {
+  generate: ({ context }) => {
+    const idea = (context.idea || 'the project').trim();
+    return { stages: GENERATED_PHASES.map(([title, lead]) => ({ title, description: `${lead} ${idea}.` })) };
+  },
+  expand: ({ context }) => {
+    const stage = context.roadmap?.stages.find(s => s.id === context.stageId);
+    const title = stage?.title || 'Stage';
+    return {
+      stages: [
+        { title: `${title}: Prepare`, description: stage?.description || `Get ready for ${title}.` },
+        { title: `${title}: Execute`, description: `Do the core work of ${title}.` },
+        { title: `${title}: Wrap up`, description: `Check and hand over the results of ${title}.` }
+      ]
+    };
+  },
+  rewrite: ({ context }) => {
+    const stage = context.roadmap?.stages.find(s => s.id === context.stageId);
+    const text = (stage?.description || '').trim();
+    return { description: text ? `${text.charAt(0).toUpperCase()}${text.slice(1).replace(/\s+/g, ' ')}` : `Deliver ${stage?.title || 'this stage'}.` };
+  },
+  shorten: ({ context }) => {
+    const stage = context.roadmap?.stages.find(s => s.id === context.stageId);
+    return { description: firstSentence(stage?.description || '') || `Deliver ${stage?.title || 'this stage'}.` };
+  },
+  insert: ({ context }) => {
+    const stages = context.roadmap?.stages || [];
+    const index = stages.findIndex(s => s.id === context.stageId);
+    const next = stages[index + 1];
+    return next
+      ? { title: `Handoff to ${next.title}`, description: `Review the outcome of ${stages[index].title} before ${next.title} starts.` }
+      : { title: 'Retrospective', description: 'Look back on what went well and what to change next time.' };
+  },
+  schedule: ({ context }) => {
+    let start = parseIsoDate(context.today) ?? todayUtc();
+    return {
+      dates: (context.roadmap?.stages || []).map(stage => {
+        const end = start + (MOCK_STAGE_DAYS - 1) * DAY_MS;
+        const dates = { id: stage.id, startDate: formatIsoDate(start), endDate: formatIsoDate(end) };
+        start = end + DAY_MS;
+        return dates;
+      })
+    };
+  },
+  critique: ({ context }) => {
+    const stages = context.roadmap?.stages || [];
+    const points = stages
+      .filter(stage => !stage.description.trim())
+      .map(stage => ({ stageId: stage.id, comment: `'${stage.title || 'Untitled'}' has no description yet; say what done looks like.` }));
+    if (!stages.some(stage => stage.startDate || stage.durationDays)) {
+      points.push({ stageId: '', comment: 'No stage has a date or duration, so nobody can tell when this finishes.' });
+    }
+    if (stages.length < 3) {
+      points.push({ stageId: '', comment: 'With so few stages, each one probably hides several steps worth planning separately.' });
+    }
+    return { points };
+  }
+};
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 30;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+
+/** Streams the canned answer in small pieces, like a real model would. */
+export const mockComplete = async (request: AiRequest, _settings: unknown, { signal, onText }: CompleteOptions): Promise<string> => {
+  const text = JSON.stringify((ANSWERS[request.task] as (request: AiRequest) => unknown)(request));
+  for (let end = CHUNK_SIZE; end < text.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+    await wait(CHUNK_DELAY_MS, signal);
+    onText?.(text.slice(0, end));
+  }
+  return text;
+};
@@ -0,0 +1,155 @@
+import { RoadmapData } from '../types';
+import { CritiquePoint, DateSuggestion, StageDraft } from '../utils/aiRefinements';
+import { JsonSchema, validateJsonSchema } from '../utils/jsonSchema';
+import { readCompleteArrayItems } from '../utils/partialJson';
+import { SchemaError } from '../utils/schema';
+import { parseIsoDate } from '../utils/dates';
+
+/*
+ * Every prompt the app sends, with the JSON Schema its answer must follow.
+ * Schemas are plain JSON Schema with an object at the root, which is the
+ * common ground between Gemini and OpenAI-compatible structured output.
+ */
+
+export type AiTask = 'generate' | 'expand' | 'rewrite' | 'shorten' | 'insert' | 'schedule' | 'critique';
+
+/** What a prompt is built from; the mock provider answers from this instead of the text. */
+export interface AiContext {
+  /** The user's description, for whole-roadmap generation. */
+  idea?: string;
+  roadmap?: RoadmapData;
+  stageId?: string;
+  /** YYYY-MM-DD, so scheduling prompts are reproducible. */
+  today?: string;
+}
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  schema: JsonSchema;
+  context: AiContext;
+}
+
+export interface AiOutputs {
+  generate: { stages: StageDraft[] };
+  expand: { stages: StageDraft[] };
+  rewrite: { description: string };
+  shorten: { description: string };
+  insert: StageDraft;
+  schedule: { dates: DateSuggestion[] };
+  critique: { points: CritiquePoint[] };
+}
+
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false
+});
+
+const STRING: JsonSchema = { type: 'string' };
+const STAGE_DRAFT = object({ title: STRING, description: STRING });
+const STAGE_LIST = object({ stages: { type: 'array', items: STAGE_DRAFT } });
+const DESCRIPTION = object({ description: STRING });
+
+const OUTPUT_SCHEMAS: Record<AiTask, JsonSchema> = {
+  generate: STAGE_LIST,
+  expand: STAGE_LIST,
+  rewrite: DESCRIPTION,
+  shorten: DESCRIPTION,
+  insert: STAGE_DRAFT,
+  schedule: object({ dates: { type: 'array', items: object({ id: STRING, startDate: STRING, endDate: STRING }) } }),
+  critique: object({ points: { type: 'array', items: object({ stageId: STRING, comment: STRING }) } })
+};
+
+// The model sees stages as plain JSON, with the ids it has to refer back to.
+const describeRoadmap = (data?: RoadmapData) =>
+  JSON.stringify({
+    title: data?.title,
+    description: data?.description,
+    stages: (data?.stages || []).map(({ id, title, description, startDate, endDate, durationDays, dependsOn }) => ({
+      id, title, description, startDate, endDate, durationDays, dependsOn
+    }))
+  });
+
+const PROMPTS: Record<AiTask, (context: AiContext) => string> = {
+  generate: ({ idea }) =>
+    `Create a professional project timeline: "${idea}". Return JSON object: {stages: [{title, description}]}.`,
+  expand: ({ roadmap, stageId }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nSplit the stage with id "${stageId}" into 2 to 5 consecutive sub-stages that together cover the same work. Return JSON object: {stages: [{title, description}]}.`,
+  rewrite: ({ roadmap, stageId }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nFor the stage with id "${stageId}": rewrite its description to be clearer and more concrete, keeping the meaning and roughly the length. Return JSON object: {description}.`,
+  shorten: ({ roadmap, stageId }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nFor the stage with id "${stageId}": shorten its description to one or two tight sentences, keeping the essentials. Return JSON object: {description}.`,
+  insert: ({ roadmap, stageId }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nPropose the one stage most clearly missing between the stage with id "${stageId}" and the stage after it. Return JSON object: {title, description}.`,
+  schedule: ({ roadmap, today }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nToday is ${today}. Suggest realistic start and end dates (YYYY-MM-DD) for every stage, in order, respecting dependsOn and keeping any dates already set. Return JSON object: {dates: [{id, startDate, endDate}]}.`,
+  critique: ({ roadmap }) =>
+    `Roadmap: ${describeRoadmap(roadmap)}\nCritique this roadmap as an experienced project lead: gaps, risky ordering, vague stages, unrealistic scope. Give 3 to 8 specific points. Use the stage id a point is about, or an empty string for the roadmap as a whole. Return JSON object: {points: [{stageId, comment}]}.`
+};
+
+export const buildAiRequest = (task: AiTask, context: AiContext): AiRequest => ({
+  task,
+  prompt: PROMPTS[task](context),
+  schema: OUTPUT_SCHEMAS[task],
+  context
+});
+
+/** The same request again, told what was wrong with the last answer. */
+export const buildRetryRequest = (request: AiRequest, errors: SchemaError[]): AiRequest => ({
+  ...request,
+  prompt: `${PROMPTS[request.task](request.context)}\nYour previous answer was rejected: ${errors
+    .slice(0, 5)
+    .map(error => `${error.path} ${error.message}`)
+    .join('; ')}. Answer again with JSON that follows the schema exactly.`
+});
+
+export interface AiOutputResult<T extends AiTask> {
+  /** The answer, or null when it failed validation. */
+  data: AiOutputs[T] | null;
+  errors: SchemaError[];
+}
+
+const blank = (value: string) => value.trim() === '';
+
+const checkStageList = (stages: StageDraft[]): SchemaError[] =>
+  stages.length === 0
+    ? [{ path: 'stages', message: 'expected at least one stage' }]
+    : stages.flatMap((stage, i) => (blank(stage.title) ? [{ path: `stages[${i}].title`, message: 'must not be empty' }] : []));
+
+// Rules the schema cannot express, per task. Anything these reject is retried.
+const CHECKS: { [T in AiTask]?: (output: AiOutputs[T]) => SchemaError[] } = {
+  generate: ({ stages }) => checkStageList(stages),
+  expand: ({ stages }) => checkStageList(stages),
+  rewrite: ({ description }) => (blank(description) ? [{ path: 'description', message: 'must not be empty' }] : []),
+  shorten: ({ description }) => (blank(description) ? [{ path: 'description', message: 'must not be empty' }] : []),
+  insert: ({ title }) => (blank(title) ? [{ path: 'title', message: 'must not be empty' }] : []),
+  schedule: ({ dates }) =>
+    dates.flatMap((date, i) =>
+      (['startDate', 'endDate'] as const)
+        .filter(key => parseIsoDate(date[key]) === null)
+        .map(key => ({ path: `dates[${i}].${key}`, message: 'expected a YYYY-MM-DD date' }))
+    )
+};
+
+/** Parses and validates a model's answer, so a bad one never reaches the roadmap. */
+export const parseAiOutput = <T extends AiTask>(task: T, text: string): AiOutputResult<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { data: null, errors: [{ path: '(root)', message: text.trim() ? 'is not valid JSON' : 'is empty' }] };
+  }
+  const schemaErrors = validateJsonSchema(value, OUTPUT_SCHEMAS[task]);
+  if (schemaErrors.length > 0) return { data: null, errors: schemaErrors };
+  const output = value as AiOutputs[T];
+  const errors = (CHECKS[task] as ((output: AiOutputs[T]) => SchemaError[]) | undefined)?.(output) || [];
+  return errors.length > 0 ? { data: null, errors } : { data: output, errors: [] };
+};
+
+/** Stages that have fully arrived in a generation answer still being streamed. */
+export const readStreamedStages = (text: string): StageDraft[] =>
+  readCompleteArrayItems(text, 'stages').filter(
+    (item): item is StageDraft => validateJsonSchema(item, STAGE_DRAFT).length === 0 && !blank((item as StageDraft).title)
+  );
@@ -0,0 +1,158 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiContext, AiOutputs, AiRequest, AiTask, buildAiRequest, buildRetryRequest, parseAiOutput } from './aiPrompts';
+import { mockComplete } from './aiMock';
+import { SchemaError, formatSchemaError } from '../utils/schema';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  /** Only used by OpenAI-compatible endpoints, e.g. a local LLM server. */
+  baseUrl: string;
+  /** Empty uses the key the app was built with, if any. */
+  apiKey: string;
+}
+
+export interface CompleteOptions {
+  signal?: AbortSignal;
+  /** Called with everything received so far, as the answer streams in. */
+  onText?: (text: string) => void;
+}
+
+export interface AiProvider {
+  label: string;
+  hint: string;
+  defaultModel: string;
+  usesBaseUrl: boolean;
+  usesApiKey: boolean;
+  /** Streams the request's answer and resolves with the model's raw JSON text. */
+  complete: (request: AiRequest, settings: AiSettings, options: CompleteOptions) => Promise<string>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const completeWithGemini = async (request: AiRequest, settings: AiSettings, { signal, onText }: CompleteOptions) => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+  const stream = await ai.models.generateContentStream({
+    model: settings.model,
+    contents: request.prompt,
+    config: { responseMimeType: 'application/json', responseJsonSchema: request.schema, abortSignal: signal }
+  });
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.text || '';
+    onText?.(text);
+  }
+  return text;
+};
+
+// Server-sent events: one `data: {json}` line per chunk, ending with `data: [DONE]`.
+const readEventStream = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    lines
+      .map(line => line.trim())
+      .filter(line => line.startsWith('data:') && line !== 'data: [DONE]')
+      .forEach(line => onData(line.slice(5).trim()));
+    if (done) return;
+  }
+};
+
+const completeWithOpenAi = async (request: AiRequest, settings: AiSettings, { signal, onText }: CompleteOptions) => {
+  const response = await fetch(`${(settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [
+        { role: 'system', content: 'You plan projects. Answer with JSON only.' },
+        { role: 'user', content: request.prompt }
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.schema, strict: true } },
+      stream: true
+    }),
+    signal
+  });
+  if (!response.ok || !response.body) throw new Error(`The AI server answered ${response.status} ${response.statusText}`.trim());
+  let text = '';
+  await readEventStream(response.body, data => {
+    try {
+      text += JSON.parse(data)?.choices?.[0]?.delta?.content || '';
+    } catch {
+      return;
+    }
+    onText?.(text);
+  });
+  return text;
+};
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: {
+    label: 'Google Gemini',
+    hint: 'Hosted by Google; needs an API key',
+    defaultModel: 'gemini-3-flash-preview',
+    usesBaseUrl: false,
+    usesApiKey: true,
+    complete: completeWithGemini
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    hint: 'OpenAI, or a local server such as Ollama or LM Studio',
+    defaultModel: 'llama3.1',
+    usesBaseUrl: true,
+    usesApiKey: true,
+    complete: completeWithOpenAi
+  },
+  mock: {
+    label: 'Offline demo',
+    hint: 'Canned, repeatable answers; no network',
+    defaultModel: 'mock',
+    usesBaseUrl: false,
+    usesApiKey: false,
+    complete: mockComplete
+  }
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: AI_PROVIDERS.gemini.defaultModel,
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: ''
+};
+
+const MAX_ATTEMPTS = 3;
+
+export interface GenerateOptions extends CompleteOptions {
+  /** Called before asking again after an answer failed validation. */
+  onRetry?: (attempt: number, errors: SchemaError[]) => void;
+}
+
+/**
+ * Runs one prompt on the chosen provider and validates the answer. Malformed
+ * answers are retried with the errors spelled out; network failures and
+ * cancellation are not.
+ */
+export const generateJson = async <T extends AiTask>(settings: AiSettings, task: T, context: AiContext, options: GenerateOptions = {}): Promise<AiOutputs[T]> => {
+  const provider = AI_PROVIDERS[settings.provider];
+  const resolved = { ...settings, model: settings.model.trim() || provider.defaultModel };
+  let request = buildAiRequest(task, context);
+  let errors: SchemaError[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) options.onRetry?.(attempt, errors);
+    const result = parseAiOutput(task, await provider.complete(request, resolved, options));
+    if (result.data) return result.data;
+    errors = result.errors;
+    request = buildRetryRequest(request, errors);
+  }
+  throw new Error(`The AI gave an unusable answer ${MAX_ATTEMPTS} times. Last problem: ${formatSchemaError(errors[0])}.`);
+};
@@ -0,0 +1,76 @@
+import { RoadmapData } from '../types';
+import { addCritique, applyDateSuggestions, expandStage, insertStageAfter, setStageDescription } from '../utils/aiRefinements';
+import { formatIsoDate, todayUtc } from '../utils/dates';
+import { AiTask } from './aiPrompts';
+import { AiSettings, GenerateOptions, generateJson } from './aiProviders';
+
+export type RefinementKind = Exclude<AiTask, 'generate'>;
+
+export interface RefinementAction {
+  kind: RefinementKind;
+  label: string;
+  hint: string;
+  /** Stage actions work on one stage; the others on the whole roadmap. */
+  scope: 'stage' | 'roadmap';
+}
+
+export const REFINEMENT_ACTIONS: RefinementAction[] = [
+  { kind: 'expand', label: 'Expand into sub-stages', hint: 'Split this stage into smaller steps', scope: 'stage' },
+  { kind: 'rewrite', label: 'Rewrite description', hint: 'Clearer wording, same meaning', scope: 'stage' },
+  { kind: 'shorten', label: 'Shorten description', hint: 'One or two tight sentences', scope: 'stage' },
+  { kind: 'insert', label: 'Insert stage after', hint: 'Fill a missing step before the next stage', scope: 'stage' },
+  { kind: 'schedule', label: 'Suggest dates', hint: 'Start and end dates for every stage', scope: 'roadmap' },
+  { kind: 'critique', label: 'Critique roadmap', hint: 'Review notes filed as comments', scope: 'roadmap' }
+];
+
+/**
+ * A suggested change, not yet applied. `apply` runs against whatever the
+ * roadmap is when the suggestion is accepted, so edits made meanwhile survive.
+ */
+export interface RefinementProposal {
+  kind: RefinementKind;
+  /** History label once accepted. */
+  label: string;
+  apply: (data: RoadmapData) => RoadmapData;
+}
+
+const stageTitle = (data: RoadmapData, stageId: string) => data.stages.find(s => s.id === stageId)?.title || 'Untitled';
+
+/** Asks the model for one refinement and wraps the answer as a proposal. */
+export const requestRefinement = async (
+  settings: AiSettings,
+  data: RoadmapData,
+  kind: RefinementKind,
+  stageId?: string,
+  options?: GenerateOptions
+): Promise<RefinementProposal> => {
+  const context = { roadmap: data, stageId, today: formatIsoDate(todayUtc()) };
+  const title = stageId ? stageTitle(data, stageId) : '';
+
+  if (kind === 'expand') {
+    const { stages } = await generateJson(settings, kind, context, options);
+    return { kind, label: `AI expanded '${title}' into ${stages.length} stages`, apply: next => expandStage(next, stageId!, stages) };
+  }
+
+  if (kind === 'rewrite' || kind === 'shorten') {
+    const { description } = await generateJson(settings, kind, context, options);
+    return {
+      kind,
+      label: `AI ${kind === 'rewrite' ? 'rewrote' : 'shortened'} the description of '${title}'`,
+      apply: next => setStageDescription(next, stageId!, description)
+    };
+  }
+
+  if (kind === 'insert') {
+    const draft = await generateJson(settings, kind, context, options);
+    return { kind, label: `AI inserted '${draft.title}' after '${title}'`, apply: next => insertStageAfter(next, stageId!, draft) };
+  }
+
+  if (kind === 'schedule') {
+    const { dates } = await generateJson(settings, kind, context, options);
+    return { kind, label: 'AI suggested stage dates', apply: next => applyDateSuggestions(next, dates) };
+  }
+
+  const { points } = await generateJson(settings, kind, context, options);
+  return { kind, label: `AI critique: ${points.length} review ${points.length === 1 ? 'comment' : 'comments'}`, apply: next => addCritique(next, points) };
+};
@@ -0,0 +1,129 @@
+import { RoadmapOp, isRoadmapOp } from '../utils/roadmapCrdt';
+import { isObject } from '../utils/schema';
+
+/*
+ * WebSocket client for the sync server in `server/syncServer.mjs`. The server
+ * only relays and stores operations; merging happens in `utils/roadmapCrdt`.
+ */
+
+export interface Peer {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface PeerPresence extends Peer {
+  /** The stage card the peer is editing, if any. */
+  presence: { stageId: string | null } | null;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface SyncHandlers {
+  /** The room's whole operation log; sent on every (re)connect. */
+  onWelcome: (ops: RoadmapOp[]) => void;
+  onOps: (ops: RoadmapOp[], fromPeerId: string) => void;
+  onPeers: (peers: PeerPresence[]) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface SyncConnection {
+  sendOps: (ops: RoadmapOp[]) => void;
+  setPresence: (stageId: string | null) => void;
+  close: () => void;
+}
+
+export const DEFAULT_SYNC_URL = 'ws://localhost:1234';
+const RECONNECT_DELAY_MS = 2000;
+
+export const PEER_COLORS = ['#f43f5e', '#0ea5e9', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export const stampKey = (op: RoadmapOp) => `${op.stamp.clock}@${op.stamp.client}`;
+
+// The server relays whatever clients send, so messages are checked like any other untrusted input.
+const readOps = (value: unknown): RoadmapOp[] => (Array.isArray(value) ? value.filter(isRoadmapOp) : []);
+
+const isPeerPresence = (value: unknown): value is PeerPresence =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.color === 'string' &&
+  (value.presence === null || (isObject(value.presence) && (value.presence.stageId === null || typeof value.presence.stageId === 'string')));
+
+/**
+ * Joins a room and keeps the connection alive, reconnecting after drops.
+ * Operations sent while offline are dropped; callers resend whatever the
+ * welcome log is missing.
+ */
+export const connectToRoom = (url: string, room: string, peer: Peer, handlers: SyncHandlers): SyncConnection => {
+  let socket: WebSocket | null = null;
+  let isClosed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let presence: string | null = null;
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const open = () => {
+    handlers.onStatus('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      handlers.onStatus('disconnected');
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      send({ type: 'join', room, peer });
+      send({ type: 'presence', presence: { stageId: presence } });
+    };
+    ws.onmessage = (event) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (!isObject(message)) return;
+      if (message.type === 'welcome') {
+        handlers.onStatus('connected');
+        handlers.onWelcome(readOps(message.ops));
+      } else if (message.type === 'ops' && typeof message.from === 'string') {
+        handlers.onOps(readOps(message.ops), message.from);
+      } else if (message.type === 'peers') {
+        handlers.onPeers(Array.isArray(message.peers) ? message.peers.filter(isPeerPresence) : []);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      handlers.onStatus('disconnected');
+      handlers.onPeers([]);
+      if (!isClosed) retryTimer = setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    sendOps: (ops) => {
+      if (ops.length > 0) send({ type: 'ops', ops });
+    },
+    setPresence: (stageId) => {
+      presence = stageId;
+      send({ type: 'presence', presence: { stageId } });
+    },
+    close: () => {
+      isClosed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      handlers.onStatus('disconnected');
+      handlers.onPeers([]);
+    }
+  };
+};
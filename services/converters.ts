@@ -0,0 +1,154 @@
+import { RoadmapData } from '../types';
+import { RoadmapParseResult, parseRoadmap } from '../utils/schema';
+import { parseJson } from '../utils/jsonParser';
+import { parseRoadmapMarkdown, roadmapToMarkdown } from '../utils/markdown';
+import { stagesToCsv } from '../utils/csv';
+import { parseMsProject, roadmapToMsProject } from '../utils/msProject';
+import { parseMilestones, roadmapToMilestones } from '../utils/milestones';
+import { parseICalendar, roadmapToICalendar } from '../utils/icalendar';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions, downloadBlob, renderExport, toFileSlug } from './exporter';
+
+export interface RoadmapConverter {
+  /** Unique key; image converters use their `ExportFormat`. */
+  id: string;
+  label: string;
+  hint: string;
+  /** Images are rendered from the timeline; data formats carry the roadmap itself. */
+  kind: 'image' | 'data';
+  extension: string;
+  mimeType: string;
+  /** Builds the file. Image converters use the render options; data converters ignore them. */
+  write?: (data: RoadmapData, options: ExportOptions) => string | Blob | Promise<Blob>;
+  /** Builds a roadmap from file contents, keeping whatever the format lacks from `base`. */
+  read?: (text: string, base: RoadmapData) => RoadmapParseResult;
+}
+
+const converters = new Map<string, RoadmapConverter>();
+
+/** Adds a format to every import and export entry point. Registering an existing id replaces it. */
+export const registerConverter = (converter: RoadmapConverter) => {
+  converters.set(converter.id, converter);
+};
+
+export const getConverter = (id: string) => converters.get(id);
+
+export const listConverters = (capability?: 'import' | 'export') =>
+  [...converters.values()].filter(c => !capability || (capability === 'import' ? !!c.read : !!c.write));
+
+/** Converters that read files with this name's extension, in registration order. */
+export const findConvertersForFile = (fileName: string) => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return listConverters('import').filter(c => c.extension === extension);
+};
+
+/** Writes the roadmap with the given converter and downloads the result. */
+export const exportAs = async (id: string, data: RoadmapData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS) => {
+  const converter = converters.get(id);
+  if (!converter?.write) throw new Error(`Exporting to '${id}' is not supported.`);
+  const output = await converter.write(data, options);
+  const blob = typeof output === 'string' ? new Blob([output], { type: converter.mimeType }) : output;
+  downloadBlob(blob, `${toFileSlug(data.title)}.${converter.extension}`);
+};
+
+/**
+ * Reads a file with the converters matching its extension. Formats can share
+ * one (roadmap and milestones JSON), so the first that understands it wins;
+ * if none does, the first one's errors are reported.
+ */
+export const importFile = async (file: File, base: RoadmapData): Promise<{ converter: RoadmapConverter; result: RoadmapParseResult }> => {
+  const candidates = findConvertersForFile(file.name);
+  if (candidates.length === 0) throw new Error(`'${file.name}' is not a format that can be imported.`);
+  const text = await file.text();
+  const attempts = candidates.map(converter => ({ converter, result: converter.read!(text, base) }));
+  return attempts.find(attempt => attempt.result.data) || attempts[0];
+};
+
+const IMAGE_FORMATS: { format: ExportFormat; label: string; hint: string; mimeType: string }[] = [
+  { format: 'png', label: 'PNG', hint: 'Lossless image', mimeType: 'image/png' },
+  { format: 'jpg', label: 'JPG', hint: 'Smaller image', mimeType: 'image/jpeg' },
+  { format: 'pdf', label: 'PDF', hint: 'Paged document', mimeType: 'application/pdf' },
+  { format: 'svg', label: 'SVG', hint: 'Scalable vector', mimeType: 'image/svg+xml' }
+];
+
+IMAGE_FORMATS.forEach(({ format, label, hint, mimeType }) =>
+  registerConverter({
+    id: format,
+    label,
+    hint,
+    kind: 'image',
+    extension: format,
+    mimeType,
+    write: (data, options) => renderExport({ ...options, format }, data.title)
+  })
+);
+
+const readRoadmapJson = (text: string): RoadmapParseResult => {
+  const parsed = parseJson(text);
+  if (parsed.error) return { data: null, errors: [{ path: `line ${parsed.error.line}`, message: parsed.error.message }] };
+  return parseRoadmap(parsed.value);
+};
+
+registerConverter({
+  id: 'json',
+  label: 'Roadmap JSON',
+  hint: 'The whole document, for backups',
+  kind: 'data',
+  extension: 'json',
+  mimeType: 'application/json',
+  write: data => JSON.stringify(data, null, 2),
+  read: readRoadmapJson
+});
+
+registerConverter({
+  id: 'markdown',
+  label: 'Markdown',
+  hint: 'Planning notes',
+  kind: 'data',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  write: roadmapToMarkdown,
+  read: parseRoadmapMarkdown
+});
+
+registerConverter({
+  id: 'csv',
+  label: 'CSV',
+  hint: 'Spreadsheet of stages',
+  kind: 'data',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  write: data => stagesToCsv(data.stages)
+});
+
+registerConverter({
+  id: 'ms-project',
+  label: 'MS Project',
+  hint: 'Project XML for Gantt tools',
+  kind: 'data',
+  extension: 'xml',
+  mimeType: 'application/xml',
+  write: roadmapToMsProject,
+  read: parseMsProject
+});
+
+registerConverter({
+  id: 'milestones',
+  label: 'Milestones',
+  hint: 'GitHub / GitLab milestones JSON',
+  kind: 'data',
+  extension: 'json',
+  mimeType: 'application/json',
+  write: roadmapToMilestones,
+  read: parseMilestones
+});
+
+registerConverter({
+  id: 'icalendar',
+  label: 'iCalendar',
+  hint: 'One event per dated stage',
+  kind: 'data',
+  extension: 'ics',
+  mimeType: 'text/calendar;charset=utf-8',
+  write: data => roadmapToICalendar(data),
+  read: parseICalendar
+});
@@ -0,0 +1,253 @@
+import { buildImagePdf, PdfImagePage } from '../utils/pdf';
+
+export type ExportFormat = 'svg' | 'png' | 'jpg' | 'pdf';
+export type PdfPageSize = 'a4' | 'letter';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Raster scale relative to the SVG's own size; 1x is 96 DPI. */
+  scale: number;
+  /** Drop the white backdrop. Ignored for JPG and PDF, which have no alpha. */
+  transparent: boolean;
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  scale: 2,
+  transparent: false,
+  pageSize: 'a4',
+  orientation: 'landscape'
+};
+
+export const EXPORT_SCALES = [1, 2, 3, 4];
+export const CSS_DPI = 96;
+
+const SVG_ELEMENT_ID = 'roadmap-svg-export';
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = { a4: [595.28, 841.89], letter: [612, 792] };
+const PDF_MARGIN = 36;
+// Conservative canvas limits that every major browser can allocate.
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+export const toFileSlug = (title: string) => title.toLowerCase().replace(/\s+/g, '-') || 'roadmap';
+
+export const supportsTransparency = (format: ExportFormat) => format === 'png' || format === 'svg';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const embeddedFonts = new Map<string, Promise<{ family: string; css: string }[]>>();
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadFontFaces = async (hrefs: string[]) => {
+  const sheets = await Promise.all(hrefs.map(href => fetch(href).then(r => r.text())));
+  const faces = sheets.join('\n').match(/(?:\/\*\s*[\w-]+\s*\*\/\s*)?@font-face\s*{[^}]*}/g) || [];
+  const latin = faces.filter(face => !face.startsWith('/*') || /\/\*\s*latin(?:-ext)?\s*\*\//.test(face));
+
+  const cache = new Map<string, Promise<string>>();
+  const inline = (url: string) => {
+    if (!cache.has(url)) cache.set(url, fetch(url).then(r => r.blob()).then(blobToDataUrl));
+    return cache.get(url) as Promise<string>;
+  };
+
+  return Promise.all(latin.map(async face => {
+    const urls = [...face.matchAll(/url\(([^)]+)\)/g)].map(m => m[1].replace(/['"]/g, ''));
+    let css = face.replace(/^\/\*[^*]*\*\/\s*/, '');
+    for (const url of urls) css = css.replace(url, await inline(url));
+    const family = (css.match(/font-family:\s*['"]?([^'";]+)/) || [])[1] || '';
+    return { family, css };
+  }));
+};
+
+/**
+ * Inlines the web fonts used in the export as data URLs. An SVG drawn into a
+ * canvas cannot load external resources, so without this every browser
+ * substitutes its own fallback font and the measured card text no longer fits.
+ * Only Latin subsets are embedded to keep files small.
+ */
+const getEmbeddedFontCss = async (families: Set<string>) => {
+  const hrefs = Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href*="fonts.googleapis.com"]')).map(link => link.href);
+  const key = hrefs.join('|');
+  if (!embeddedFonts.has(key)) {
+    embeddedFonts.set(key, loadFontFaces(hrefs).catch(err => {
+      console.warn('Font embedding failed, exports will use fallback fonts:', err);
+      embeddedFonts.delete(key);
+      return [];
+    }));
+  }
+  const faces = await embeddedFonts.get(key);
+  return faces.filter(face => families.has(face.family)).map(face => face.css).join('\n');
+};
+
+// Font families referenced by inline styles in the drawing.
+const collectFontFamilies = (svg: SVGSVGElement) => {
+  const families = new Set<string>(['Inter']);
+  svg.querySelectorAll<SVGElement>('[style]').forEach(el => {
+    el.style.fontFamily.split(',').forEach(name => families.add(name.trim().replace(/^['"]|['"]$/g, '')));
+  });
+  return families;
+};
+
+/**
+ * Clones the live timeline into a self-contained SVG: editing-only elements
+ * are removed, export-only twins are shown and fonts are embedded.
+ */
+export const buildExportSvg = async (transparent: boolean): Promise<SVGSVGElement | null> => {
+  const svgElement = document.getElementById(SVG_ELEMENT_ID);
+  if (!svgElement) return null;
+
+  await document.fonts?.ready;
+  const clonedSvg = svgElement.cloneNode(true) as SVGSVGElement;
+  clonedSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clonedSvg.removeAttribute('style');
+
+  clonedSvg.querySelectorAll('.svg-export-only').forEach(el => {
+    (el as SVGElement).style.display = 'block';
+  });
+  clonedSvg.querySelectorAll('.no-export').forEach(el => el.remove());
+  if (transparent) {
+    clonedSvg.querySelectorAll('.export-background').forEach(el => el.remove());
+  }
+
+  const styleElement = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+  styleElement.textContent = `
+    ${await getEmbeddedFontCss(collectFontFamilies(clonedSvg))}
+    text { font-family: 'Inter', sans-serif; }
+    .svg-export-only { display: block !important; }
+  `;
+  clonedSvg.prepend(styleElement);
+
+  return clonedSvg;
+};
+
+const getSvgSize = (svg: SVGSVGElement) => ({
+  width: parseFloat(svg.getAttribute('width') || '2000'),
+  height: parseFloat(svg.getAttribute('height') || '2000')
+});
+
+const loadSvgImage = (svg: SVGSVGElement) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const source = new XMLSerializer().serializeToString(svg);
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The roadmap image could not be rendered.'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+  });
+
+/** Largest scale not above `requested` that fits the canvas limits. */
+export const clampScale = (width: number, height: number, requested: number) => {
+  const bySide = MAX_CANVAS_SIDE / Math.max(width, height);
+  const byArea = Math.sqrt(MAX_CANVAS_AREA / (width * height));
+  return Math.min(requested, bySide, byArea);
+};
+
+const renderRegion = (
+  img: HTMLImageElement,
+  region: { y: number; width: number; height: number },
+  scale: number,
+  background: string | null
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(region.width * scale);
+  canvas.height = Math.round(region.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not available in this browser.');
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, 0, -region.y);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))), type, quality);
+  });
+
+/**
+ * Splits the drawing into page-height slices, preferring the row gaps the
+ * timeline advertises so cards are not cut in half.
+ */
+export const paginate = (totalHeight: number, pageHeight: number, breaks: number[]) => {
+  const slices: { y: number; height: number }[] = [];
+  let top = 0;
+  while (top < totalHeight - 0.5) {
+    const limit = top + pageHeight;
+    if (limit >= totalHeight) {
+      slices.push({ y: top, height: totalHeight - top });
+      break;
+    }
+    const cut = breaks.filter(b => b > top && b <= limit).pop() ?? limit;
+    slices.push({ y: top, height: cut - top });
+    top = cut;
+  }
+  return slices;
+};
+
+const exportPdf = async (svg: SVGSVGElement, options: ExportOptions, title: string) => {
+  const img = await loadSvgImage(svg);
+  const size = getSvgSize(svg);
+  const [shortSide, longSide] = PAGE_SIZES[options.pageSize];
+  const [pageWidth, pageHeight] = options.orientation === 'portrait' ? [shortSide, longSide] : [longSide, shortSide];
+
+  const pointsPerUnit = (pageWidth - PDF_MARGIN * 2) / size.width;
+  const unitsPerPage = (pageHeight - PDF_MARGIN * 2) / pointsPerUnit;
+  const breaks = (svg.getAttribute('data-page-breaks') || '').split(',').filter(Boolean).map(Number);
+  const scale = clampScale(size.width, unitsPerPage, options.scale);
+
+  const pages: PdfImagePage[] = [];
+  for (const slice of paginate(size.height, unitsPerPage, breaks)) {
+    const canvas = renderRegion(img, { y: slice.y, width: size.width, height: slice.height }, scale, '#ffffff');
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+    pages.push({
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      x: PDF_MARGIN,
+      y: PDF_MARGIN,
+      width: size.width * pointsPerUnit,
+      height: slice.height * pointsPerUnit
+    });
+  }
+
+  return buildImagePdf(pages, { title, pageWidth, pageHeight });
+};
+
+/** Renders the current timeline in the requested format. */
+export const renderExport = async (options: ExportOptions, title: string): Promise<Blob> => {
+  const transparent = options.transparent && supportsTransparency(options.format);
+  const svg = await buildExportSvg(transparent);
+  if (!svg) throw new Error('There is no roadmap to export yet.');
+
+  if (options.format === 'svg') {
+    return new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml;charset=utf-8' });
+  }
+  if (options.format === 'pdf') {
+    return exportPdf(svg, options, title);
+  }
+
+  const img = await loadSvgImage(svg);
+  const size = getSvgSize(svg);
+  const scale = clampScale(size.width, size.height, options.scale);
+  const canvas = renderRegion(img, { y: 0, ...size }, scale, transparent ? null : '#ffffff');
+  return options.format === 'png' ? canvasToBlob(canvas, 'image/png') : canvasToBlob(canvas, 'image/jpeg', 0.92);
+};
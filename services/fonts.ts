@@ -0,0 +1,22 @@
+// Weights used by the roadmap visual; every font in FONT_OPTIONS provides them.
+const FONT_WEIGHTS = '400;500;600;700;900';
+
+/** CSS font-family value with a generic fallback. */
+export const fontStack = (family: string) => `'${family}', sans-serif`;
+
+/**
+ * Adds the Google Fonts stylesheet for a family unless the page already has it.
+ * Unknown families are requested too; Google answers with an error and the
+ * browser falls back to the generic family.
+ */
+export const ensureFontLoaded = (family: string) => {
+  const param = family.trim().replace(/\s+/g, '+');
+  const alreadyLoaded = Array.from(document.querySelectorAll<HTMLLinkElement>('link[href*="fonts.googleapis.com/css2"]'))
+    .some(link => new URL(link.href).searchParams.getAll('family').some(f => f.split(':')[0] === family.trim()));
+  if (!param || alreadyLoaded) return;
+
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = `https://fonts.googleapis.com/css2?family=${param}:wght@${FONT_WEIGHTS}&display=swap`;
+  document.head.appendChild(link);
+};
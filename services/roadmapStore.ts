@@ -0,0 +1,168 @@
+import { RoadmapData, SavedRoadmap } from '../types';
+import { DEFAULT_ROADMAP } from '../constants';
+import { parseRoadmap } from '../utils/schema';
+
+/**
+ * Persistence boundary for the roadmap library. Components talk to this
+ * interface only, so the backing storage can change without touching the UI.
+ */
+export interface RoadmapStore {
+  list(): Promise<SavedRoadmap[]>;
+  get(id: string): Promise<SavedRoadmap | null>;
+  put(roadmap: SavedRoadmap): Promise<void>;
+  remove(id: string): Promise<void>;
+  getActiveId(): Promise<string | null>;
+  setActiveId(id: string): Promise<void>;
+}
+
+const DB_NAME = 'roadmap_visionary';
+const DB_VERSION = 1;
+const ROADMAPS_STORE = 'roadmaps';
+const META_STORE = 'meta';
+const ACTIVE_ID_KEY = 'activeId';
+
+// Single-slot key used before the library existed; imported once on first run.
+const LEGACY_STORAGE_KEY = 'roadmap_visionary_data_v2';
+const FALLBACK_STORAGE_KEY = 'roadmap_visionary_library_v1';
+
+export const createRoadmapId = () => Math.random().toString(36).substr(2, 9);
+
+export const createSavedRoadmap = (data: RoadmapData, name = data.title): SavedRoadmap => {
+  const now = Date.now();
+  return {
+    id: createRoadmapId(),
+    name: name.trim() || 'Untitled Roadmap',
+    data: JSON.parse(JSON.stringify(data)),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+const parseLegacyRoadmap = (raw: string): RoadmapData | null => {
+  try {
+    return parseRoadmap(JSON.parse(raw)).data;
+  } catch (e) {
+    return null;
+  }
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ROADMAPS_STORE)) {
+        db.createObjectStore(ROADMAPS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStore = (database?: Promise<IDBDatabase>): RoadmapStore => {
+  let dbPromise: Promise<IDBDatabase> | null = database ?? null;
+  const db = () => (dbPromise ??= openDatabase());
+
+  const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const transaction = (await db()).transaction(storeName, mode);
+    return promisify(action(transaction.objectStore(storeName)));
+  };
+
+  return {
+    list: () => run<SavedRoadmap[]>(ROADMAPS_STORE, 'readonly', store => store.getAll()),
+    get: async (id) => (await run<SavedRoadmap | undefined>(ROADMAPS_STORE, 'readonly', store => store.get(id))) ?? null,
+    put: async (roadmap) => { await run(ROADMAPS_STORE, 'readwrite', store => store.put(roadmap)); },
+    remove: async (id) => { await run(ROADMAPS_STORE, 'readwrite', store => store.delete(id)); },
+    getActiveId: async () => (await run<string | undefined>(META_STORE, 'readonly', store => store.get(ACTIVE_ID_KEY))) ?? null,
+    setActiveId: async (id) => { await run(META_STORE, 'readwrite', store => store.put(id, ACTIVE_ID_KEY)); }
+  };
+};
+
+/** Used where IndexedDB is unavailable or refuses to open (some private browsing modes). */
+export const createLocalStorageStore = (): RoadmapStore => {
+  interface Snapshot { roadmaps: SavedRoadmap[]; activeId: string | null }
+
+  const read = (): Snapshot => {
+    try {
+      const saved = localStorage.getItem(FALLBACK_STORAGE_KEY);
+      if (saved) return JSON.parse(saved);
+    } catch (e) {
+      // Corrupt data is treated as an empty library.
+    }
+    return { roadmaps: [], activeId: null };
+  };
+  const write = (snapshot: Snapshot) => localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(snapshot));
+
+  return {
+    list: async () => read().roadmaps,
+    get: async (id) => read().roadmaps.find(r => r.id === id) ?? null,
+    put: async (roadmap) => {
+      const snapshot = read();
+      const others = snapshot.roadmaps.filter(r => r.id !== roadmap.id);
+      write({ ...snapshot, roadmaps: [...others, roadmap] });
+    },
+    remove: async (id) => {
+      const snapshot = read();
+      write({ ...snapshot, roadmaps: snapshot.roadmaps.filter(r => r.id !== id) });
+    },
+    getActiveId: async () => read().activeId,
+    setActiveId: async (id) => write({ ...read(), activeId: id })
+  };
+};
+
+/**
+ * IndexedDB when it can be opened, localStorage otherwise. Some private
+ * browsing modes expose `indexedDB` but reject every `open()`, so the choice is
+ * made once the database has actually answered.
+ */
+export const createRoadmapStore = (): RoadmapStore => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageStore();
+  let resolved: Promise<RoadmapStore> | null = null;
+  const store = () => (resolved ??= openDatabase().then(
+    db => createIndexedDbStore(Promise.resolve(db)),
+    () => createLocalStorageStore()
+  ));
+
+  return {
+    list: async () => (await store()).list(),
+    get: async (id) => (await store()).get(id),
+    put: async (roadmap) => (await store()).put(roadmap),
+    remove: async (id) => (await store()).remove(id),
+    getActiveId: async () => (await store()).getActiveId(),
+    setActiveId: async (id) => (await store()).setActiveId(id)
+  };
+};
+
+/**
+ * Seeds an empty library with the roadmap saved by the single-slot version of
+ * the app, or with the default roadmap when there is nothing to import.
+ */
+export const ensureLibraryInitialized = async (store: RoadmapStore): Promise<SavedRoadmap[]> => {
+  const existing = await store.list();
+  if (existing.length > 0) return existing;
+
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  const seed = createSavedRoadmap((legacy && parseLegacyRoadmap(legacy)) || DEFAULT_ROADMAP);
+  await store.put(seed);
+  await store.setActiveId(seed.id);
+  if (legacy) localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return [seed];
+};
+
+/** Saves a copy of `data` as a new roadmap and makes it the one opened next. */
+export const addToLibrary = async (store: RoadmapStore, data: RoadmapData, name?: string): Promise<SavedRoadmap> => {
+  await ensureLibraryInitialized(store);
+  const roadmap = createSavedRoadmap(data, name);
+  await store.put(roadmap);
+  await store.setActiveId(roadmap.id);
+  return roadmap;
+};
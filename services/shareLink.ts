@@ -0,0 +1,88 @@
+import { RoadmapData } from '../types';
+import { RoadmapParseResult, parseRoadmap } from '../utils/schema';
+
+/*
+ * Share links carry the whole roadmap in the URL fragment, which browsers
+ * never send to a server. The payload is deflated JSON in base64url, tagged
+ * with a one-character codec so links made without compression still open.
+ */
+
+export const SHARE_ROUTE_PREFIX = '#/view/';
+
+const DEFLATED = 'z';
+const PLAIN = 'j';
+// Some chat apps and mail clients cut off links longer than this.
+export const LONG_LINK_LENGTH = 8000;
+
+// Chromium 80-102 has the streams but not the 'deflate-raw' format, and throws when asked for it.
+const canCompress = () => {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') return false;
+  try {
+    new CompressionStream('deflate-raw');
+    new DecompressionStream('deflate-raw');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeRoadmap = async (data: RoadmapData): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(data));
+  if (!canCompress()) return PLAIN + toBase64Url(json);
+  return DEFLATED + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+/** Decodes a share payload and validates it like any other roadmap source. */
+export const decodeRoadmap = async (payload: string): Promise<RoadmapParseResult> => {
+  const invalid = (message: string): RoadmapParseResult => ({ data: null, errors: [{ path: 'link', message }] });
+  const codec = payload[0];
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload.slice(1));
+  } catch {
+    return invalid('the link is incomplete or damaged');
+  }
+
+  let json: string;
+  try {
+    if (codec === DEFLATED) {
+      if (!canCompress()) return invalid('this browser cannot open compressed links');
+      json = new TextDecoder().decode(await pipeBytes(bytes, new DecompressionStream('deflate-raw')));
+    } else if (codec === PLAIN) {
+      json = new TextDecoder().decode(bytes);
+    } else {
+      return invalid('the link was made by an unknown version of the app');
+    }
+  } catch {
+    return invalid('the link is incomplete or damaged');
+  }
+
+  try {
+    return parseRoadmap(JSON.parse(json));
+  } catch {
+    return invalid('the link is incomplete or damaged');
+  }
+};
+
+export const buildShareUrl = async (data: RoadmapData) => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${SHARE_ROUTE_PREFIX}${await encodeRoadmap(data)}`;
+};
+
+/** The share payload in a location hash, or null when the hash is not a share link. */
+export const getSharePayload = (hash: string) =>
+  hash.startsWith(SHARE_ROUTE_PREFIX) ? hash.slice(SHARE_ROUTE_PREFIX.length) : null;
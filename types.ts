@@ -1,18 +1,174 @@
+export interface StageTask {
+  id: string;
+  title: string;
+  done: boolean;
+  owner?: string;
+  /** ISO calendar date (YYYY-MM-DD) the task is due. */
+  dueDate?: string;
+}
+
+export type StageStatus = 'not-started' | 'in-progress' | 'blocked' | 'done';
 
 export interface ProjectStage {
   id: string;
   title: string;
   description: string;
   color: string;
+  /** ISO calendar date (YYYY-MM-DD) the stage begins. */
+  startDate?: string;
+  /** ISO calendar date (YYYY-MM-DD) the stage ends, inclusive. */
+  endDate?: string;
+  /** Length in days, used when only one of the dates is known. */
+  durationDays?: number;
+  /** Ids of stages that must finish before this one can start. */
+  dependsOn?: string[];
+  /** Which side of the road the card sits on; alternates when unset. */
+  placement?: PathType;
+  /** Checklist of the work in this stage; drives its progress. */
+  tasks?: StageTask[];
+  status?: StageStatus;
+  /** People responsible for the stage. */
+  assignees?: string[];
+  /** Lane the stage runs in; the first lane when unset. */
+  laneId?: string;
+}
+
+/** A parallel track of work, such as design or marketing, drawn as its own road. */
+export interface RoadmapLane {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** A point on the road: part way along the stretch leading up to a stage. */
+export interface RoadPosition {
+  stageId: string;
+  /** 0 at the previous pin (or the road start), 1 at the stage's own pin. */
+  offset: number;
+}
+
+/**
+ * One comment in a review thread. Threads are flat: the opening comment
+ * carries the anchor and resolved state, replies point back at it.
+ */
+export interface RoadmapComment {
+  id: string;
+  /** Stage the thread is about; unset for the roadmap as a whole. Opening comments only. */
+  stageId?: string;
+  /** Id of the thread's opening comment; unset on the opening comment itself. */
+  threadId?: string;
+  author: string;
+  text: string;
+  /** Milliseconds since the epoch. */
+  createdAt: number;
+  /** Whether the thread is settled. Opening comments only. */
+  resolved?: boolean;
+}
+
+export type LayoutOrientation = 'serpentine' | 'horizontal' | 'vertical';
+export type RoadStyle = 'curved' | 'straight' | 'zigzag';
+
+export interface LayoutSettings {
+  /** Serpentine wraps into rows; horizontal and vertical keep a single line. */
+  orientation: LayoutOrientation;
+  /** Stages per row before the road turns. Serpentine only. */
+  stagesPerRow: number;
+  /** Distance between neighbouring stages along the road. */
+  stageSpacing: number;
+  /** Distance between rows of a serpentine road. */
+  rowSpacing: number;
+  roadStyle: RoadStyle;
+}
+
+export interface ThemeColors {
+  background: string;
+  road: string;
+  roadEdge: string;
+  roadMarking: string;
+  cardBackground: string;
+  cardBorder: string;
+  /** Roadmap title and card titles. */
+  heading: string;
+  /** Card descriptions. */
+  text: string;
+  /** Subtitle, calendar ticks and other secondary labels. */
+  muted: string;
+}
+
+export interface RoadmapTheme {
+  /** Built-in theme this one started from, or 'Custom'. */
+  name: string;
+  /** Colors offered for stages; new stages cycle through them. */
+  palette: string[];
+  colors: ThemeColors;
+  fonts: { heading: string; body: string };
+  cardRadius: number;
+  /** Optional logo as an image data URL, drawn in the top-left corner. */
+  logo?: string;
 }
 
 export interface RoadmapData {
+  /** Document format version; older documents are migrated on load. */
+  schemaVersion: number;
   title: string;
   description: string;
+  layout: LayoutSettings;
+  theme: RoadmapTheme;
   stages: ProjectStage[];
+  /** Where the project currently is, drawn as a "you are here" marker. */
+  currentPosition?: RoadPosition;
+  /** Review threads on stages and on the roadmap itself. */
+  comments?: RoadmapComment[];
+  /** Parallel tracks sharing one time axis; a single road when unset or empty. */
+  lanes?: RoadmapLane[];
+}
+
+/** A named copy of a roadmap at one point in time, kept for comparing and restoring. */
+export interface RoadmapSnapshot {
+  id: string;
+  name: string;
+  data: RoadmapData;
+  createdAt: number;
+}
+
+export interface SavedRoadmap {
+  id: string;
+  name: string;
+  data: RoadmapData;
+  createdAt: number;
+  updatedAt: number;
+  /** Oldest first. */
+  snapshots?: RoadmapSnapshot[];
 }
 
+/** Card placement relative to the road: PEAK above it (left on a vertical road), VALLEY below (right). */
 export enum PathType {
   VALLEY = 'VALLEY',
   PEAK = 'PEAK'
 }
+
+export type TimelineMode = 'even' | 'calendar';
+
+/** How a stage differs between two versions of a roadmap. */
+export type StageChange = 'added' | 'removed' | 'moved' | 'edited';
+
+/** A blank in a template, written `{{key}}` in its text; date blanks may add days, as in `{{startDate+14}}`. */
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  kind: 'text' | 'date';
+  /** Prefilled when creating a roadmap; dates default to today. */
+  defaultValue?: string;
+}
+
+/** A starting point for new roadmaps, with blanks filled in when one is created from it. */
+export interface RoadmapTemplate {
+  id: string;
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  /** Only valid as a roadmap once its variables are filled in. */
+  data: RoadmapData;
+  /** Set on templates saved by the user; built-in ones ship with the app. */
+  createdAt?: number;
+}
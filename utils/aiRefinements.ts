@@ -0,0 +1,91 @@
+import { ProjectStage, RoadmapData } from '../types';
+import { parseIsoDate } from './dates';
+import { addComment } from './comments';
+
+/*
+ * Pure merges of AI suggestions into a roadmap. Each one keeps the ids,
+ * colors and other fields of everything it does not explicitly change, so
+ * the result diffs cleanly against the roadmap it was made from.
+ */
+
+export interface StageDraft {
+  title: string;
+  description: string;
+}
+
+export interface DateSuggestion {
+  id: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface CritiquePoint {
+  /** Stage the point is about; empty for the roadmap as a whole. */
+  stageId: string;
+  comment: string;
+}
+
+export const AI_REVIEWER = 'AI Reviewer';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Replaces a stage with its parts. The first part keeps the stage's id and
+ * everything attached to it (tasks, dates, dependents); the rest share its color.
+ */
+export const expandStage = (data: RoadmapData, stageId: string, parts: StageDraft[]): RoadmapData => {
+  const index = data.stages.findIndex(stage => stage.id === stageId);
+  if (index < 0 || parts.length === 0) return data;
+  const original = data.stages[index];
+  const expanded: ProjectStage[] = parts.map((part, i) =>
+    i === 0
+      ? { ...original, title: part.title, description: part.description }
+      : { id: newId(), title: part.title, description: part.description, color: original.color, laneId: original.laneId }
+  );
+  const stages = [...data.stages];
+  stages.splice(index, 1, ...expanded);
+  return { ...data, stages };
+};
+
+export const setStageDescription = (data: RoadmapData, stageId: string, description: string): RoadmapData => ({
+  ...data,
+  stages: data.stages.map(stage => (stage.id === stageId ? { ...stage, description } : stage))
+});
+
+/** Adds a stage right after `afterId`, in the same lane, colored with the next palette color. */
+export const insertStageAfter = (data: RoadmapData, afterId: string, draft: StageDraft): RoadmapData => {
+  const index = data.stages.findIndex(stage => stage.id === afterId);
+  if (index < 0) return data;
+  const { palette } = data.theme;
+  const color = palette[(index + 1) % palette.length];
+  const stages = [...data.stages];
+  stages.splice(index + 1, 0, { id: newId(), title: draft.title, description: draft.description, color, laneId: data.stages[index].laneId });
+  return { ...data, stages };
+};
+
+/** Sets suggested dates; unknown stages and unreadable or backwards ranges are skipped. */
+export const applyDateSuggestions = (data: RoadmapData, suggestions: DateSuggestion[]): RoadmapData => {
+  const byId = new Map(suggestions.map(suggestion => [suggestion.id, suggestion]));
+  return {
+    ...data,
+    stages: data.stages.map(stage => {
+      const suggestion = byId.get(stage.id);
+      const start = parseIsoDate(suggestion?.startDate);
+      const end = parseIsoDate(suggestion?.endDate);
+      if (start === null || end === null || end < start) return stage;
+      return { ...stage, startDate: suggestion!.startDate, endDate: suggestion!.endDate, durationDays: undefined };
+    })
+  };
+};
+
+/** Files each point as a review thread; points about unknown stages go on the roadmap. */
+export const addCritique = (data: RoadmapData, points: CritiquePoint[]): RoadmapData => {
+  const stageIds = new Set(data.stages.map(stage => stage.id));
+  const comments = points
+    .filter(point => point.comment.trim())
+    .reduce(
+      (all, point) => addComment(all, { author: AI_REVIEWER, text: point.comment, stageId: stageIds.has(point.stageId) ? point.stageId : undefined }),
+      data.comments || []
+    );
+  return { ...data, comments };
+};
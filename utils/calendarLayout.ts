@@ -0,0 +1,238 @@
+import { ProjectStage } from '../types';
+import {
+  DAY_MS,
+  addMonths,
+  formatMonthLabel,
+  formatQuarterLabel,
+  isQuarterStart,
+  resolveStageSpan,
+  startOfMonth
+} from './dates';
+
+export interface RoadGeometry {
+  stagesPerRow: number;
+  stageWidth: number;
+  rowHeight: number;
+  roadOffsetY: number;
+  horizontalPadding: number;
+}
+
+export interface RoadPoint {
+  x: number;
+  y: number;
+  row: number;
+  isEvenRow: boolean;
+}
+
+export interface CalendarTick {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  labelX: number;
+  labelY: number;
+  label: string;
+  isQuarter: boolean;
+}
+
+export interface CalendarMarker extends CalendarTick {
+  x: number;
+  y: number;
+}
+
+export interface CalendarLayout {
+  numRows: number;
+  pathData: string;
+  positions: RoadPoint[];
+  /** Road leading up to each stage: from the previous stage, or the road start for the first one. */
+  segmentPaths: string[];
+  /** Road segment covering each stage's dates, or null for undated stages. */
+  spanPaths: (string | null)[];
+  ticks: CalendarTick[];
+  today: CalendarMarker | null;
+  end: RoadPoint;
+}
+
+interface RoadSample extends RoadPoint {
+  tx: number;
+  ty: number;
+  // Unit vector pointing away from the road on the side where labels go.
+  ox: number;
+  oy: number;
+}
+
+const LEAD_IN = 100;
+const LEAD_OUT = 150;
+const UNDATED_STEP = 7 * DAY_MS;
+const TICK_HALF_LENGTH = 40;
+const LABEL_OFFSET = 52;
+
+/**
+ * Serpentine road made of straight rows joined by half-circle turns. Distance
+ * along the road maps linearly onto the calendar, turns included, so equal
+ * stretches of road always represent equal stretches of time.
+ */
+const createRoad = (numRows: number, g: RoadGeometry) => {
+  const xLeft = g.horizontalPadding + g.stageWidth / 2;
+  const xRight = g.horizontalPadding + (g.stagesPerRow - 0.5) * g.stageWidth;
+  const rowLength = xRight - xLeft;
+  const radius = g.rowHeight / 2;
+  const turnLength = Math.PI * radius;
+  const segmentLength = rowLength + turnLength;
+  const length = numRows * rowLength + (numRows - 1) * turnLength;
+  const rowY = (row: number) => row * g.rowHeight + g.rowHeight / 2 + g.roadOffsetY;
+
+  const sample = (distance: number): RoadSample => {
+    const s = Math.min(Math.max(distance, 0), length);
+    const row = Math.min(Math.floor(s / segmentLength), numRows - 1);
+    const isEvenRow = row % 2 === 0;
+    const local = s - row * segmentLength;
+    const y = rowY(row);
+
+    if (local <= rowLength || row === numRows - 1) {
+      const along = Math.min(local, rowLength);
+      const x = isEvenRow ? xLeft + along : xRight - along;
+      return { x, y, row, isEvenRow, tx: isEvenRow ? 1 : -1, ty: 0, ox: 0, oy: -1 };
+    }
+
+    const fraction = (local - rowLength) / turnLength;
+    const cy = y + radius;
+    if (isEvenRow) {
+      const theta = -Math.PI / 2 + Math.PI * fraction;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      return { x: xRight + radius * cos, y: cy + radius * sin, row, isEvenRow, tx: -sin, ty: cos, ox: cos, oy: sin };
+    }
+    const theta = -Math.PI / 2 - Math.PI * fraction;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    return { x: xLeft + radius * cos, y: cy + radius * sin, row, isEvenRow, tx: sin, ty: -cos, ox: cos, oy: sin };
+  };
+
+  // Builds an SVG path that follows the road between two distances. Pass
+  // `continued` to append onto an existing path instead of starting a new one.
+  const subPath = (from: number, to: number, continued = false): string => {
+    const start = Math.max(0, Math.min(from, to));
+    const stop = Math.min(length, Math.max(from, to));
+    const first = sample(start);
+    let d = continued ? '' : `M ${first.x} ${first.y}`;
+    let cursor = start;
+
+    while (cursor < stop) {
+      const row = Math.min(Math.floor(cursor / segmentLength), numRows - 1);
+      const rowEnd = row * segmentLength + rowLength;
+      const turnEnd = (row + 1) * segmentLength;
+
+      if (cursor < rowEnd || row === numRows - 1) {
+        cursor = Math.min(stop, rowEnd);
+        const p = sample(cursor);
+        d += ` L ${p.x} ${p.y}`;
+      } else {
+        const next = Math.min(stop, turnEnd);
+        const p = sample(next);
+        d += ` A ${radius} ${radius} 0 0 ${row % 2 === 0 ? 1 : 0} ${p.x} ${p.y}`;
+        // Land exactly on the next row so floating point never stalls the loop.
+        cursor = next === turnEnd ? turnEnd + 1e-6 : next;
+      }
+    }
+
+    return d;
+  };
+
+  return { length, sample, subPath };
+};
+
+/**
+ * Anchors every stage at a point in time. Undated stages are interpolated
+ * between their dated neighbours so the stage order is preserved.
+ */
+export const resolveAnchors = (stages: ProjectStage[]): number[] => {
+  const spans = stages.map(resolveStageSpan);
+  const anchors: (number | null)[] = spans.map(span => (span ? span.start : null));
+  const dated = anchors.map((a, i) => (a === null ? -1 : i)).filter(i => i >= 0);
+  if (dated.length === 0) return [];
+
+  const firstDated = dated[0];
+  const lastDated = dated[dated.length - 1];
+
+  return anchors.map((anchor, i) => {
+    if (anchor !== null) return anchor;
+    if (i < firstDated) return (anchors[firstDated] as number) - (firstDated - i) * UNDATED_STEP;
+    if (i > lastDated) return (spans[lastDated] as { end: number }).end + (i - lastDated) * UNDATED_STEP;
+
+    const prev = dated.filter(d => d < i).pop() as number;
+    const next = dated.find(d => d > i) as number;
+    const prevTime = anchors[prev] as number;
+    const nextTime = anchors[next] as number;
+    return prevTime + ((nextTime - prevTime) * (i - prev)) / (next - prev);
+  });
+};
+
+export const computeCalendarLayout = (
+  stages: ProjectStage[],
+  geometry: RoadGeometry,
+  today: number
+): CalendarLayout | null => {
+  const anchors = resolveAnchors(stages);
+  if (anchors.length === 0) return null;
+
+  const spans = stages.map(resolveStageSpan);
+  const times = [...anchors, ...spans.filter(Boolean).map(span => (span as { end: number }).end)];
+  const rangeStart = startOfMonth(Math.min(...times));
+  const rangeEnd = addMonths(startOfMonth(Math.max(...times)), 1);
+
+  const numRows = Math.max(1, Math.ceil(stages.length / geometry.stagesPerRow));
+  const road = createRoad(numRows, geometry);
+  const distanceAt = (time: number) => ((time - rangeStart) / (rangeEnd - rangeStart)) * road.length;
+
+  const toPoint = ({ x, y, row, isEvenRow }: RoadSample): RoadPoint => ({ x, y, row, isEvenRow });
+
+  // Tick labels sit on the outer side of the road; `side = -1` flips them inward.
+  const makeTick = (time: number, label: string, isQuarter: boolean, side = 1): CalendarMarker => {
+    const p = road.sample(distanceAt(time));
+    const nx = -p.ty;
+    const ny = p.tx;
+    return {
+      x: p.x,
+      y: p.y,
+      x1: p.x - nx * TICK_HALF_LENGTH,
+      y1: p.y - ny * TICK_HALF_LENGTH,
+      x2: p.x + nx * TICK_HALF_LENGTH,
+      y2: p.y + ny * TICK_HALF_LENGTH,
+      labelX: p.x + p.ox * LABEL_OFFSET * side,
+      labelY: p.y + p.oy * LABEL_OFFSET * side,
+      label,
+      isQuarter
+    };
+  };
+
+  const ticks: CalendarTick[] = [];
+  for (let month = rangeStart; month <= rangeEnd; month = addMonths(month, 1)) {
+    const quarter = isQuarterStart(month);
+    ticks.push(makeTick(month, quarter ? formatQuarterLabel(month) : formatMonthLabel(month), quarter));
+  }
+
+  const start = road.sample(0);
+  const finish = road.sample(road.length);
+  const leadIn = `M ${start.x - LEAD_IN} ${start.y} L ${start.x} ${start.y}`;
+  const body = road.subPath(0, road.length, true);
+  const endPoint: RoadPoint = {
+    ...toPoint(finish),
+    x: finish.x + (finish.isEvenRow ? LEAD_OUT : -LEAD_OUT)
+  };
+
+  const distances = anchors.map(distanceAt);
+
+  return {
+    numRows,
+    pathData: `${leadIn}${body} L ${endPoint.x} ${endPoint.y}`,
+    positions: distances.map(distance => toPoint(road.sample(distance))),
+    segmentPaths: distances.map((distance, i) =>
+      i === 0 ? `${leadIn}${road.subPath(0, distance, true)}` : road.subPath(distances[i - 1], distance)
+    ),
+    spanPaths: spans.map(span => (span ? road.subPath(distanceAt(span.start), distanceAt(span.end + DAY_MS)) : null)),
+    ticks,
+    today: today >= rangeStart && today <= rangeEnd ? makeTick(today, 'Today', false, -1) : null,
+    end: endPoint
+  };
+};
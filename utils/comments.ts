@@ -0,0 +1,65 @@
+import { ProjectStage, RoadmapComment, RoadmapData } from '../types';
+
+export interface CommentThread {
+  /** The opening comment, which holds the anchor and resolved state. */
+  root: RoadmapComment;
+  replies: RoadmapComment[];
+}
+
+const byCreation = (a: RoadmapComment, b: RoadmapComment) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+const buildThreads = (comments: RoadmapComment[], include: (root: RoadmapComment) => boolean): CommentThread[] =>
+  comments
+    .filter(comment => comment.threadId === undefined && include(comment))
+    .sort(byCreation)
+    .map(root => ({ root, replies: comments.filter(comment => comment.threadId === root.id).sort(byCreation) }));
+
+/** Threads anchored to one stage, oldest first. */
+export const getStageThreads = (comments: RoadmapComment[] = [], stageId: string) =>
+  buildThreads(comments, root => root.stageId === stageId);
+
+/**
+ * Threads about the roadmap itself, plus any left over from removed stages so
+ * their feedback is never hidden.
+ */
+export const getRoadmapThreads = (comments: RoadmapComment[] = [], stages: ProjectStage[]) => {
+  const stageIds = new Set(stages.map(stage => stage.id));
+  return buildThreads(comments, root => root.stageId === undefined || !stageIds.has(root.stageId));
+};
+
+/**
+ * Drops the threads anchored to stages that are not in `stages`, with their
+ * replies; used when an import replaces every stage at once.
+ */
+export const pruneStageThreads = (comments: RoadmapComment[] = [], stages: ProjectStage[]): RoadmapComment[] | undefined => {
+  const stageIds = new Set(stages.map(stage => stage.id));
+  const dropped = new Set(
+    comments.filter(comment => comment.stageId !== undefined && !stageIds.has(comment.stageId)).map(comment => comment.id)
+  );
+  const kept = comments.filter(comment => !dropped.has(comment.id) && !(comment.threadId && dropped.has(comment.threadId)));
+  return kept.length > 0 ? kept : undefined;
+};
+
+export const countOpenThreads = (threads: CommentThread[]) => threads.filter(thread => !thread.root.resolved).length;
+
+/** Opens a thread, or replies to one when `threadId` is given. */
+export const addComment = (
+  comments: RoadmapComment[] = [],
+  draft: { author: string; text: string; stageId?: string; threadId?: string }
+): RoadmapComment[] => {
+  const comment: RoadmapComment = {
+    id: Math.random().toString(36).substr(2, 9),
+    author: draft.author.trim() || 'Anonymous',
+    text: draft.text.trim(),
+    createdAt: Date.now()
+  };
+  if (draft.threadId) comment.threadId = draft.threadId;
+  else if (draft.stageId) comment.stageId = draft.stageId;
+  return [...comments, comment];
+};
+
+export const setThreadResolved = (comments: RoadmapComment[] = [], threadId: string, resolved: boolean) =>
+  comments.map(comment => (comment.id === threadId ? { ...comment, resolved: resolved || undefined } : comment));
+
+/** The roadmap without its review threads, e.g. for a clean export. */
+export const withoutComments = (data: RoadmapData): RoadmapData => ({ ...data, comments: undefined });
@@ -0,0 +1,204 @@
+import { ProjectStage, StageStatus } from '../types';
+import { STAGE_STATUSES } from '../constants';
+import { formatIsoDate, utcDate } from './dates';
+
+export type StageField = 'title' | 'description' | 'color' | 'startDate' | 'endDate' | 'status' | 'assignees';
+
+/** Column index feeding each stage field, or null when the field is not imported. */
+export type ColumnMapping = Record<StageField, number | null>;
+
+export interface CsvImportResult {
+  stages: ProjectStage[];
+  /** Values that could not be used, by row number in the source. */
+  warnings: string[];
+}
+
+// Aliases are compared lowercased with spaces, dashes and underscores removed.
+export const STAGE_FIELD_OPTIONS: { field: StageField; label: string; aliases: string[] }[] = [
+  { field: 'title', label: 'Title', aliases: ['title', 'name', 'stage', 'milestone', 'phase', 'task'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details', 'notes', 'summary', 'desc'] },
+  { field: 'color', label: 'Color', aliases: ['color', 'colour'] },
+  { field: 'startDate', label: 'Start', aliases: ['start', 'startdate', 'begin', 'from'] },
+  { field: 'endDate', label: 'End', aliases: ['end', 'enddate', 'finish', 'due', 'duedate', 'to', 'deadline'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'state'] },
+  { field: 'assignees', label: 'Assignees', aliases: ['assignees', 'assignee', 'owner', 'owners', 'people'] }
+];
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Cells starting with these run as formulas when a spreadsheet opens the file.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+
+/** Tabs win when present (spreadsheet pastes); otherwise semicolons if they outnumber commas. */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  if (firstLine.includes('\t')) return '\t';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+/** RFC 4180 parsing: quoted cells may hold delimiters, newlines and doubled quotes. */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const quoteCell = (value: string, delimiter: string) => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /["\r\n]/.test(safe) || safe.includes(delimiter) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toDelimited = (rows: string[][], delimiter = ','): string =>
+  rows.map(row => row.map(value => quoteCell(value, delimiter)).join(delimiter)).join('\r\n');
+
+// Undoes the formula guard added by `toDelimited`.
+const readCell = (row: string[], index: number | null) => {
+  const value = index === null ? '' : (row[index] || '').trim();
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+};
+
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  STAGE_FIELD_OPTIONS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((name, i) => !used.has(i) && aliases.includes(name));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+/**
+ * Reads the date formats spreadsheets commonly produce: ISO (`2025-01-31`,
+ * `2025/01/31`), US (`1/31/2025`) and day-first with dots (`31.01.2025`).
+ */
+export const normalizeDate = (value: string): string | null => {
+  const build = (year: number, month: number, day: number) => {
+    const time = utcDate(year, month, day);
+    return time === null ? null : formatIsoDate(time);
+  };
+  let match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  if (match) return build(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (match) return build(Number(match[3]), Number(match[1]), Number(match[2]));
+  match = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(value);
+  if (match) return build(Number(match[3]), Number(match[2]), Number(match[1]));
+  return null;
+};
+
+const parseStatus = (value: string): StageStatus | null => {
+  const normalized = value.toLowerCase().replace(/[\s_]+/g, '-');
+  const match = STAGE_STATUSES.find(s => s.value === normalized || s.label.toLowerCase() === value.toLowerCase());
+  return match ? match.value : null;
+};
+
+/**
+ * Turns spreadsheet rows into stages. Unusable values are dropped with a
+ * warning rather than failing the import; stages without a valid color take
+ * the next palette color after `colorOffset`. Warnings count rows from
+ * `firstRowNumber`, so they match the spreadsheet when a header was skipped.
+ */
+export const rowsToStages = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  palette: string[],
+  colorOffset = 0,
+  firstRowNumber = 1
+): CsvImportResult => {
+  const warnings: string[] = [];
+  const stages = rows.map((row, i): ProjectStage => {
+    const rowLabel = `Row ${firstRowNumber + i}`;
+    const stage: ProjectStage = {
+      id: Math.random().toString(36).substr(2, 9),
+      title: readCell(row, mapping.title),
+      description: readCell(row, mapping.description),
+      color: palette[(colorOffset + i) % palette.length]
+    };
+
+    const color = readCell(row, mapping.color);
+    if (color && HEX_COLOR.test(color)) {
+      stage.color = color.startsWith('#') ? color : `#${color}`;
+    } else if (color) {
+      warnings.push(`${rowLabel}: '${color}' is not a hex color`);
+    }
+
+    (['startDate', 'endDate'] as const).forEach(field => {
+      const value = readCell(row, mapping[field]);
+      if (!value) return;
+      const date = normalizeDate(value);
+      if (date) stage[field] = date;
+      else warnings.push(`${rowLabel}: '${value}' is not a date`);
+    });
+    if (stage.startDate && stage.endDate && stage.endDate < stage.startDate) {
+      warnings.push(`${rowLabel}: end date is before the start date`);
+      delete stage.endDate;
+    }
+
+    const status = readCell(row, mapping.status);
+    if (status) {
+      const parsed = parseStatus(status);
+      if (parsed && parsed !== 'not-started') stage.status = parsed;
+      else if (!parsed) warnings.push(`${rowLabel}: unknown status '${status}'`);
+    }
+
+    const assignees = readCell(row, mapping.assignees).split(/[,;]/).map(name => name.trim()).filter(Boolean);
+    if (assignees.length > 0) stage.assignees = [...new Set(assignees)];
+
+    return stage;
+  });
+  return { stages, warnings };
+};
+
+/** The stages as CSV, with headers that `guessColumnMapping` maps back on import. */
+export const stagesToCsv = (stages: ProjectStage[]): string => {
+  const statusLabel = (status?: StageStatus) => STAGE_STATUSES.find(s => s.value === status)?.label || '';
+  return toDelimited([
+    STAGE_FIELD_OPTIONS.map(option => option.label),
+    ...stages.map(stage => [
+      stage.title,
+      stage.description,
+      stage.color,
+      stage.startDate || '',
+      stage.endDate || '',
+      statusLabel(stage.status),
+      (stage.assignees || []).join(', ')
+    ])
+  ]);
+};
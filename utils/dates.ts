@@ -0,0 +1,71 @@
+import { ProjectStage } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface StageSpan {
+  start: number;
+  end: number;
+}
+
+/** UTC midnight of a calendar date, or null for days that do not exist such as Feb 31. */
+export const utcDate = (year: number, month: number, day: number): number | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Date.UTC rolls over out-of-range parts, e.g. 2/30 becomes 3/2.
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.getTime() : null;
+};
+
+// Dates are handled as UTC midnights so a stage never shifts a day with the viewer's timezone.
+export const parseIsoDate = (value?: string): number | null => {
+  if (!value) return null;
+  const match = ISO_DATE.exec(value.trim());
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+export const formatIsoDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const todayUtc = (): number => {
+  const now = new Date();
+  return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+export const startOfMonth = (time: number): number => {
+  const d = new Date(time);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+};
+
+export const addMonths = (time: number, months: number): number => {
+  const d = new Date(time);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, d.getUTCDate());
+};
+
+export const formatMonthLabel = (time: number): string => MONTH_NAMES[new Date(time).getUTCMonth()];
+
+export const formatQuarterLabel = (time: number): string => {
+  const d = new Date(time);
+  return `Q${Math.floor(d.getUTCMonth() / 3) + 1} ${d.getUTCFullYear()}`;
+};
+
+export const isQuarterStart = (time: number): boolean => new Date(time).getUTCMonth() % 3 === 0;
+
+/**
+ * Resolves the calendar span of a stage from whichever of start, end and
+ * duration are present. Returns null when the stage cannot be placed in time.
+ */
+export const resolveStageSpan = (stage: ProjectStage): StageSpan | null => {
+  const start = parseIsoDate(stage.startDate);
+  const end = parseIsoDate(stage.endDate);
+  const duration = typeof stage.durationDays === 'number' && stage.durationDays > 0 ? stage.durationDays : null;
+
+  if (start !== null && end !== null) return end >= start ? { start, end } : { start: end, end: start };
+  if (start !== null) return { start, end: duration !== null ? start + (duration - 1) * DAY_MS : start };
+  if (end !== null) return { start: duration !== null ? end - (duration - 1) * DAY_MS : end, end };
+  return null;
+};
+
+/** Inclusive number of days covered by a span. */
+export const spanDays = (span: StageSpan): number => Math.round((span.end - span.start) / DAY_MS) + 1;
+
+export const hasAnyDates = (stages: ProjectStage[]): boolean => stages.some(s => resolveStageSpan(s) !== null);
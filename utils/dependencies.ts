@@ -0,0 +1,146 @@
+import { ProjectStage } from '../types';
+import { resolveStageSpan, spanDays } from './dates';
+
+export interface DependencyIssue {
+  stageId: string;
+  message: string;
+}
+
+export interface CriticalPath {
+  /** Stage ids on the critical path, in execution order. */
+  stageIds: string[];
+  /** Total duration of the critical path in days. */
+  totalDays: number;
+}
+
+/** Duration used for scheduling; undated stages count as a single day. */
+export const stageDurationDays = (stage: ProjectStage): number => {
+  const span = resolveStageSpan(stage);
+  if (span) return spanDays(span);
+  if (typeof stage.durationDays === 'number' && stage.durationDays > 0) return stage.durationDays;
+  return 1;
+};
+
+const label = (stage: ProjectStage) => `'${stage.title || stage.id}'`;
+
+/**
+ * Finds a dependency cycle, returned as the chain of stage ids that loops back
+ * onto its first element, or null when the graph is acyclic. Unknown ids are
+ * ignored here; they are reported separately.
+ */
+export const findDependencyCycle = (stages: ProjectStage[]): string[] | null => {
+  const byId = new Map(stages.map(s => [s.id, s]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...trail.slice(trail.indexOf(id)), id];
+
+    state.set(id, 'visiting');
+    trail.push(id);
+    for (const dep of byId.get(id)?.dependsOn || []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const stage of stages) {
+    const cycle = visit(stage.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+export const validateDependencies = (stages: ProjectStage[]): DependencyIssue[] => {
+  const byId = new Map(stages.map(s => [s.id, s]));
+  const issues: DependencyIssue[] = [];
+
+  stages.forEach(stage => {
+    (stage.dependsOn || []).forEach(dep => {
+      if (dep === stage.id) {
+        issues.push({ stageId: stage.id, message: `Stage ${label(stage)} cannot depend on itself.` });
+      } else if (!byId.has(dep)) {
+        issues.push({ stageId: stage.id, message: `Stage ${label(stage)} depends on unknown stage id '${dep}'.` });
+      }
+    });
+  });
+
+  const cycle = findDependencyCycle(stages.map(s => ({ ...s, dependsOn: (s.dependsOn || []).filter(d => d !== s.id) })));
+  if (cycle) {
+    const names = cycle.map(id => label(byId.get(id) as ProjectStage));
+    issues.push({ stageId: cycle[0], message: `Dependency cycle: ${names.join(' → ')}.` });
+  }
+
+  return issues;
+};
+
+/** True when making `stageId` depend on `candidateId` would close a cycle. */
+export const wouldCreateCycle = (stages: ProjectStage[], stageId: string, candidateId: string): boolean => {
+  if (stageId === candidateId) return true;
+  const next = stages.map(s =>
+    s.id === stageId ? { ...s, dependsOn: [...(s.dependsOn || []), candidateId] } : s
+  );
+  return findDependencyCycle(next) !== null;
+};
+
+/**
+ * Longest chain of dependent stages measured in days. Unknown dependency ids
+ * are skipped, and a cyclic graph has no critical path.
+ */
+export const computeCriticalPath = (stages: ProjectStage[]): CriticalPath => {
+  if (findDependencyCycle(stages)) return { stageIds: [], totalDays: 0 };
+
+  const byId = new Map(stages.map(s => [s.id, s]));
+  const finish = new Map<string, number>();
+  const via = new Map<string, string | null>();
+
+  const earliestFinish = (id: string): number => {
+    const cached = finish.get(id);
+    if (cached !== undefined) return cached;
+
+    const stage = byId.get(id) as ProjectStage;
+    let best = 0;
+    let bestDep: string | null = null;
+    (stage.dependsOn || []).forEach(dep => {
+      if (!byId.has(dep) || dep === id) return;
+      const value = earliestFinish(dep);
+      if (value > best) {
+        best = value;
+        bestDep = dep;
+      }
+    });
+
+    const total = best + stageDurationDays(stage);
+    finish.set(id, total);
+    via.set(id, bestDep);
+    return total;
+  };
+
+  let endId: string | null = null;
+  let totalDays = 0;
+  for (const stage of stages) {
+    const value = earliestFinish(stage.id);
+    if (value > totalDays) {
+      totalDays = value;
+      endId = stage.id;
+    }
+  }
+
+  const stageIds: string[] = [];
+  for (let id: string | null = endId; id; id = via.get(id) ?? null) {
+    stageIds.unshift(id);
+  }
+
+  return { stageIds, totalDays };
+};
+
+/** Drops references to a stage that is being removed from the roadmap. */
+export const removeDependencyOn = (stages: ProjectStage[], removedId: string): ProjectStage[] =>
+  stages.map(s =>
+    s.dependsOn?.includes(removedId) ? { ...s, dependsOn: s.dependsOn.filter(d => d !== removedId) } : s
+  );
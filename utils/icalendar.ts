@@ -0,0 +1,150 @@
+import { ProjectStage, RoadmapData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../constants';
+import { pruneStageThreads } from './comments';
+import { DAY_MS, formatIsoDate, parseIsoDate, resolveStageSpan } from './dates';
+import { RoadmapParseResult, parseRoadmap } from './schema';
+
+/*
+ * iCalendar (RFC 5545) with one all-day event per dated stage. Undated stages
+ * have no place on a calendar and are left out of exports.
+ */
+
+const UID_DOMAIN = 'roadmap-builder';
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/;/g, '\\;').replace(/,/g, '\\,');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\(.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const compactDate = (time: number) => formatIsoDate(time).replace(/-/g, '');
+
+// Long lines are folded onto continuation lines that start with a space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const roadmapToICalendar = (data: RoadmapData, now = Date.now()): string => {
+  const stamp = new Date(now).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = data.stages.flatMap(stage => {
+    const span = resolveStageSpan(stage);
+    if (!span) return [];
+    return [
+      'BEGIN:VEVENT',
+      `UID:${stage.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(span.start)}`,
+      // All-day events end on the following day, exclusively.
+      `DTEND;VALUE=DATE:${compactDate(span.end + DAY_MS)}`,
+      `SUMMARY:${escapeText(stage.title)}`,
+      ...(stage.description ? [`DESCRIPTION:${escapeText(stage.description)}`] : []),
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//Roadmap//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(data.title)}`,
+    ...events,
+    'END:VCALENDAR',
+    ''
+  ].map(foldLine).join('\r\n');
+};
+
+interface ParsedProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+const parseProperty = (line: string): ParsedProperty | null => {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return { name: name.toUpperCase(), params: params.map(p => p.toUpperCase()), value: line.slice(colon + 1) };
+};
+
+// Accepts DATE (20250131) and DATE-TIME (20250131T090000Z) values.
+const toIsoDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Reads the events of an `.ics` file into a roadmap that keeps the layout and
+ * theme of `base`, one stage per event in date order. Lanes and threads on
+ * replaced stages are dropped.
+ */
+export const parseICalendar = (ics: string, base: RoadmapData): RoadmapParseResult => {
+  const lines = ics.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return { data: null, errors: [{ path: '$', message: 'not an iCalendar file' }] };
+  }
+
+  let title = base.title;
+  const events: Record<string, ParsedProperty>[] = [];
+  let current: Record<string, ParsedProperty> | null = null;
+  lines.forEach(line => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = {};
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      current[property.name] = property;
+    } else if (property.name === 'X-WR-CALNAME') {
+      title = unescapeText(property.value);
+    }
+  });
+
+  const { palette } = base.theme;
+  const stages = events
+    .map((event, i): ProjectStage => {
+      const uid = event.UID?.value.replace(`@${UID_DOMAIN}`, '');
+      const stage: ProjectStage = {
+        id: uid || Math.random().toString(36).substr(2, 9),
+        title: event.SUMMARY ? unescapeText(event.SUMMARY.value) : '',
+        description: event.DESCRIPTION ? unescapeText(event.DESCRIPTION.value) : '',
+        color: palette[i % palette.length]
+      };
+      const start = event.DTSTART && toIsoDate(event.DTSTART.value);
+      if (start) stage.startDate = start;
+      const end = event.DTEND && toIsoDate(event.DTEND.value);
+      if (end && start) {
+        // DATE end values are exclusive; timed events end on the day they finish.
+        const isDate = event.DTEND.params.includes('VALUE=DATE') || event.DTEND.value.length === 8;
+        const inclusiveEnd = isDate ? formatIsoDate(parseIsoDate(end)! - DAY_MS) : end;
+        stage.endDate = inclusiveEnd < start ? start : inclusiveEnd;
+      }
+      return stage;
+    })
+    .sort((a, b) => (a.startDate || '').localeCompare(b.startDate || ''));
+
+  return parseRoadmap({
+    ...base,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    title,
+    stages,
+    lanes: undefined,
+    comments: pruneStageThreads(base.comments, stages),
+    currentPosition: undefined
+  });
+};
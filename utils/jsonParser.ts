@@ -0,0 +1,224 @@
+export type JsonTokenType = 'punctuation' | 'string' | 'key' | 'number' | 'literal' | 'whitespace' | 'invalid';
+
+export interface JsonToken {
+  type: JsonTokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface SourceLocation extends SourceRange {
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column number. */
+  column: number;
+}
+
+export interface JsonSyntaxError extends SourceLocation {
+  message: string;
+}
+
+export interface JsonParseResult {
+  value: unknown;
+  error: JsonSyntaxError | null;
+  /**
+   * Source range of every value, keyed by path (`stages[3].color`, root is
+   * `$`). Objects and arrays point at their opening bracket.
+   */
+  pointers: Map<string, SourceRange>;
+}
+
+const PATTERNS: [JsonTokenType, RegExp][] = [
+  ['whitespace', /\s+/y],
+  // JSON strings cannot hold raw control characters (tabs, newlines); those read as invalid.
+  ['string', /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y],
+  ['invalid', /"(?:[^"\\\n]|\\.)*"?/y],
+  ['number', /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?(?![\w.])/y],
+  ['literal', /(?:true|false|null)(?!\w)/y],
+  ['punctuation', /[{}\[\]:,]/y],
+  ['invalid', /[^\s{}\[\]:,"]+/y]
+];
+
+/**
+ * Splits source into tokens covering every character, so highlighting works
+ * even when the document does not parse. Strings followed by a colon are
+ * classified as keys.
+ */
+export const tokenizeJson = (code: string): JsonToken[] => {
+  const tokens: JsonToken[] = [];
+  let offset = 0;
+
+  while (offset < code.length) {
+    for (const [type, pattern] of PATTERNS) {
+      pattern.lastIndex = offset;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        tokens.push({ type, text: match[0], start: offset, end: offset + match[0].length });
+        offset += match[0].length;
+        break;
+      }
+    }
+  }
+
+  let next: JsonToken | null = null;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.type === 'whitespace') continue;
+    if (token.type === 'string' && next?.text === ':') token.type = 'key';
+    next = token;
+  }
+
+  return tokens;
+};
+
+/** Maps an offset to a 1-based line and column. */
+export const locateOffset = (code: string, offset: number): { line: number; column: number } => {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < code.length; i++) {
+    if (code[i] === '\n') {
+      line += 1;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+};
+
+class ParseFailure extends Error {
+  constructor(message: string, public range: SourceRange) {
+    super(message);
+  }
+}
+
+const describe = (token: JsonToken | undefined) => (token ? `'${token.text.slice(0, 20)}'` : 'end of input');
+
+const describeInvalid = (token: JsonToken) => {
+  if (!token.text.startsWith('"')) return `Unexpected token ${describe(token)}`;
+  return /[\u0000-\u001f]/.test(token.text) ? 'Control character in string, escape it (e.g. \\t)' : 'Unterminated string or invalid escape';
+};
+
+export const childPath = (parent: string, key: string | number) => {
+  if (typeof key === 'number') return `${parent === '$' ? '' : parent}[${key}]`;
+  return parent === '$' ? key : `${parent}.${key}`;
+};
+
+export const parseJson = (code: string): JsonParseResult => {
+  const tokens = tokenizeJson(code).filter(t => t.type !== 'whitespace');
+  const pointers = new Map<string, SourceRange>();
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endRange = (): SourceRange => ({ start: code.length, end: code.length });
+  const fail = (message: string, token = peek()): never => {
+    throw new ParseFailure(message, token ? { start: token.start, end: token.end } : endRange());
+  };
+  const expect = (text: string, context: string) => {
+    const token = peek();
+    if (token?.text !== text) fail(`Expected '${text}' ${context}, found ${describe(token)}`);
+    index += 1;
+    return token;
+  };
+
+  const parseValue = (path: string): unknown => {
+    const token = peek();
+    if (!token) return fail('Unexpected end of input, expected a value');
+
+    if (token.type === 'invalid') {
+      return fail(describeInvalid(token));
+    }
+    if (token.text === '{') return parseObject(path);
+    if (token.text === '[') return parseArray(path);
+    if (token.type === 'string' || token.type === 'key' || token.type === 'number' || token.type === 'literal') {
+      index += 1;
+      pointers.set(path, { start: token.start, end: token.end });
+      return JSON.parse(token.text);
+    }
+    return fail(`Unexpected token ${describe(token)}, expected a value`);
+  };
+
+  const parseObject = (path: string): Record<string, unknown> => {
+    const open = expect('{', 'to open object');
+    const result: Record<string, unknown> = {};
+    pointers.set(path, { start: open.start, end: open.end });
+
+    if (peek()?.text === '}') {
+      index += 1;
+      return result;
+    }
+
+    while (true) {
+      const keyToken = peek();
+      if (keyToken?.type === 'invalid' && keyToken.text.startsWith('"')) fail(describeInvalid(keyToken));
+      if (!keyToken || (keyToken.type !== 'key' && keyToken.type !== 'string')) {
+        fail(`Expected property name, found ${describe(keyToken)}`);
+      }
+      index += 1;
+      const key = JSON.parse(keyToken.text) as string;
+      expect(':', 'after property name');
+      result[key] = parseValue(childPath(path, key));
+
+      const separator = peek();
+      if (separator?.text === ',') {
+        index += 1;
+        if (peek()?.text === '}') fail('Trailing comma is not allowed', separator);
+        continue;
+      }
+      expect('}', 'or \',\' after property value');
+      return result;
+    }
+  };
+
+  const parseArray = (path: string): unknown[] => {
+    const open = expect('[', 'to open array');
+    const result: unknown[] = [];
+    pointers.set(path, { start: open.start, end: open.end });
+
+    if (peek()?.text === ']') {
+      index += 1;
+      return result;
+    }
+
+    while (true) {
+      result.push(parseValue(childPath(path, result.length)));
+      const separator = peek();
+      if (separator?.text === ',') {
+        index += 1;
+        if (peek()?.text === ']') fail('Trailing comma is not allowed', separator);
+        continue;
+      }
+      expect(']', 'or \',\' after array item');
+      return result;
+    }
+  };
+
+  try {
+    if (tokens.length === 0) fail('Document is empty');
+    const value = parseValue('$');
+    if (index < tokens.length) fail(`Unexpected ${describe(peek())} after the end of the document`);
+    return { value, error: null, pointers };
+  } catch (err) {
+    if (!(err instanceof ParseFailure)) throw err;
+    const location = locateOffset(code, err.range.start);
+    return { value: undefined, error: { message: err.message, ...err.range, ...location }, pointers };
+  }
+};
+
+/**
+ * Finds the source range for a validation path. Missing properties resolve to
+ * their closest existing ancestor, so every error can be pointed at.
+ */
+export const resolvePointer = (pointers: Map<string, SourceRange>, path: string): SourceRange | null => {
+  let current = path;
+  while (current) {
+    const range = pointers.get(current);
+    if (range) return range;
+    const cut = Math.max(current.lastIndexOf('.'), current.lastIndexOf('['));
+    current = cut > 0 ? current.slice(0, cut) : current === '$' ? '' : '$';
+  }
+  return null;
+};
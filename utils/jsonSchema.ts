@@ -0,0 +1,35 @@
+import { SchemaError } from './schema';
+
+/** The subset of JSON Schema used for structured AI output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (at: string, key: string) => (at ? `${at}.${key}` : key);
+
+/** Checks a parsed value against a schema; extra properties are tolerated. */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, at = ''): SchemaError[] => {
+  const path = at || '(root)';
+  if (schema.type === 'string') {
+    return typeof value === 'string' ? [] : [{ path, message: 'expected string' }];
+  }
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [{ path, message: 'expected array' }];
+    return schema.items ? value.flatMap((item, i) => validateJsonSchema(item, schema.items!, `${at}[${i}]`)) : [];
+  }
+  if (!isObject(value)) return [{ path, message: 'expected object' }];
+  const missing = (schema.required || [])
+    .filter(key => !(key in value))
+    .map(key => ({ path: join(at, key), message: 'is required' }));
+  const invalid = Object.entries(schema.properties || {})
+    .filter(([key]) => key in value)
+    .flatMap(([key, property]) => validateJsonSchema(value[key], property, join(at, key)));
+  return [...missing, ...invalid];
+};
@@ -0,0 +1,158 @@
+import { LayoutSettings, ProjectStage, RoadmapLane } from '../types';
+import { CalendarLayout, CalendarTick, RoadPoint, resolveAnchors } from './calendarLayout';
+import { DAY_MS, addMonths, formatMonthLabel, formatQuarterLabel, isQuarterStart, resolveStageSpan, startOfMonth } from './dates';
+import { HORIZONTAL_PADDING, ROAD_OFFSET_Y, RoadLayout } from './roadLayout';
+import { getStageLaneIndex } from './lanes';
+
+/*
+ * Lanes are parallel straight roads, one per lane, stacked `rowSpacing` apart.
+ * Every lane shares the same horizontal axis: stage order in the even layout,
+ * time in the calendar layout, so stages that line up vertically happen
+ * together. Lane names sit in a gutter to the left of the roads.
+ */
+
+export interface LaneBand extends RoadmapLane {
+  /** Centre line of the lane's road. */
+  y: number;
+  /** Right edge of the lane's name, just before its road starts. */
+  labelX: number;
+  /** The lane's own road. */
+  path: string;
+}
+
+export interface LaneLayout extends RoadLayout {
+  lanes: LaneBand[];
+}
+
+const LANE_LABEL_WIDTH = 180;
+const LABEL_GAP = 70;
+const LEAD_IN = 100;
+const LEAD_OUT = 150;
+const BOTTOM_MARGIN = 50;
+const TICK_HALF_LENGTH = 40;
+const LABEL_OFFSET = 52;
+
+const laneY = (index: number, settings: LayoutSettings) => index * settings.rowSpacing + settings.rowSpacing / 2 + ROAD_OFFSET_Y;
+
+// Column of the i-th stage; the calendar layout spans the same columns so both fit one canvas.
+const columnX = (i: number, settings: LayoutSettings) => HORIZONTAL_PADDING + LANE_LABEL_WIDTH + (i + 0.5) * settings.stageSpacing;
+
+/**
+ * Shared by both layouts: straight roads between `roadStart` and `roadEnd`, and
+ * the road leading up to each stage from the previous stage in its lane.
+ */
+const traceLanes = (stages: ProjectStage[], lanes: RoadmapLane[], settings: LayoutSettings, xs: number[], roadStart: number, roadEnd: number) => {
+  const bands: LaneBand[] = lanes.map((lane, i) => {
+    const y = laneY(i, settings);
+    return { ...lane, y, labelX: roadStart - LABEL_GAP, path: `M ${roadStart} ${y} L ${roadEnd} ${y}` };
+  });
+  const positions: RoadPoint[] = stages.map((stage, i) => {
+    const row = getStageLaneIndex(stage, lanes);
+    return { x: xs[i], y: bands[row].y, row, isEvenRow: true };
+  });
+
+  const lastX = new Map<number, number>();
+  const segmentPaths = positions.map(({ x, y, row }) => {
+    const from = lastX.get(row) ?? roadStart;
+    lastX.set(row, x);
+    return `M ${from} ${y} L ${x} ${y}`;
+  });
+
+  return {
+    bands,
+    positions,
+    segmentPaths,
+    pathData: bands.map(band => band.path).join(' ')
+  };
+};
+
+/** Even layout for a roadmap with lanes: each stage gets its own column. Expects at least one stage and one lane. */
+export const computeLaneLayout = (stages: ProjectStage[], lanes: RoadmapLane[], settings: LayoutSettings): LaneLayout => {
+  const xs = stages.map((_, i) => columnX(i, settings));
+  const roadStart = xs[0] - LEAD_IN;
+  const roadEnd = xs[xs.length - 1] + LEAD_OUT;
+  const { bands, positions, segmentPaths, pathData } = traceLanes(stages, lanes, settings, xs, roadStart, roadEnd);
+
+  return {
+    width: LANE_LABEL_WIDTH + stages.length * settings.stageSpacing + HORIZONTAL_PADDING * 2,
+    height: lanes.length * settings.rowSpacing + ROAD_OFFSET_Y + BOTTOM_MARGIN,
+    positions,
+    pathData,
+    segmentPaths,
+    end: { x: roadEnd, y: bands[0].y },
+    pageBreaks: Array.from({ length: lanes.length - 1 }, (_, r) => (r + 1) * settings.rowSpacing + ROAD_OFFSET_Y - 25),
+    lanes: bands
+  };
+};
+
+/**
+ * Calendar layout for a roadmap with lanes. Distance along every lane maps onto
+ * the same stretch of time, so month ticks line up across lanes. Returns null
+ * when no stage has a date.
+ */
+export const computeLaneCalendarLayout = (
+  stages: ProjectStage[],
+  lanes: RoadmapLane[],
+  settings: LayoutSettings,
+  today: number
+): CalendarLayout | null => {
+  const anchors = resolveAnchors(stages);
+  if (anchors.length === 0) return null;
+
+  const spans = stages.map(resolveStageSpan);
+  const times = [...anchors, ...spans.filter(Boolean).map(span => (span as { end: number }).end)];
+  const rangeStart = startOfMonth(Math.min(...times));
+  const rangeEnd = addMonths(startOfMonth(Math.max(...times)), 1);
+
+  const xLeft = columnX(0, settings);
+  const xRight = columnX(stages.length - 1, settings);
+  const xAt = (time: number) => xLeft + ((time - rangeStart) / (rangeEnd - rangeStart)) * (xRight - xLeft);
+  const roadStart = xLeft - LEAD_IN;
+  const roadEnd = xRight + LEAD_OUT;
+  const { bands, positions, segmentPaths, pathData } = traceLanes(stages, lanes, settings, anchors.map(xAt), roadStart, roadEnd);
+
+  const ticks: CalendarTick[] = [];
+  for (let month = rangeStart; month <= rangeEnd; month = addMonths(month, 1)) {
+    const quarter = isQuarterStart(month);
+    const x = xAt(month);
+    bands.forEach(band => ticks.push({
+      x1: x,
+      y1: band.y - TICK_HALF_LENGTH,
+      x2: x,
+      y2: band.y + TICK_HALF_LENGTH,
+      labelX: x,
+      labelY: band.y - LABEL_OFFSET,
+      label: quarter ? formatQuarterLabel(month) : formatMonthLabel(month),
+      isQuarter: quarter
+    }));
+  }
+
+  // One line through every lane, labelled below the last one.
+  const top = bands[0].y;
+  const bottom = bands[bands.length - 1].y;
+  const todayX = xAt(today);
+
+  return {
+    numRows: lanes.length,
+    pathData,
+    positions,
+    segmentPaths,
+    spanPaths: spans.map((span, i) => (span ? `M ${xAt(span.start)} ${positions[i].y} L ${xAt(span.end + DAY_MS)} ${positions[i].y}` : null)),
+    ticks,
+    today: today >= rangeStart && today <= rangeEnd
+      ? {
+          x: todayX,
+          y: bottom,
+          x1: todayX,
+          y1: top - TICK_HALF_LENGTH,
+          x2: todayX,
+          y2: bottom + TICK_HALF_LENGTH,
+          labelX: todayX,
+          labelY: bottom + LABEL_OFFSET,
+          label: 'Today',
+          isQuarter: false
+        }
+      : null,
+    end: { x: roadEnd, y: top, row: 0, isEvenRow: true }
+  };
+};
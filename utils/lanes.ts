@@ -0,0 +1,26 @@
+import { ProjectStage, RoadmapData, RoadmapLane } from '../types';
+
+/** Whether the roadmap is split into lanes rather than drawn as one road. */
+export const hasLanes = (data: RoadmapData) => (data.lanes || []).length > 0;
+
+/** Position of the stage's lane; stages without a known lane run in the first one. */
+export const getStageLaneIndex = (stage: ProjectStage, lanes: RoadmapLane[]) =>
+  Math.max(0, lanes.findIndex(lane => lane.id === stage.laneId));
+
+export const addLane = (lanes: RoadmapLane[] = [], name: string, color: string): RoadmapLane[] => [
+  ...lanes,
+  { id: Math.random().toString(36).substr(2, 9), name: name.trim() || `Lane ${lanes.length + 1}`, color }
+];
+
+/**
+ * Removes a lane. Its stages are kept and move to the first remaining lane;
+ * removing the last lane turns the roadmap back into a single road.
+ */
+export const removeLane = (data: RoadmapData, laneId: string): RoadmapData => {
+  const lanes = (data.lanes || []).filter(lane => lane.id !== laneId);
+  return {
+    ...data,
+    lanes: lanes.length > 0 ? lanes : undefined,
+    stages: data.stages.map(stage => (stage.laneId === laneId || lanes.length === 0 ? { ...stage, laneId: undefined } : stage))
+  };
+};
@@ -0,0 +1,279 @@
+import { ProjectStage, RoadmapData, StageTask } from '../types';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_LAYOUT, DEFAULT_THEME } from '../constants';
+import { RoadmapParseResult, SchemaError, parseRoadmap } from './schema';
+
+/*
+ * Roadmaps as Markdown:
+ *
+ *   ---
+ *   schemaVersion: 8
+ *   layout: {"orientation":"serpentine",...}
+ *   ---
+ *
+ *   # Title
+ *
+ *   Description paragraphs.
+ *
+ *   ## Stage title
+ *   ---
+ *   id: 1
+ *   color: #f43f5e
+ *   ---
+ *
+ *   Stage description.
+ *
+ *   - [x] Task title (@Owner, due 2025-01-31) <!-- id: a1b2 -->
+ *
+ * Everything but the headings is optional, so hand-written notes import too.
+ * The document front matter holds the settings that have no natural Markdown
+ * form as JSON, which is also valid YAML. List fields are comma-separated,
+ * or a JSON array when an item contains a comma, and a task title ending in
+ * something that reads as its metadata has that final ")" escaped as "\)".
+ */
+
+type FieldKind = 'text' | 'number' | 'list';
+
+// Stage front matter, in the order it is written.
+const STAGE_FIELDS: { key: keyof ProjectStage; kind: FieldKind }[] = [
+  { key: 'id', kind: 'text' },
+  { key: 'color', kind: 'text' },
+  { key: 'startDate', kind: 'text' },
+  { key: 'endDate', kind: 'text' },
+  { key: 'durationDays', kind: 'number' },
+  { key: 'dependsOn', kind: 'list' },
+  { key: 'placement', kind: 'text' },
+  { key: 'status', kind: 'text' },
+  { key: 'assignees', kind: 'list' },
+  { key: 'laneId', kind: 'text' }
+];
+
+const DOCUMENT_FIELDS = ['layout', 'theme', 'lanes', 'currentPosition', 'comments'] as const;
+
+const FENCE = /^---\s*$/;
+const TASK = /^[-*] \[([ xX])\] (.*)$/;
+const TASK_ID = /\s*<!--\s*id:\s*(\S+)\s*-->\s*$/;
+const TASK_META = /\s+\(([^()]*)\)$/;
+const ESCAPED_PAREN = /\\\)$/;
+const FIELD = /^([A-Za-z]+):\s*(.*)$/;
+// Text lines that would otherwise read as structure get a leading backslash.
+const NEEDS_ESCAPE = /^(#{1,2}(\s|$)|---\s*$|[-*] \[[ xX]\]\s|\\)/;
+const TITLE = /^#(\s|$)/;
+const STAGE_HEADING = /^##(\s|$)/;
+
+const escapeText = (text: string) =>
+  text.split('\n').map(line => (NEEDS_ESCAPE.test(line) ? `\\${line}` : line)).join('\n');
+
+const unescapeLine = (line: string) => (line.startsWith('\\') ? line.slice(1) : line);
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Only a suffix made entirely of owner and due date is metadata; "(draft)" stays in the title.
+const readTaskMeta = (title: string) => {
+  const match = TASK_META.exec(title);
+  if (!match || match[1].endsWith('\\')) return null;
+  const parts = match[1].split(',').map(part => part.trim());
+  return parts.every(part => /^@.+$/.test(part) || /^due \S+$/.test(part)) ? { parts, index: match.index } : null;
+};
+
+const escapeTaskTitle = (title: string) => {
+  const text = title.trim();
+  return readTaskMeta(text) || ESCAPED_PAREN.test(text) ? `${text.slice(0, -1)}\\)` : text;
+};
+
+const formatTask = (task: StageTask) => {
+  const meta = [task.owner && `@${task.owner}`, task.dueDate && `due ${task.dueDate}`].filter(Boolean);
+  const suffix = meta.length > 0 ? ` (${meta.join(', ')})` : '';
+  return `- [${task.done ? 'x' : ' '}] ${escapeTaskTitle(task.title)}${suffix} <!-- id: ${task.id} -->`;
+};
+
+// Plain "a, b" unless an item would not survive being split on commas.
+const formatList = (items: string[]) =>
+  items.some(item => item.includes(',') || item.startsWith('[') || item !== item.trim() || item === '')
+    ? JSON.stringify(items)
+    : items.join(', ');
+
+const formatStage = (stage: ProjectStage) => {
+  const fields = STAGE_FIELDS.flatMap(({ key, kind }) => {
+    const value = stage[key];
+    if (value === undefined) return [];
+    return [`${key}: ${kind === 'list' ? formatList(value as string[]) : value}`.trimEnd()];
+  });
+
+  const blocks = [`## ${stage.title}\n---\n${fields.join('\n')}\n---`];
+  if (stage.description) blocks.push(escapeText(stage.description));
+  if (stage.tasks && stage.tasks.length > 0) blocks.push(stage.tasks.map(formatTask).join('\n'));
+  return blocks.join('\n\n');
+};
+
+/**
+ * Writes a roadmap as Markdown for `parseRoadmapMarkdown`. Text that would read
+ * as structure is escaped so it comes back as written, with two exceptions:
+ * whitespace around titles is trimmed, and a task owner containing a comma or
+ * parenthesis leaves the task's metadata in its title.
+ */
+export const roadmapToMarkdown = (data: RoadmapData): string => {
+  const frontMatter = [
+    `schemaVersion: ${data.schemaVersion}`,
+    ...DOCUMENT_FIELDS.filter(key => data[key] !== undefined).map(key => `${key}: ${JSON.stringify(data[key])}`)
+  ];
+
+  const blocks = [`---\n${frontMatter.join('\n')}\n---`, `# ${data.title}`];
+  if (data.description) blocks.push(escapeText(data.description));
+  data.stages.forEach(stage => blocks.push(formatStage(stage)));
+  return `${blocks.join('\n\n')}\n`;
+};
+
+// Blank lines around a block are layout, not content.
+const joinText = (lines: string[]) => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end).join('\n');
+};
+
+const parseTask = (checked: string, text: string): StageTask => {
+  let title = text;
+  let id: string | undefined;
+  const idMatch = TASK_ID.exec(title);
+  if (idMatch) {
+    id = idMatch[1];
+    title = title.slice(0, idMatch.index);
+  }
+
+  const task: StageTask = { id: id || newId(), title, done: checked !== ' ' };
+  const meta = readTaskMeta(title);
+  if (meta) {
+    meta.parts.forEach(part => {
+      if (part.startsWith('@')) task.owner = part.slice(1);
+      else task.dueDate = part.slice(4);
+    });
+    task.title = title.slice(0, meta.index);
+  }
+  task.title = task.title.trim().replace(ESCAPED_PAREN, ')');
+  return task;
+};
+
+/** Reads `key: value` lines between `---` fences starting at `start`; returns the line after the closing fence. */
+const readFrontMatter = (lines: string[], start: number, errors: SchemaError[]) => {
+  const fields = new Map<string, { value: string; line: number }>();
+  let i = start + 1;
+  for (; i < lines.length && !FENCE.test(lines[i]); i++) {
+    if (lines[i].trim() === '') continue;
+    const match = FIELD.exec(lines[i]);
+    if (match) {
+      fields.set(match[1], { value: match[2].trim(), line: i + 1 });
+    } else {
+      errors.push({ path: `line ${i + 1}`, message: 'expected "key: value"' });
+    }
+  }
+  if (i >= lines.length) errors.push({ path: `line ${start + 1}`, message: "front matter is missing its closing '---'" });
+  return { fields, next: i + 1 };
+};
+
+/**
+ * Builds a roadmap from Markdown. Structural problems are reported by line;
+ * the result then goes through the same migration and validation as JSON.
+ * Missing ids are generated and missing colors come from the theme palette.
+ */
+export const parseRoadmapMarkdown = (markdown: string): RoadmapParseResult => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const errors: SchemaError[] = [];
+  const doc: Record<string, unknown> = { schemaVersion: CURRENT_SCHEMA_VERSION };
+
+  let i = 0;
+  while (i < lines.length && lines[i].trim() === '') i++;
+  if (i < lines.length && FENCE.test(lines[i])) {
+    const { fields, next } = readFrontMatter(lines, i, errors);
+    fields.forEach(({ value, line }, key) => {
+      if (key === 'schemaVersion') {
+        doc.schemaVersion = Number(value);
+      } else if ((DOCUMENT_FIELDS as readonly string[]).includes(key)) {
+        try {
+          doc[key] = JSON.parse(value);
+        } catch {
+          errors.push({ path: `line ${line}`, message: `${key} must be JSON` });
+        }
+      } else {
+        errors.push({ path: `line ${line}`, message: `unknown field '${key}'` });
+      }
+    });
+    i = next;
+  }
+
+  const titleIndex = lines.findIndex((line, k) => k >= i && TITLE.test(line));
+  if (titleIndex < 0) {
+    errors.push({ path: 'title', message: 'expected a "# Title" heading' });
+    return { data: null, errors };
+  }
+  doc.title = lines[titleIndex].slice(1).trim();
+
+  // Split the rest into the roadmap description and one chunk per "## " heading.
+  const descriptionLines: string[] = [];
+  const chunks: { heading: string; line: number; body: string[] }[] = [];
+  for (let k = titleIndex + 1; k < lines.length; k++) {
+    if (STAGE_HEADING.test(lines[k])) {
+      chunks.push({ heading: lines[k].slice(2).trim(), line: k, body: [] });
+    } else if (chunks.length > 0) {
+      chunks[chunks.length - 1].body.push(lines[k]);
+    } else {
+      descriptionLines.push(unescapeLine(lines[k]));
+    }
+  }
+  doc.description = joinText(descriptionLines);
+
+  const theme = (doc.theme as RoadmapData['theme'] | undefined) || JSON.parse(JSON.stringify(DEFAULT_THEME));
+  const palette: string[] = Array.isArray(theme.palette) && theme.palette.length > 0 ? theme.palette : DEFAULT_THEME.palette;
+
+  doc.stages = chunks.map((chunk, index) => {
+    const stage: Record<string, unknown> = { title: chunk.heading };
+    let body = chunk.body;
+
+    if (body.length > 0 && FENCE.test(body[0])) {
+      const { fields, next } = readFrontMatter(lines, chunk.line + 1, errors);
+      fields.forEach(({ value, line }, key) => {
+        const field = STAGE_FIELDS.find(f => f.key === key);
+        if (!field) {
+          errors.push({ path: `line ${line}`, message: `unknown field '${key}'` });
+        } else if (field.kind === 'number') {
+          stage[key] = Number(value);
+        } else if (field.kind === 'list' && value.startsWith('[')) {
+          try {
+            stage[key] = JSON.parse(value);
+          } catch {
+            errors.push({ path: `line ${line}`, message: `${key} must be a comma-separated list or a JSON array` });
+          }
+        } else if (field.kind === 'list') {
+          stage[key] = value.split(',').map(item => item.trim()).filter(Boolean);
+        } else {
+          stage[key] = value;
+        }
+      });
+      body = body.slice(next - chunk.line - 1);
+    }
+
+    const text: string[] = [];
+    const tasks: StageTask[] = [];
+    body.forEach(line => {
+      const task = TASK.exec(line);
+      if (task) tasks.push(parseTask(task[1], task[2]));
+      else text.push(unescapeLine(line));
+    });
+
+    return {
+      ...stage,
+      id: stage.id || newId(),
+      color: stage.color || palette[index % palette.length],
+      description: joinText(text),
+      ...(tasks.length > 0 && { tasks })
+    };
+  });
+
+  if (errors.length > 0) return { data: null, errors };
+
+  return parseRoadmap({
+    layout: { ...DEFAULT_LAYOUT },
+    ...doc,
+    theme
+  });
+};
@@ -0,0 +1,85 @@
+import { ProjectStage, RoadmapData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../constants';
+import { pruneStageThreads } from './comments';
+import { formatIsoDate, resolveStageSpan } from './dates';
+import { RoadmapParseResult, isObject, parseRoadmap } from './schema';
+
+/*
+ * Milestone lists as returned by the GitHub (`/repos/:owner/:repo/milestones`)
+ * and GitLab (`/projects/:id/milestones`) APIs. Exports use the GitHub shape
+ * plus GitLab's date fields, so either tool's import scripts can read them.
+ */
+
+interface MilestoneExport {
+  title: string;
+  description: string;
+  state: 'open' | 'closed';
+  /** GitHub: due date as an ISO timestamp. */
+  due_on: string | null;
+  /** GitLab: start and due dates as calendar dates. */
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export const roadmapToMilestones = (data: RoadmapData): string => {
+  const milestones = data.stages.map((stage): MilestoneExport => {
+    const span = resolveStageSpan(stage);
+    return {
+      title: stage.title,
+      description: stage.description,
+      state: stage.status === 'done' ? 'closed' : 'open',
+      due_on: span ? `${formatIsoDate(span.end)}T00:00:00Z` : null,
+      start_date: span ? formatIsoDate(span.start) : null,
+      due_date: span ? formatIsoDate(span.end) : null
+    };
+  });
+  return `${JSON.stringify(milestones, null, 2)}\n`;
+};
+
+const asDate = (value: unknown) => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined);
+
+/**
+ * Reads a GitHub or GitLab milestone list into a roadmap that keeps the
+ * layout and theme of `base`. Closed milestones are done; open ones with
+ * closed issues are in progress. Lanes and threads on replaced stages are dropped.
+ */
+export const parseMilestones = (json: string, base: RoadmapData): RoadmapParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, errors: [{ path: '$', message: 'not valid JSON' }] };
+  }
+  if (!Array.isArray(raw)) {
+    return { data: null, errors: [{ path: '$', message: 'expected an array of milestones' }] };
+  }
+
+  const { palette } = base.theme;
+  const stages = raw.map((item: unknown, i): ProjectStage => {
+    // Entries that are not objects still become (untitled) stages, so the count matches the list.
+    const milestone = isObject(item) ? item : {};
+    const stage: ProjectStage = {
+      id: String(milestone.number ?? milestone.iid ?? milestone.id ?? Math.random().toString(36).substr(2, 9)),
+      title: typeof milestone.title === 'string' ? milestone.title : '',
+      description: typeof milestone.description === 'string' ? milestone.description : '',
+      color: palette[i % palette.length]
+    };
+    const start = asDate(milestone.start_date);
+    const due = asDate(milestone.due_on) || asDate(milestone.due_date);
+    if (start) stage.startDate = start;
+    if (due) stage.endDate = due;
+
+    if (milestone.state === 'closed') stage.status = 'done';
+    else if (Number(milestone.closed_issues) > 0) stage.status = 'in-progress';
+    return stage;
+  });
+
+  return parseRoadmap({
+    ...base,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    stages,
+    lanes: undefined,
+    comments: pruneStageThreads(base.comments, stages),
+    currentPosition: undefined
+  });
+};
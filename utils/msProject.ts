@@ -0,0 +1,163 @@
+import { ProjectStage, RoadmapData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../constants';
+import { pruneStageThreads } from './comments';
+import { formatIsoDate, resolveStageSpan, spanDays } from './dates';
+import { getStageProgress } from './progress';
+import { RoadmapParseResult, parseRoadmap } from './schema';
+
+/*
+ * MS Project XML (the `Project` schema read by Project, ProjectLibre and
+ * GanttProject). Each stage becomes a task; dependencies become
+ * finish-to-start predecessor links and assignees become resources.
+ */
+
+const NAMESPACE = 'http://schemas.microsoft.com/project';
+const HOURS_PER_DAY = 8;
+const WORK_START = 'T08:00:00';
+const WORK_FINISH = 'T17:00:00';
+// PredecessorLink type 1 is finish-to-start.
+const FINISH_TO_START = 1;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const element = (name: string, value: string | number) => `<${name}>${escapeXml(String(value))}</${name}>`;
+
+const percentComplete = (stage: ProjectStage) => {
+  if (stage.status === 'done') return 100;
+  const progress = getStageProgress(stage);
+  return progress ? Math.round(progress.ratio * 100) : 0;
+};
+
+export const roadmapToMsProject = (data: RoadmapData): string => {
+  const uidById = new Map(data.stages.map((stage, i) => [stage.id, i + 1]));
+  const resources = [...new Set(data.stages.flatMap(stage => stage.assignees || []))];
+  const spans = data.stages.map(resolveStageSpan);
+  const firstStart = spans.reduce<number | null>((min, span) => (span && (min === null || span.start < min) ? span.start : min), null);
+
+  const tasks = data.stages.map((stage, i) => {
+    const span = spans[i];
+    const lines = [
+      element('UID', i + 1),
+      element('ID', i + 1),
+      element('Name', stage.title),
+      element('OutlineLevel', 1),
+      element('PercentComplete', percentComplete(stage))
+    ];
+    if (span) {
+      lines.push(
+        element('Start', `${formatIsoDate(span.start)}${WORK_START}`),
+        element('Finish', `${formatIsoDate(span.end)}${WORK_FINISH}`),
+        element('Duration', `PT${spanDays(span) * HOURS_PER_DAY}H0M0S`)
+      );
+    }
+    if (stage.description) lines.push(element('Notes', stage.description));
+    (stage.dependsOn || []).forEach(depId => {
+      const uid = uidById.get(depId);
+      if (uid) lines.push(`<PredecessorLink>${element('PredecessorUID', uid)}${element('Type', FINISH_TO_START)}</PredecessorLink>`);
+    });
+    return `    <Task>\n      ${lines.join('\n      ')}\n    </Task>`;
+  });
+
+  const assignments = data.stages.flatMap((stage, i) =>
+    (stage.assignees || []).map(name =>
+      `    <Assignment>${element('TaskUID', i + 1)}${element('ResourceUID', resources.indexOf(name) + 1)}</Assignment>`
+    )
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${NAMESPACE}">`,
+    `  ${element('Name', data.title)}`,
+    `  ${element('Title', data.title)}`,
+    ...(data.description ? [`  ${element('Subject', data.description)}`] : []),
+    ...(firstStart !== null ? [`  ${element('StartDate', `${formatIsoDate(firstStart)}${WORK_START}`)}`] : []),
+    '  <Tasks>',
+    ...tasks,
+    '  </Tasks>',
+    '  <Resources>',
+    ...resources.map((name, i) => `    <Resource>${element('UID', i + 1)}${element('ID', i + 1)}${element('Name', name)}</Resource>`),
+    '  </Resources>',
+    '  <Assignments>',
+    ...assignments,
+    '  </Assignments>',
+    '</Project>',
+    ''
+  ].join('\n');
+};
+
+const childText = (parent: Element, name: string) => {
+  const child = Array.from(parent.children).find(el => el.localName === name);
+  return child?.textContent?.trim() || '';
+};
+
+const childElements = (parent: Element | undefined, name: string) =>
+  parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+/**
+ * Reads an MS Project XML file into a roadmap that keeps the layout and theme
+ * of `base`. Summary tasks and the project summary row (UID 0) are skipped, so
+ * only leaf tasks become stages. Lanes and threads on replaced stages are dropped.
+ */
+export const parseMsProject = (xml: string, base: RoadmapData): RoadmapParseResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const project = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || project.localName !== 'Project') {
+    return { data: null, errors: [{ path: '$', message: 'not an MS Project XML file' }] };
+  }
+
+  const tasks = childElements(childElements(project, 'Tasks')[0], 'Task').filter(
+    task => childText(task, 'UID') !== '0' && childText(task, 'Summary') !== '1' && childText(task, 'IsNull') !== '1'
+  );
+  const stageIdByUid = new Map(tasks.map(task => [childText(task, 'UID'), `task-${childText(task, 'UID')}`]));
+
+  const resourceNames = new Map(
+    childElements(childElements(project, 'Resources')[0], 'Resource').map(resource => [childText(resource, 'UID'), childText(resource, 'Name')])
+  );
+  const assigneesByTask = new Map<string, string[]>();
+  childElements(childElements(project, 'Assignments')[0], 'Assignment').forEach(assignment => {
+    const name = resourceNames.get(childText(assignment, 'ResourceUID'));
+    if (!name) return;
+    const taskUid = childText(assignment, 'TaskUID');
+    assigneesByTask.set(taskUid, [...(assigneesByTask.get(taskUid) || []), name]);
+  });
+
+  const { palette } = base.theme;
+  const stages = tasks.map((task, i): ProjectStage => {
+    const uid = childText(task, 'UID');
+    const stage: ProjectStage = {
+      id: stageIdByUid.get(uid)!,
+      title: childText(task, 'Name'),
+      description: childText(task, 'Notes'),
+      color: palette[i % palette.length]
+    };
+    const start = childText(task, 'Start').slice(0, 10);
+    const finish = childText(task, 'Finish').slice(0, 10);
+    if (start) stage.startDate = start;
+    if (finish) stage.endDate = finish;
+
+    const dependsOn = childElements(task, 'PredecessorLink')
+      .map(link => stageIdByUid.get(childText(link, 'PredecessorUID')))
+      .filter((id): id is string => !!id);
+    if (dependsOn.length > 0) stage.dependsOn = [...new Set(dependsOn)];
+
+    const percent = Number(childText(task, 'PercentComplete')) || 0;
+    if (percent >= 100) stage.status = 'done';
+    else if (percent > 0) stage.status = 'in-progress';
+
+    const assignees = assigneesByTask.get(uid);
+    if (assignees) stage.assignees = [...new Set(assignees)];
+    return stage;
+  });
+
+  return parseRoadmap({
+    ...base,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    title: childText(project, 'Title') || childText(project, 'Name') || base.title,
+    description: childText(project, 'Subject'),
+    stages,
+    lanes: undefined,
+    comments: pruneStageThreads(base.comments, stages),
+    currentPosition: undefined
+  });
+};
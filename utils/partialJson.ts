@@ -0,0 +1,42 @@
+/**
+ * Reads the finished items of an array from JSON that is still arriving,
+ * e.g. `{"stages": [{...}, {...}, {"ti` yields the first two objects. Only
+ * object and array items are returned; the array is found by its key.
+ */
+export const readCompleteArrayItems = (text: string, key: string): unknown[] => {
+  const opening = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!opening) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = opening.index + opening[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0 && start >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // A malformed item is left for the final validation to report.
+        }
+        start = -1;
+      }
+    }
+  }
+  return items;
+};
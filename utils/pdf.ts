@@ -0,0 +1,86 @@
+export interface PdfImagePage {
+  /** Baseline JPEG bytes for the page image. */
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Placement on the page in points, measured from the top-left corner. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+const encoder = new TextEncoder();
+
+// PDF literal strings only need backslashes and parentheses escaped; non-ASCII is dropped.
+const pdfString = (value: string) => `(${value.replace(/[^\x20-\x7e]/g, '').replace(/([\\()])/g, '\\$1')})`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Writes a minimal PDF where every page shows one JPEG image. JPEG data is
+ * embedded as-is (DCTDecode), so no compression library is needed.
+ */
+export const buildImagePdf = (pages: PdfImagePage[], options: PdfDocumentOptions): Blob => {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: () => void) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    body();
+    write('\nendobj\n');
+  };
+
+  // Object ids: 1 catalog, 2 page tree, 3 info, then three objects per page.
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  object(1, () => write('<< /Type /Catalog /Pages 2 0 R >>'));
+  object(2, () => write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`));
+  object(3, () => write(`<< /Title ${pdfString(options.title)} /Producer (Roadmap Visionary) >>`));
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const bottom = options.pageHeight - page.y - page.height;
+    const content = `q ${round(page.width)} 0 0 ${round(page.height)} ${round(page.x)} ${round(bottom)} cm /Im0 Do Q`;
+
+    object(pageId, () => write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(options.pageWidth)} ${round(options.pageHeight)}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    ));
+    object(contentId, () => write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`));
+    object(imageId, () => {
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+      );
+      write(page.jpeg);
+      write('\nendstream');
+    });
+  });
+
+  const xrefOffset = length;
+  const objectCount = 4 + pages.length * 3;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,40 @@
+import { ProjectStage } from '../types';
+
+export interface StageProgress {
+  done: number;
+  total: number;
+  /** Completed share between 0 and 1. */
+  ratio: number;
+}
+
+/** Task completion for a stage, or null when it has no tasks to track. */
+export const getStageProgress = (stage: ProjectStage): StageProgress | null => {
+  const tasks = stage.tasks || [];
+  if (tasks.length === 0) return null;
+  const done = tasks.filter(task => task.done).length;
+  return { done, total: tasks.length, ratio: done / tasks.length };
+};
+
+export const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * How far along the road the roadmap has got, as the filled share of the road
+ * leading up to each stage. A stage's road fills as its tasks get done, and
+ * reaches the pin once all of them are. Stages without tasks count as passed
+ * once any later stage has started, and as not started otherwise. Returns null
+ * when no stage has tasks.
+ */
+export const getRoadProgress = (stages: ProjectStage[]): number[] | null => {
+  const progress = stages.map(getStageProgress);
+  if (progress.every(p => p === null)) return null;
+
+  let frontier = -1;
+  progress.forEach((p, i) => {
+    if (p && p.done > 0) frontier = i;
+  });
+
+  return progress.map((p, i) => {
+    if (p) return p.ratio;
+    return i < frontier ? 1 : 0;
+  });
+};
@@ -0,0 +1,191 @@
+import { LayoutSettings, PathType, ProjectStage } from '../types';
+import { RoadGeometry, RoadPoint } from './calendarLayout';
+
+export interface CardSize {
+  width: number;
+  height: number;
+}
+
+export interface RoadLayout {
+  width: number;
+  height: number;
+  positions: RoadPoint[];
+  pathData: string;
+  /** Road leading up to each stage: from the previous pin, or the road start for the first stage. */
+  segmentPaths: string[];
+  /** Just past the end of the road, where the "add stage" button sits. */
+  end: { x: number; y: number };
+  /** Gaps between rows (or stages on a vertical road) where paged exports can cut. */
+  pageBreaks: number[];
+}
+
+export const HORIZONTAL_PADDING = 100;
+// Room above the road for the exported title block.
+export const ROAD_OFFSET_Y = 140;
+export const PIN_HEAD_OFFSET = 55;
+
+const LEAD_IN = 100;
+const LEAD_OUT = 150;
+const BOTTOM_MARGIN = 50;
+const TURN_BULGE = 0.7;
+const ZIGZAG_AMPLITUDE = 50;
+const WAVE_AMPLITUDE = 50;
+// Cards clear the pin by this much: above the pin head, or below the pin tip.
+const CARD_ABOVE_GAP = 85;
+const CARD_BELOW_GAP = 35;
+// Horizontal distance from a vertical road's centre line to the nearest card edge.
+const VERTICAL_CARD_GAP = 110;
+
+const stagesPerRow = (count: number, settings: LayoutSettings) =>
+  settings.orientation === 'horizontal' ? Math.max(1, count) : settings.stagesPerRow;
+
+/**
+ * Row geometry for the calendar layout, which only supports roads made of
+ * rows. Returns null for vertical roads.
+ */
+export const getRowGeometry = (count: number, settings: LayoutSettings): RoadGeometry | null => {
+  if (settings.orientation === 'vertical') return null;
+  return {
+    stagesPerRow: stagesPerRow(count, settings),
+    stageWidth: settings.stageSpacing,
+    rowHeight: settings.rowSpacing,
+    roadOffsetY: ROAD_OFFSET_Y,
+    horizontalPadding: HORIZONTAL_PADDING
+  };
+};
+
+/** Explicit placement wins; otherwise cards alternate, starting above the road. */
+export const resolvePlacement = (stage: ProjectStage, index: number): PathType =>
+  stage.placement || (index % 2 === 0 ? PathType.PEAK : PathType.VALLEY);
+
+/** Top-left corner of a stage card anchored at the given road point. */
+export const getCardOrigin = (pos: RoadPoint, placement: PathType, settings: LayoutSettings, card: CardSize) => {
+  if (settings.orientation === 'vertical') {
+    return {
+      x: placement === PathType.PEAK ? pos.x - VERTICAL_CARD_GAP - card.width : pos.x + VERTICAL_CARD_GAP,
+      y: pos.y - PIN_HEAD_OFFSET - card.height / 2
+    };
+  }
+  return {
+    x: pos.x - card.width / 2,
+    y: placement === PathType.PEAK ? pos.y - CARD_ABOVE_GAP - card.height : pos.y + CARD_BELOW_GAP
+  };
+};
+
+// Segment `i` continues from pin `i - 1`, so it becomes a standalone path once that pin is prepended.
+const toSegmentPaths = (start: string, positions: RoadPoint[], segments: string[]) =>
+  segments.map((segment, i) => (i === 0 ? `${start}${segment}` : `M ${positions[i - 1].x} ${positions[i - 1].y}${segment}`));
+
+const computeRowLayout = (count: number, settings: LayoutSettings): RoadLayout => {
+  const perRow = stagesPerRow(count, settings);
+  const spacing = settings.stageSpacing;
+  const numRows = Math.max(1, Math.ceil(count / perRow));
+
+  const positions: RoadPoint[] = Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / perRow);
+    const col = i % perRow;
+    const isEvenRow = row % 2 === 0;
+    const x = isEvenRow
+      ? (col + 0.5) * spacing + HORIZONTAL_PADDING
+      : (perRow - col - 0.5) * spacing + HORIZONTAL_PADDING;
+    const y = row * settings.rowSpacing + settings.rowSpacing / 2 + ROAD_OFFSET_Y;
+    return { x, y, row, isEvenRow };
+  });
+
+  const first = positions[0];
+  const last = positions[count - 1];
+  const start = `M ${first.x - (first.isEvenRow ? LEAD_IN : -LEAD_IN)} ${first.y}`;
+  const segments = [` L ${first.x} ${first.y}`];
+
+  for (let i = 0; i < count - 1; i++) {
+    const current = positions[i];
+    const next = positions[i + 1];
+    const dir = current.isEvenRow ? 1 : -1;
+
+    if (current.row === next.row) {
+      if (settings.roadStyle === 'zigzag') {
+        const offset = i % 2 === 0 ? -ZIGZAG_AMPLITUDE : ZIGZAG_AMPLITUDE;
+        segments.push(` L ${(current.x + next.x) / 2} ${current.y + offset} L ${next.x} ${next.y}`);
+      } else if (settings.roadStyle === 'straight') {
+        segments.push(` L ${next.x} ${next.y}`);
+      } else {
+        segments.push(` C ${current.x + dir * spacing / 2} ${current.y}, ${next.x - dir * spacing / 2} ${next.y}, ${next.x} ${next.y}`);
+      }
+      continue;
+    }
+
+    // Row change: the road leaves past the last stage and comes back on the next row.
+    if (settings.roadStyle === 'zigzag') {
+      segments.push(` L ${current.x + dir * spacing / 2} ${(current.y + next.y) / 2} L ${next.x} ${next.y}`);
+    } else if (settings.roadStyle === 'straight') {
+      const outX = current.x + dir * spacing / 2;
+      segments.push(` L ${outX} ${current.y} L ${outX} ${next.y} L ${next.x} ${next.y}`);
+    } else {
+      const bulge = dir * spacing * TURN_BULGE;
+      segments.push(` C ${current.x + bulge} ${current.y}, ${next.x + bulge} ${next.y}, ${next.x} ${next.y}`);
+    }
+  }
+
+  const end = { x: last.x + (last.isEvenRow ? LEAD_OUT : -LEAD_OUT), y: last.y };
+
+  return {
+    width: perRow * spacing + HORIZONTAL_PADDING * 2,
+    height: numRows * settings.rowSpacing + ROAD_OFFSET_Y + BOTTOM_MARGIN,
+    positions,
+    pathData: `${start}${segments.join('')} L ${end.x} ${end.y}`,
+    segmentPaths: toSegmentPaths(start, positions, segments),
+    end,
+    pageBreaks: Array.from({ length: numRows - 1 }, (_, r) => (r + 1) * settings.rowSpacing + ROAD_OFFSET_Y - 25)
+  };
+};
+
+const computeVerticalLayout = (count: number, settings: LayoutSettings, card: CardSize): RoadLayout => {
+  const spacing = settings.stageSpacing;
+  const width = (HORIZONTAL_PADDING + card.width + VERTICAL_CARD_GAP) * 2;
+  const x = width / 2;
+  const firstY = ROAD_OFFSET_Y + LEAD_IN + PIN_HEAD_OFFSET;
+
+  const positions: RoadPoint[] = Array.from({ length: count }, (_, i) => ({
+    x,
+    y: firstY + i * spacing,
+    row: i,
+    isEvenRow: true
+  }));
+
+  const start = `M ${x} ${firstY - LEAD_IN}`;
+  const segments = [` L ${x} ${firstY}`];
+  for (let i = 0; i < count - 1; i++) {
+    const from = positions[i].y;
+    const to = positions[i + 1].y;
+    const side = i % 2 === 0 ? 1 : -1;
+    if (settings.roadStyle === 'zigzag') {
+      segments.push(` L ${x + side * ZIGZAG_AMPLITUDE} ${(from + to) / 2} L ${x} ${to}`);
+    } else if (settings.roadStyle === 'straight') {
+      segments.push(` L ${x} ${to}`);
+    } else {
+      const bend = x + side * WAVE_AMPLITUDE;
+      segments.push(` C ${bend} ${from + spacing / 3}, ${bend} ${to - spacing / 3}, ${x} ${to}`);
+    }
+  }
+
+  const end = { x, y: positions[count - 1].y + LEAD_OUT };
+
+  return {
+    width,
+    height: end.y + BOTTOM_MARGIN * 2,
+    positions,
+    pathData: `${start}${segments.join('')} L ${end.x} ${end.y}`,
+    segmentPaths: toSegmentPaths(start, positions, segments),
+    end,
+    pageBreaks: positions.slice(0, -1).map(p => p.y - PIN_HEAD_OFFSET + spacing / 2)
+  };
+};
+
+/**
+ * Places stages along the road for the even (non-calendar) layout and traces
+ * the road through them in the configured style. Expects at least one stage.
+ */
+export const computeRoadLayout = (count: number, settings: LayoutSettings, card: CardSize): RoadLayout =>
+  settings.orientation === 'vertical'
+    ? computeVerticalLayout(count, settings, card)
+    : computeRowLayout(count, settings);
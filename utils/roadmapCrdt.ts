@@ -0,0 +1,375 @@
+import { ProjectStage, RoadmapComment, RoadmapData } from '../types';
+import { isObject } from './schema';
+import { longestIncreasing } from './sequences';
+
+/*
+ * Operation-based CRDT for a roadmap, so several people can edit one at once.
+ *
+ * - Every field is a last-writer-wins register, ordered by Lamport stamps.
+ * - Titles and descriptions are character sequences (RGA), so concurrent
+ *   typing in the same field interleaves instead of overwriting.
+ * - Stages are ordered by fractional position keys. A move only rewrites the
+ *   moved stage's key, so concurrent reorders of different stages both apply.
+ * - Comments are registers of their own, keyed by id, so replies and
+ *   resolutions from different people all survive.
+ *
+ * The document never sees React state directly: `commitLocal` diffs a
+ * RoadmapData against the document and turns the difference into operations.
+ */
+
+export interface Stamp {
+  clock: number;
+  client: string;
+}
+
+/** Scope of an operation: the roadmap itself or one of its stages. */
+type Scope = { stageId?: string };
+
+export type RoadmapOp =
+  | (Scope & { type: 'set'; field: string; value: unknown; stamp: Stamp })
+  | (Scope & { type: 'insert'; field: string; after: string | null; text: string; stamp: Stamp })
+  | (Scope & { type: 'delete'; field: string; ids: string[]; stamp: Stamp });
+
+interface Register {
+  value: unknown;
+  stamp: Stamp;
+}
+
+interface TextChar {
+  id: string;
+  stamp: Stamp;
+  char: string;
+  deleted: boolean;
+}
+
+export interface RoadmapCrdt {
+  /** Applies operations from other clients; already-seen operations are ignored. */
+  applyRemote: (ops: RoadmapOp[]) => void;
+  /** Records how `next` differs from the document and returns the operations to broadcast. */
+  commitLocal: (next: RoadmapData) => RoadmapOp[];
+  /** The current document, or null before anything has been written to it. */
+  materialize: () => RoadmapData | null;
+}
+
+const TEXT_FIELDS = ['title', 'description'];
+// Object-valued roadmap fields synced key by key, so e.g. two theme tweaks merge.
+const NESTED_FIELDS = ['layout', 'theme'];
+const COMMENTS = 'comments';
+const ALIVE = '$alive';
+const POSITION = '$position';
+const STAGE_PREFIX = 'stage:';
+
+const compareStamps = (a: Stamp, b: Stamp) => a.clock - b.clock || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+const charId = (stamp: Stamp, offset = 0) => `${stamp.clock + offset}@${stamp.client}`;
+const scopeKey = (stageId?: string) => (stageId ? `${STAGE_PREFIX}${stageId}` : 'doc');
+const fieldKey = (stageId: string | undefined, field: string) => `${scopeKey(stageId)}/${field}`;
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+const commentField = (id: string) => `${COMMENTS}[${id}]`;
+// Roadmap field a `doc/...` register belongs to: `doc/theme.colors` and `doc/comments[x]` belong to theme and comments.
+const docFieldOf = (key: string) => key.slice('doc/'.length).split(/[.[]/)[0];
+
+const isStamp = (value: unknown): value is Stamp =>
+  isObject(value) && Number.isSafeInteger(value.clock) && (value.clock as number) >= 0 && typeof value.client === 'string';
+
+type ValueCheck = (value: unknown) => boolean;
+
+const isString: ValueCheck = value => typeof value === 'string';
+const isNumber: ValueCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isStringList: ValueCheck = value => Array.isArray(value) && value.every(isString);
+const isObjectList: ValueCheck = value => Array.isArray(value) && value.every(isObject);
+
+/*
+ * The registers a remote `set` may write, with the values each accepts
+ * (undefined clears one). Ids, stage order and the text fields are never set,
+ * so a misbehaving peer cannot replace `stages` or turn a color into a number.
+ * A new roadmap or stage field has to be added here before it syncs.
+ */
+const STAGE_SET_FIELDS = new Map<string, ValueCheck>([
+  [ALIVE, value => typeof value === 'boolean'],
+  [POSITION, isString],
+  ['color', isString],
+  ['startDate', isString],
+  ['endDate', isString],
+  ['durationDays', isNumber],
+  ['dependsOn', isStringList],
+  ['placement', isString],
+  ['tasks', isObjectList],
+  ['status', isString],
+  ['assignees', isStringList],
+  ['laneId', isString]
+]);
+const DOC_SET_FIELDS = new Map<string, ValueCheck>([
+  ['schemaVersion', isNumber],
+  ['currentPosition', isObject],
+  ['lanes', isObjectList],
+  ['layout.orientation', isString],
+  ['layout.stagesPerRow', isNumber],
+  ['layout.stageSpacing', isNumber],
+  ['layout.rowSpacing', isNumber],
+  ['layout.roadStyle', isString],
+  ['theme.name', isString],
+  ['theme.palette', isStringList],
+  ['theme.colors', isObject],
+  ['theme.fonts', isObject],
+  ['theme.cardRadius', isNumber],
+  ['theme.logo', isString]
+]);
+const COMMENT_FIELD = /^comments\[(.+)\]$/;
+
+const isValidSet = (stageId: unknown, field: string, value: unknown) => {
+  const comment = stageId === undefined ? COMMENT_FIELD.exec(field) : null;
+  if (comment) return value === undefined || (isObject(value) && value.id === comment[1]);
+  const check = (stageId === undefined ? DOC_SET_FIELDS : STAGE_SET_FIELDS).get(field);
+  return !!check && (value === undefined || check(value));
+};
+
+/** Whether a value received from another client is an operation this document can apply. */
+export const isRoadmapOp = (value: unknown): value is RoadmapOp => {
+  if (!isObject(value) || !isStamp(value.stamp) || typeof value.field !== 'string') return false;
+  if (value.stageId !== undefined && typeof value.stageId !== 'string') return false;
+  if (value.type === 'set') return isValidSet(value.stageId, value.field, value.value);
+  if (!TEXT_FIELDS.includes(value.field)) return false;
+  if (value.type === 'insert') return (value.after === null || typeof value.after === 'string') && typeof value.text === 'string';
+  if (value.type === 'delete') return Array.isArray(value.ids) && value.ids.every(id => typeof id === 'string');
+  return false;
+};
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * A position key sorting strictly between `before` and `after` (null for
+ * either end). Keys are base-36 fractions, so there is always room between two.
+ */
+export const positionBetween = (before: string | null, after: string | null): string => {
+  const lower = before ?? '';
+  let upper = after;
+  let key = '';
+  for (let i = 0; ; i++) {
+    const low = i < lower.length ? DIGITS.indexOf(lower[i]) : 0;
+    const high = upper === null ? DIGITS.length : i < upper.length ? DIGITS.indexOf(upper[i]) : 0;
+    if (high - low > 1) return key + DIGITS[Math.floor((low + high) / 2)];
+    key += DIGITS[low];
+    // Once below the upper key's digit, any continuation stays below it.
+    if (high > low) upper = null;
+  }
+};
+
+export const createRoadmapCrdt = (client: string): RoadmapCrdt => {
+  let clock = 0;
+  const registers = new Map<string, Register>();
+  const texts = new Map<string, TextChar[]>();
+  const stageIds: string[] = [];
+  const seenStamps = new Set<string>();
+
+  const observe = (stamp: Stamp, span = 1) => {
+    clock = Math.max(clock, stamp.clock + span - 1);
+  };
+
+  const track = (stageId?: string) => {
+    if (stageId && !stageIds.includes(stageId)) stageIds.push(stageId);
+  };
+
+  const read = (stageId: string | undefined, field: string) => registers.get(fieldKey(stageId, field))?.value;
+
+  const visibleChars = (stageId: string | undefined, field: string) =>
+    (texts.get(fieldKey(stageId, field)) || []).filter(c => !c.deleted);
+
+  const readText = (stageId: string | undefined, field: string) =>
+    visibleChars(stageId, field).map(c => c.char).join('');
+
+  const apply = (op: RoadmapOp) => {
+    const opKey = charId(op.stamp);
+    if (seenStamps.has(opKey)) return;
+    seenStamps.add(opKey);
+    track(op.stageId);
+    const key = fieldKey(op.stageId, op.field);
+
+    if (op.type === 'set') {
+      observe(op.stamp);
+      const current = registers.get(key);
+      if (!current || compareStamps(op.stamp, current.stamp) > 0) registers.set(key, { value: op.value, stamp: op.stamp });
+    } else if (op.type === 'insert') {
+      observe(op.stamp, op.text.length);
+      const chars = texts.get(key) || [];
+      // RGA: skip past anything inserted after the same character by a later stamp.
+      let at = op.after === null ? 0 : chars.findIndex(c => c.id === op.after) + 1;
+      while (at < chars.length && compareStamps(chars[at].stamp, op.stamp) > 0) at++;
+      const run = Array.from(op.text, (char, i): TextChar => ({
+        id: charId(op.stamp, i),
+        stamp: { clock: op.stamp.clock + i, client: op.stamp.client },
+        char,
+        deleted: false
+      }));
+      chars.splice(at, 0, ...run);
+      texts.set(key, chars);
+    } else {
+      observe(op.stamp);
+      const ids = new Set(op.ids);
+      (texts.get(key) || []).forEach(c => {
+        if (ids.has(c.id)) c.deleted = true;
+      });
+    }
+  };
+
+  const materialize = (): RoadmapData | null => {
+    if (registers.size === 0 && texts.size === 0) return null;
+
+    const alive = stageIds.filter(id => read(id, ALIVE) === true);
+    const aliveIds = new Set(alive);
+    const stages = alive
+      .map(id => ({ id, position: String(read(id, POSITION) ?? '') }))
+      .sort((a, b) => (a.position < b.position ? -1 : a.position > b.position ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(({ id }) => {
+        const stage: Record<string, unknown> = { id, title: readText(id, 'title'), description: readText(id, 'description') };
+        registers.forEach((register, key) => {
+          const prefix = `${scopeKey(id)}/`;
+          if (!key.startsWith(prefix) || register.value === undefined) return;
+          const field = key.slice(prefix.length);
+          if (!field.startsWith('$')) stage[field] = register.value;
+        });
+        // A stage removed by someone else takes its incoming dependencies with it.
+        if (Array.isArray(stage.dependsOn)) stage.dependsOn = stage.dependsOn.filter(dep => aliveIds.has(dep));
+        return stage as unknown as ProjectStage;
+      });
+
+    const data: Record<string, unknown> = { title: readText(undefined, 'title'), description: readText(undefined, 'description'), stages };
+    const comments: RoadmapComment[] = [];
+    registers.forEach((register, key) => {
+      if (!key.startsWith('doc/') || register.value === undefined) return;
+      if (docFieldOf(key) === COMMENTS) {
+        comments.push(register.value as RoadmapComment);
+        return;
+      }
+      const [field, nested] = key.slice('doc/'.length).split('.');
+      if (nested === undefined) data[field] = register.value;
+      else data[field] = { ...(data[field] as object), [nested]: register.value };
+    });
+    if (comments.length > 0) data.comments = comments.sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1));
+    const position = data.currentPosition as RoadmapData['currentPosition'];
+    if (position && !aliveIds.has(position.stageId)) delete data.currentPosition;
+    // Stages in a lane someone else removed fall back to the first lane.
+    const laneIds = new Set(((data.lanes as RoadmapData['lanes']) || []).map(lane => lane.id));
+    stages.forEach(stage => {
+      if (stage.laneId !== undefined && !laneIds.has(stage.laneId)) delete stage.laneId;
+    });
+    return data as unknown as RoadmapData;
+  };
+
+  const commitLocal = (next: RoadmapData): RoadmapOp[] => {
+    const ops: RoadmapOp[] = [];
+    const emit = (op: RoadmapOp) => {
+      apply(op);
+      ops.push(op);
+    };
+    const stamp = (span = 1): Stamp => {
+      const result = { clock: clock + 1, client };
+      clock += span;
+      return result;
+    };
+
+    const setField = (stageId: string | undefined, field: string, value: unknown) => {
+      const current = registers.get(fieldKey(stageId, field));
+      if (current ? sameValue(current.value, value) : value === undefined) return;
+      emit({ type: 'set', stageId, field, value, stamp: stamp() });
+    };
+
+    // Replaces the changed middle of the text, keeping the common prefix and suffix.
+    const setText = (stageId: string | undefined, field: string, value: string) => {
+      const chars = visibleChars(stageId, field);
+      const current = chars.map(c => c.char).join('');
+      if (current === value) return;
+      const oldChars = Array.from(current);
+      const newChars = Array.from(value);
+      let prefix = 0;
+      while (prefix < oldChars.length && prefix < newChars.length && oldChars[prefix] === newChars[prefix]) prefix++;
+      let suffix = 0;
+      while (
+        suffix < oldChars.length - prefix &&
+        suffix < newChars.length - prefix &&
+        oldChars[oldChars.length - 1 - suffix] === newChars[newChars.length - 1 - suffix]
+      ) suffix++;
+
+      // Code points and characters line up, since each inserted character is one code point.
+      const removed = chars.slice(prefix, chars.length - suffix);
+      if (removed.length > 0) emit({ type: 'delete', stageId, field, ids: removed.map(c => c.id), stamp: stamp() });
+      const inserted = newChars.slice(prefix, newChars.length - suffix);
+      if (inserted.length > 0) {
+        const after = prefix > 0 ? chars[prefix - 1].id : null;
+        emit({ type: 'insert', stageId, field, after, text: inserted.join(''), stamp: stamp(inserted.length) });
+      }
+    };
+
+    TEXT_FIELDS.forEach(field => setText(undefined, field, String(next[field as keyof RoadmapData] ?? '')));
+    const docFields = new Set([
+      ...Object.keys(next),
+      ...Array.from(registers.keys()).filter(key => key.startsWith('doc/')).map(docFieldOf)
+    ]);
+    docFields.forEach(field => {
+      if (field === 'stages' || TEXT_FIELDS.includes(field)) return;
+      const value = (next as unknown as Record<string, unknown>)[field];
+      if (field === COMMENTS) {
+        const byId = new Map((next.comments || []).map(comment => [comment.id, comment]));
+        const known = Array.from(registers.keys())
+          .filter(key => key.startsWith(`doc/${COMMENTS}[`))
+          .map(key => key.slice(`doc/${COMMENTS}[`.length, -1));
+        new Set([...known, ...byId.keys()]).forEach(id => setField(undefined, commentField(id), byId.get(id)));
+      } else if (NESTED_FIELDS.includes(field) && value && typeof value === 'object') {
+        Object.entries(value).forEach(([nested, nestedValue]) => setField(undefined, `${field}.${nested}`, nestedValue));
+      } else {
+        setField(undefined, field, value);
+      }
+    });
+
+    // Order: stages that keep their relative order keep their keys; the rest get new ones.
+    const nextIds = new Set(next.stages.map(s => s.id));
+    const previousOrder = (materialize()?.stages || []).map(s => s.id);
+    const previousIndex = new Map(previousOrder.map((id, i) => [id, i]));
+    const existing = next.stages.map((s, i) => i).filter(i => previousIndex.has(next.stages[i].id));
+    const kept = new Set<number>();
+    longestIncreasing(existing.map(i => previousIndex.get(next.stages[i].id) as number)).forEach(k => kept.add(existing[k]));
+    // Concurrent inserts can leave equal keys; only strictly increasing ones are kept.
+    let lastKept = '';
+    next.stages.forEach((stage, i) => {
+      const position = read(stage.id, POSITION);
+      if (!kept.has(i)) return;
+      if (typeof position !== 'string' || position <= lastKept) kept.delete(i);
+      else lastKept = position;
+    });
+    const keyOf = (i: number) => (kept.has(i) ? (read(next.stages[i].id, POSITION) as string) : null);
+    let before: string | null = null;
+    next.stages.forEach((stage, i) => {
+      let position = keyOf(i);
+      if (position === null) {
+        let after: string | null = null;
+        for (let j = i + 1; j < next.stages.length && after === null; j++) after = keyOf(j);
+        position = positionBetween(before, after);
+        setField(stage.id, POSITION, position);
+      }
+      before = position;
+    });
+
+    next.stages.forEach(stage => {
+      setField(stage.id, ALIVE, true);
+      TEXT_FIELDS.forEach(field => setText(stage.id, field, String(stage[field as keyof ProjectStage] ?? '')));
+      const fields = new Set([
+        ...Object.keys(stage),
+        ...Array.from(registers.keys())
+          .filter(key => key.startsWith(`${scopeKey(stage.id)}/`))
+          .map(key => key.slice(scopeKey(stage.id).length + 1))
+      ]);
+      fields.forEach(field => {
+        if (field === 'id' || field.startsWith('$') || TEXT_FIELDS.includes(field)) return;
+        setField(stage.id, field, (stage as unknown as Record<string, unknown>)[field]);
+      });
+    });
+    stageIds.filter(id => !nextIds.has(id)).forEach(id => setField(id, ALIVE, false));
+
+    return ops;
+  };
+
+  return {
+    applyRemote: ops => ops.forEach(apply),
+    commitLocal,
+    materialize
+  };
+};
@@ -0,0 +1,156 @@
+import { PathType, ProjectStage, RoadmapData, StageChange, StageTask } from '../types';
+import { STAGE_STATUSES } from '../constants';
+import { wouldCreateCycle } from './dependencies';
+import { TextDiffPart, diffText, longestIncreasing } from './sequences';
+
+export interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+  parts: TextDiffPart[];
+}
+
+export interface StageDiff {
+  id: string;
+  kind: 'added' | 'removed' | 'kept';
+  /** A kept stage whose place among the other kept stages changed. */
+  moved: boolean;
+  before?: ProjectStage;
+  after?: ProjectStage;
+  /** Differences between the two versions; empty unless the stage was kept. */
+  fields: FieldChange[];
+}
+
+export interface RoadmapDiff {
+  /** Title, description, layout, theme, lane and marker changes. */
+  document: FieldChange[];
+  /** Stages in the newer order, with removed ones back where they used to be. */
+  stages: StageDiff[];
+}
+
+type TitleOf = (id: string) => string;
+
+const formatTask = (task: StageTask) =>
+  [task.done ? '[x]' : '[ ]', task.title, task.owner && `@${task.owner}`, task.dueDate && `due ${task.dueDate}`].filter(Boolean).join(' ');
+
+const STAGE_FIELDS: { label: string; format: (stage: ProjectStage, titleOf: TitleOf) => string }[] = [
+  { label: 'Title', format: stage => stage.title },
+  { label: 'Description', format: stage => stage.description },
+  { label: 'Status', format: stage => STAGE_STATUSES.find(s => s.value === (stage.status || 'not-started'))?.label || '' },
+  { label: 'Assignees', format: stage => (stage.assignees || []).join(', ') },
+  { label: 'Tasks', format: stage => (stage.tasks || []).map(formatTask).join('\n') },
+  {
+    label: 'Schedule',
+    format: stage => [stage.startDate, stage.endDate && `to ${stage.endDate}`, stage.durationDays && `${stage.durationDays} days`].filter(Boolean).join(' ')
+  },
+  { label: 'Depends on', format: (stage, titleOf) => (stage.dependsOn || []).map(titleOf).join(', ') },
+  { label: 'Lane', format: (stage, titleOf) => (stage.laneId ? titleOf(stage.laneId) : '') },
+  { label: 'Color', format: stage => stage.color.toLowerCase() },
+  { label: 'Card', format: stage => (stage.placement === PathType.PEAK ? 'Above' : stage.placement === PathType.VALLEY ? 'Below' : 'Auto') }
+];
+
+// One `key: value` line per setting, so a diff points at the settings that changed.
+const formatSettings = (settings: object) =>
+  Object.entries(settings)
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([key, value]) => `${key}: ${key === 'logo' ? 'image' : typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join('\n');
+
+const DOCUMENT_FIELDS: { label: string; format: (data: RoadmapData, titleOf: TitleOf) => string }[] = [
+  { label: 'Title', format: data => data.title },
+  { label: 'Description', format: data => data.description },
+  { label: 'Layout', format: data => formatSettings(data.layout) },
+  { label: 'Theme', format: data => formatSettings(data.theme) },
+  { label: 'Lanes', format: data => (data.lanes || []).map(lane => `${lane.name} (${lane.color.toLowerCase()})`).join('\n') },
+  {
+    label: 'You are here',
+    format: (data, titleOf) => (data.currentPosition ? `${Math.round(data.currentPosition.offset * 100)}% of the way to ${titleOf(data.currentPosition.stageId)}` : '')
+  }
+];
+
+// Stage titles and lane names, by id.
+const titleLookup = (data: RoadmapData): TitleOf => {
+  const titles = new Map([
+    ...data.stages.map(stage => [stage.id, stage.title || 'Untitled'] as const),
+    ...(data.lanes || []).map(lane => [lane.id, lane.name || 'Untitled'] as const)
+  ]);
+  return id => titles.get(id) || id;
+};
+
+const compareFields = <T>(
+  fields: { label: string; format: (value: T, titleOf: TitleOf) => string }[],
+  before: T,
+  after: T,
+  beforeTitles: TitleOf,
+  afterTitles: TitleOf
+): FieldChange[] =>
+  fields.flatMap(({ label, format }) => {
+    const from = format(before, beforeTitles);
+    const to = format(after, afterTitles);
+    return from === to ? [] : [{ label, before: from, after: to, parts: diffText(from, to) }];
+  });
+
+/** Compares two versions of a roadmap, matching stages by id. */
+export const diffRoadmaps = (before: RoadmapData, after: RoadmapData): RoadmapDiff => {
+  const beforeTitles = titleLookup(before);
+  const afterTitles = titleLookup(after);
+  const beforeById = new Map(before.stages.map((stage, i) => [stage.id, { stage, index: i }]));
+  const afterIds = new Set(after.stages.map(stage => stage.id));
+
+  // The largest set of kept stages still in their old relative order counts as staying put.
+  const kept = after.stages.filter(stage => beforeById.has(stage.id));
+  const inPlace = longestIncreasing(kept.map(stage => beforeById.get(stage.id)!.index));
+  const movedIds = new Set(kept.filter((_, i) => !inPlace.has(i)).map(stage => stage.id));
+
+  const stages: StageDiff[] = after.stages.map(stage => {
+    const previous = beforeById.get(stage.id)?.stage;
+    return previous
+      ? { id: stage.id, kind: 'kept', moved: movedIds.has(stage.id), before: previous, after: stage, fields: compareFields(STAGE_FIELDS, previous, stage, beforeTitles, afterTitles) }
+      : { id: stage.id, kind: 'added', moved: false, after: stage, fields: [] };
+  });
+
+  // Removed stages go right after the stage that preceded them before.
+  let insertAt = 0;
+  before.stages.forEach(stage => {
+    if (afterIds.has(stage.id)) {
+      insertAt = stages.findIndex(s => s.id === stage.id) + 1;
+    } else {
+      stages.splice(insertAt++, 0, { id: stage.id, kind: 'removed', moved: false, before: stage, fields: [] });
+    }
+  });
+
+  return { document: compareFields(DOCUMENT_FIELDS, before, after, beforeTitles, afterTitles), stages };
+};
+
+/** The one change a stage is labelled with: being added or removed outweighs a move, a move outweighs edits. */
+export const getStageChange = (stage: StageDiff): StageChange | null => {
+  if (stage.kind !== 'kept') return stage.kind;
+  if (stage.moved) return 'moved';
+  return stage.fields.length > 0 ? 'edited' : null;
+};
+
+/**
+ * Puts one stage back the way it was in `source`: its fields, and its place
+ * after the stage that preceded it there. Dependencies on stages that no
+ * longer exist, or that would now close a cycle, are left out.
+ */
+export const restoreStage = (current: RoadmapData, source: RoadmapData, stageId: string): RoadmapData => {
+  const index = source.stages.findIndex(stage => stage.id === stageId);
+  if (index < 0) return current;
+
+  const stages = current.stages.filter(stage => stage.id !== stageId);
+  const remaining = new Set(stages.map(stage => stage.id));
+  // A lane that is gone now leaves the stage in the first lane.
+  const { laneId } = source.stages[index];
+  const hasLane = (current.lanes || []).some(lane => lane.id === laneId);
+  let restored: ProjectStage = { ...source.stages[index], dependsOn: undefined, laneId: hasLane ? laneId : undefined };
+  (source.stages[index].dependsOn || []).forEach(dep => {
+    if (!remaining.has(dep) || wouldCreateCycle([...stages, restored], stageId, dep)) return;
+    restored = { ...restored, dependsOn: [...(restored.dependsOn || []), dep] };
+  });
+
+  const predecessor = source.stages.slice(0, index).reverse().find(stage => remaining.has(stage.id));
+  const at = predecessor ? stages.findIndex(stage => stage.id === predecessor.id) + 1 : 0;
+  stages.splice(at, 0, restored);
+  return { ...current, stages };
+};
@@ -0,0 +1,359 @@
+import { PathType, RoadmapData } from '../types';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_LAYOUT, DEFAULT_ROADMAP, DEFAULT_THEME, LAYOUT_LIMITS, MAX_CARD_RADIUS, STAGE_STATUSES } from '../constants';
+import { parseIsoDate } from './dates';
+import { validateDependencies } from './dependencies';
+
+export interface SchemaError {
+  /** Location of the offending value, e.g. `stages[3].color`. */
+  path: string;
+  message: string;
+}
+
+export interface RoadmapParseResult {
+  /** The migrated roadmap, or null when validation failed. */
+  data: RoadmapData | null;
+  errors: SchemaError[];
+}
+
+type Migration = (raw: unknown) => unknown;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Each entry upgrades a document from version `n` to `n + 1`:
+ *   0 - bare array of stages (the very first saved format)
+ *   1 - { title, description, stages } without a version field
+ *   2 - adds `schemaVersion`, stage dates/durations and `dependsOn`
+ *   3 - adds `layout` settings and per-stage card `placement`
+ *   4 - adds the visual `theme`
+ *   5 - adds per-stage `tasks`
+ *   6 - adds stage `status` and `assignees`, and the roadmap's `currentPosition`
+ *   7 - adds review `comments`
+ *   8 - adds `lanes` and per-stage `laneId`
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (stages) => ({ title: DEFAULT_ROADMAP.title, description: DEFAULT_ROADMAP.description, stages }),
+  // Anything that is not an object by now is passed through for validation to reject.
+  1: (raw) => (isObject(raw) ? { ...raw } : raw),
+  2: (raw) => (isObject(raw) ? { ...raw, layout: { ...DEFAULT_LAYOUT } } : raw),
+  3: (raw) => (isObject(raw) ? { ...raw, theme: JSON.parse(JSON.stringify(DEFAULT_THEME)) } : raw),
+  4: (raw) => (isObject(raw) ? { ...raw } : raw),
+  5: (raw) => (isObject(raw) ? { ...raw } : raw),
+  6: (raw) => (isObject(raw) ? { ...raw } : raw),
+  7: (raw) => (isObject(raw) ? { ...raw } : raw)
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const ORIENTATIONS = ['serpentine', 'horizontal', 'vertical'];
+const ROAD_STYLES = ['curved', 'straight', 'zigzag'];
+
+const STATUS_VALUES = STAGE_STATUSES.map(status => status.value);
+
+const THEME_COLOR_KEYS = Object.keys(DEFAULT_THEME.colors);
+
+export const detectSchemaVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 0;
+  if (isObject(raw) && typeof raw.schemaVersion === 'number') return raw.schemaVersion;
+  return 1;
+};
+
+/** Runs every migration between the document's version and the current one. */
+export const migrateRoadmap = (raw: unknown): unknown => {
+  let version = detectSchemaVersion(raw);
+  let doc = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+    doc = migrate(doc);
+    version += 1;
+    if (isObject(doc)) doc = { ...doc, schemaVersion: version };
+  }
+  return doc;
+};
+
+const validateTasks = (tasks: unknown[], at: string): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const seenIds = new Set<string>();
+  tasks.forEach((task, i) => {
+    const path = `${at}[${i}]`;
+    if (!isObject(task)) {
+      errors.push({ path, message: 'expected object' });
+      return;
+    }
+    if (typeof task.id !== 'string' || task.id.trim() === '') {
+      errors.push({ path: `${path}.id`, message: 'expected non-empty string' });
+    } else if (seenIds.has(task.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicate id '${task.id}'` });
+    } else {
+      seenIds.add(task.id);
+    }
+    if (typeof task.title !== 'string') errors.push({ path: `${path}.title`, message: 'expected string' });
+    if (typeof task.done !== 'boolean') errors.push({ path: `${path}.done`, message: 'expected boolean' });
+    if (task.owner !== undefined && typeof task.owner !== 'string') {
+      errors.push({ path: `${path}.owner`, message: 'expected string' });
+    }
+    if (task.dueDate !== undefined && (typeof task.dueDate !== 'string' || parseIsoDate(task.dueDate) === null)) {
+      errors.push({ path: `${path}.dueDate`, message: 'expected date (YYYY-MM-DD)' });
+    }
+  });
+  return errors;
+};
+
+// Threads on a stage that has since been removed stay valid; the editor lists them with the roadmap's own.
+const validateComments = (comments: unknown[]): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const seenIds = new Set<string>();
+  const threadIds = new Set(comments.filter(c => isObject(c) && c.threadId === undefined).map(c => (c as { id: unknown }).id));
+  comments.forEach((comment, i) => {
+    const path = `comments[${i}]`;
+    if (!isObject(comment)) {
+      errors.push({ path, message: 'expected object' });
+      return;
+    }
+    if (typeof comment.id !== 'string' || comment.id.trim() === '') {
+      errors.push({ path: `${path}.id`, message: 'expected non-empty string' });
+    } else if (seenIds.has(comment.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicate id '${comment.id}'` });
+    } else {
+      seenIds.add(comment.id);
+    }
+    if (typeof comment.author !== 'string') errors.push({ path: `${path}.author`, message: 'expected string' });
+    if (typeof comment.text !== 'string') errors.push({ path: `${path}.text`, message: 'expected string' });
+    if (typeof comment.createdAt !== 'number' || !Number.isFinite(comment.createdAt)) {
+      errors.push({ path: `${path}.createdAt`, message: 'expected timestamp in milliseconds' });
+    }
+    if (comment.threadId === undefined) {
+      if (comment.stageId !== undefined && typeof comment.stageId !== 'string') {
+        errors.push({ path: `${path}.stageId`, message: 'expected string' });
+      }
+      if (comment.resolved !== undefined && typeof comment.resolved !== 'boolean') {
+        errors.push({ path: `${path}.resolved`, message: 'expected boolean' });
+      }
+    } else {
+      if (!threadIds.has(comment.threadId)) {
+        errors.push({ path: `${path}.threadId`, message: 'expected id of an opening comment' });
+      }
+      if (comment.stageId !== undefined || comment.resolved !== undefined) {
+        errors.push({ path, message: 'replies take their stage and resolved state from the thread' });
+      }
+    }
+  });
+  return errors;
+};
+
+const validateLanes = (lanes: unknown[]): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const seenIds = new Set<string>();
+  lanes.forEach((lane, i) => {
+    const path = `lanes[${i}]`;
+    if (!isObject(lane)) {
+      errors.push({ path, message: 'expected object' });
+      return;
+    }
+    if (typeof lane.id !== 'string' || lane.id.trim() === '') {
+      errors.push({ path: `${path}.id`, message: 'expected non-empty string' });
+    } else if (seenIds.has(lane.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicate id '${lane.id}'` });
+    } else {
+      seenIds.add(lane.id);
+    }
+    if (typeof lane.name !== 'string') errors.push({ path: `${path}.name`, message: 'expected string' });
+    if (typeof lane.color !== 'string' || !HEX_COLOR.test(lane.color)) errors.push({ path: `${path}.color`, message: 'expected hex color' });
+  });
+  return errors;
+};
+
+export const validateRoadmap = (value: unknown): SchemaError[] => {
+  if (!isObject(value)) return [{ path: '$', message: 'expected object' }];
+
+  const errors: SchemaError[] = [];
+  const expect = (ok: boolean, path: string, message: string) => {
+    if (!ok) errors.push({ path, message });
+  };
+
+  expect(value.schemaVersion === CURRENT_SCHEMA_VERSION, 'schemaVersion', `expected ${CURRENT_SCHEMA_VERSION}`);
+  expect(typeof value.title === 'string', 'title', 'expected string');
+  expect(typeof value.description === 'string', 'description', 'expected string');
+
+  if (!isObject(value.layout)) {
+    errors.push({ path: 'layout', message: 'expected object' });
+  } else {
+    const layout = value.layout;
+    expect(typeof layout.orientation === 'string' && ORIENTATIONS.includes(layout.orientation), 'layout.orientation', `expected one of ${ORIENTATIONS.join(', ')}`);
+    expect(typeof layout.roadStyle === 'string' && ROAD_STYLES.includes(layout.roadStyle), 'layout.roadStyle', `expected one of ${ROAD_STYLES.join(', ')}`);
+    (Object.keys(LAYOUT_LIMITS) as (keyof typeof LAYOUT_LIMITS)[]).forEach(key => {
+      const { min, max } = LAYOUT_LIMITS[key];
+      const setting = layout[key];
+      expect(
+        typeof setting === 'number' && Number.isInteger(setting) && setting >= min && setting <= max,
+        `layout.${key}`,
+        `expected integer between ${min} and ${max}`
+      );
+    });
+  }
+
+  if (!isObject(value.theme)) {
+    errors.push({ path: 'theme', message: 'expected object' });
+  } else {
+    const theme = value.theme;
+    expect(typeof theme.name === 'string', 'theme.name', 'expected string');
+    if (!Array.isArray(theme.palette) || theme.palette.length === 0) {
+      errors.push({ path: 'theme.palette', message: 'expected non-empty array of hex colors' });
+    } else {
+      theme.palette.forEach((color: unknown, i: number) => {
+        expect(typeof color === 'string' && HEX_COLOR.test(color), `theme.palette[${i}]`, 'expected hex color');
+      });
+    }
+    if (!isObject(theme.colors)) {
+      errors.push({ path: 'theme.colors', message: 'expected object' });
+    } else {
+      THEME_COLOR_KEYS.forEach(key => {
+        const color = theme.colors[key];
+        expect(typeof color === 'string' && HEX_COLOR.test(color), `theme.colors.${key}`, 'expected hex color');
+      });
+    }
+    if (!isObject(theme.fonts)) {
+      errors.push({ path: 'theme.fonts', message: 'expected object' });
+    } else {
+      ['heading', 'body'].forEach(key => {
+        expect(typeof theme.fonts[key] === 'string' && theme.fonts[key].trim() !== '', `theme.fonts.${key}`, 'expected font family');
+      });
+    }
+    expect(
+      typeof theme.cardRadius === 'number' && theme.cardRadius >= 0 && theme.cardRadius <= MAX_CARD_RADIUS,
+      'theme.cardRadius',
+      `expected number between 0 and ${MAX_CARD_RADIUS}`
+    );
+    if (theme.logo !== undefined) {
+      expect(typeof theme.logo === 'string' && theme.logo.startsWith('data:image/'), 'theme.logo', 'expected image data URL');
+    }
+  }
+
+  const laneIds = new Set<string>();
+  if (value.lanes !== undefined) {
+    if (!Array.isArray(value.lanes)) {
+      errors.push({ path: 'lanes', message: 'expected array' });
+    } else {
+      validateLanes(value.lanes).forEach(error => errors.push(error));
+      value.lanes.forEach((lane: unknown) => {
+        if (isObject(lane) && typeof lane.id === 'string') laneIds.add(lane.id);
+      });
+    }
+  }
+
+  if (!Array.isArray(value.stages)) {
+    errors.push({ path: 'stages', message: 'expected array' });
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+  value.stages.forEach((stage: unknown, i: number) => {
+    const at = `stages[${i}]`;
+    if (!isObject(stage)) {
+      errors.push({ path: at, message: 'expected object' });
+      return;
+    }
+
+    if (typeof stage.id !== 'string' || stage.id.trim() === '') {
+      errors.push({ path: `${at}.id`, message: 'expected non-empty string' });
+    } else if (seenIds.has(stage.id)) {
+      errors.push({ path: `${at}.id`, message: `duplicate id '${stage.id}'` });
+    } else {
+      seenIds.add(stage.id);
+    }
+
+    expect(typeof stage.title === 'string', `${at}.title`, 'expected string');
+    expect(typeof stage.description === 'string', `${at}.description`, 'expected string');
+    expect(typeof stage.color === 'string' && HEX_COLOR.test(stage.color), `${at}.color`, 'expected hex color');
+
+    ['startDate', 'endDate'].forEach(key => {
+      if (stage[key] !== undefined) {
+        expect(typeof stage[key] === 'string' && parseIsoDate(stage[key]) !== null, `${at}.${key}`, 'expected date (YYYY-MM-DD)');
+      }
+    });
+    if (stage.durationDays !== undefined) {
+      expect(
+        typeof stage.durationDays === 'number' && Number.isFinite(stage.durationDays) && stage.durationDays > 0,
+        `${at}.durationDays`,
+        'expected positive number'
+      );
+    }
+    if (stage.dependsOn !== undefined) {
+      expect(
+        Array.isArray(stage.dependsOn) && stage.dependsOn.every((d: unknown) => typeof d === 'string'),
+        `${at}.dependsOn`,
+        'expected array of stage ids'
+      );
+    }
+    if (stage.tasks !== undefined) {
+      if (!Array.isArray(stage.tasks)) {
+        errors.push({ path: `${at}.tasks`, message: 'expected array' });
+      } else {
+        validateTasks(stage.tasks, `${at}.tasks`).forEach(error => errors.push(error));
+      }
+    }
+    if (stage.status !== undefined) {
+      expect(STATUS_VALUES.some(status => status === stage.status), `${at}.status`, `expected one of ${STATUS_VALUES.join(', ')}`);
+    }
+    if (stage.assignees !== undefined) {
+      expect(
+        Array.isArray(stage.assignees) && stage.assignees.every((a: unknown) => typeof a === 'string' && a.trim() !== ''),
+        `${at}.assignees`,
+        'expected array of names'
+      );
+    }
+    if (stage.placement !== undefined) {
+      expect(
+        stage.placement === PathType.PEAK || stage.placement === PathType.VALLEY,
+        `${at}.placement`,
+        `expected ${PathType.PEAK} or ${PathType.VALLEY}`
+      );
+    }
+    if (stage.laneId !== undefined) {
+      expect(typeof stage.laneId === 'string' && laneIds.has(stage.laneId), `${at}.laneId`, 'expected id of an existing lane');
+    }
+  });
+
+  if (value.currentPosition !== undefined) {
+    const position = value.currentPosition;
+    if (!isObject(position)) {
+      errors.push({ path: 'currentPosition', message: 'expected object' });
+    } else {
+      expect(typeof position.stageId === 'string' && seenIds.has(position.stageId), 'currentPosition.stageId', 'expected id of an existing stage');
+      expect(
+        typeof position.offset === 'number' && position.offset >= 0 && position.offset <= 1,
+        'currentPosition.offset',
+        'expected number between 0 and 1'
+      );
+    }
+  }
+
+  if (value.comments !== undefined) {
+    if (!Array.isArray(value.comments)) {
+      errors.push({ path: 'comments', message: 'expected array' });
+    } else {
+      validateComments(value.comments).forEach(error => errors.push(error));
+    }
+  }
+
+  // Graph checks only make sense once every stage has a usable shape.
+  if (errors.length === 0) {
+    const indexById = new Map<string, number>(value.stages.map((s: { id: string }, i: number) => [s.id, i]));
+    validateDependencies(value.stages).forEach(issue => {
+      errors.push({ path: `stages[${indexById.get(issue.stageId)}].dependsOn`, message: issue.message });
+    });
+  }
+
+  return errors;
+};
+
+export const formatSchemaError = (error: SchemaError) => `${error.path}: ${error.message}`;
+
+/** Shared entry point for anything that brings roadmap JSON into the app. */
+export const parseRoadmap = (raw: unknown): RoadmapParseResult => {
+  const migrated = migrateRoadmap(raw);
+  const errors = validateRoadmap(migrated);
+  return { data: errors.length > 0 ? null : (migrated as RoadmapData), errors };
+};
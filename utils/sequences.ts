@@ -0,0 +1,71 @@
+/** Indices (into `values`) of a longest strictly increasing subsequence. */
+export const longestIncreasing = (values: number[]) => {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+  const result = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) result.add(i);
+  return result;
+};
+
+export interface TextDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many token pairs the comparison table gets too big; the text is shown as replaced outright.
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff of two strings (longest common subsequence of words and
+ * whitespace runs). Neighbouring parts of the same type are merged.
+ */
+export const diffText = (before: string, after: string): TextDiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push('removed', before);
+    if (after) push('added', after);
+    return parts;
+  }
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,160 @@
+import { ProjectStage, RoadmapData, RoadmapTemplate } from '../types';
+import { TEMPLATE_START_DATE } from '../constants';
+import { DAY_MS, formatIsoDate, parseIsoDate, resolveStageSpan, todayUtc } from './dates';
+
+// `{{key}}`, or `{{key+N}}` / `{{key-N}}` for a date N days later or earlier.
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w]*)\s*(?:([+-])\s*(\d+)\s*)?\}\}/g;
+
+/** Applies `replace` to every string in a JSON value, leaving its shape alone. */
+const mapStrings = (value: unknown, replace: (text: string) => string): unknown => {
+  if (typeof value === 'string') return replace(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, replace));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, replace)]));
+  }
+  return value;
+};
+
+/** Keys of every placeholder used in the template's text. */
+export const findTemplateKeys = (data: RoadmapData): string[] => {
+  const keys = new Set<string>();
+  mapStrings(data, text => {
+    for (const match of text.matchAll(PLACEHOLDER)) keys.add(match[1]);
+    return text;
+  });
+  return [...keys];
+};
+
+/** The values a new roadmap starts with: each variable's default, and today for dates. */
+export const defaultTemplateValues = (template: RoadmapTemplate): Record<string, string> =>
+  Object.fromEntries(
+    template.variables.map(variable => [variable.key, variable.defaultValue ?? (variable.kind === 'date' ? formatIsoDate(todayUtc()) : '')])
+  );
+
+/**
+ * Fills in a template's blanks. Empty text values fall back to the variable's
+ * label, so nothing reads as a stray gap; unreadable dates fall back to today.
+ * Placeholders with no matching variable are left as written.
+ */
+export const fillTemplate = (template: RoadmapTemplate, values: Record<string, string>): RoadmapData => {
+  const variables = new Map(template.variables.map(variable => [variable.key, variable]));
+  // Only strings change, so the result keeps the template roadmap's shape.
+  return mapStrings(template.data, text =>
+    text.replace(PLACEHOLDER, (placeholder, key: string, sign?: string, days?: string) => {
+      const variable = variables.get(key);
+      if (!variable) return placeholder;
+      const value = (values[key] ?? '').trim();
+      if (variable.kind === 'text') return value || variable.label;
+      const offset = days ? Number(days) * (sign === '-' ? -1 : 1) : 0;
+      return formatIsoDate((parseIsoDate(value) ?? todayUtc()) + offset * DAY_MS);
+    })
+  ) as RoadmapData;
+};
+
+export interface TemplateReplacement {
+  label: string;
+  /** Text in the roadmap that becomes the blank. */
+  text: string;
+}
+
+// Only the words people wrote; colors, images and ids are never treated as text to replace.
+const mapWrittenText = (data: RoadmapData, replace: (text: string) => string): RoadmapData => ({
+  ...data,
+  title: replace(data.title),
+  description: replace(data.description),
+  lanes: data.lanes?.map(lane => ({ ...lane, name: replace(lane.name) })),
+  stages: data.stages.map(stage => ({
+    ...stage,
+    title: replace(stage.title),
+    description: replace(stage.description),
+    assignees: stage.assignees?.map(replace),
+    tasks: stage.tasks?.map(task => ({ ...task, title: replace(task.title), owner: task.owner && replace(task.owner) }))
+  }))
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "Client name" -> "clientName"; numbered when the key is taken.
+const toVariableKey = (label: string, taken: Set<string>) => {
+  const words = label.trim().replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const base = words.length > 0 && /^[A-Za-z]/.test(words[0])
+    ? words.map((word, i) => (i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())).join('')
+    : 'value';
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}${n}`;
+  taken.add(key);
+  return key;
+};
+
+// Fixed dates become offsets from the earliest one, task due dates included,
+// so the plan moves with the chosen start date.
+const relativeDates = (stages: ProjectStage[]): ProjectStage[] => {
+  const dates = stages.flatMap(stage => [
+    resolveStageSpan(stage)?.start ?? null,
+    ...(stage.tasks || []).map(task => parseIsoDate(task.dueDate))
+  ]).filter((time): time is number => time !== null);
+  if (dates.length === 0) return stages;
+  const origin = Math.min(...dates);
+  const shift = (date?: string) => {
+    const time = parseIsoDate(date);
+    if (time === null) return date;
+    const days = Math.round((time - origin) / DAY_MS);
+    if (days === 0) return `{{${TEMPLATE_START_DATE.key}}}`;
+    return days > 0 ? `{{${TEMPLATE_START_DATE.key}+${days}}}` : `{{${TEMPLATE_START_DATE.key}-${-days}}}`;
+  };
+  return stages.map(stage => ({
+    ...stage,
+    startDate: shift(stage.startDate),
+    endDate: shift(stage.endDate),
+    tasks: stage.tasks?.map(task => ({ ...task, dueDate: shift(task.dueDate) }))
+  }));
+};
+
+/**
+ * Turns a roadmap into a template. Progress is reset and review comments are
+ * dropped, since a template is a fresh start; each replacement's text becomes
+ * a blank, and dates optionally become relative to a start date.
+ */
+export const createTemplate = (
+  data: RoadmapData,
+  options: { name: string; description: string; replacements: TemplateReplacement[]; useStartDate: boolean }
+): RoadmapTemplate => {
+  const taken = new Set<string>(options.useStartDate ? [TEMPLATE_START_DATE.key] : []);
+  const replacements = options.replacements
+    .filter(replacement => replacement.text.trim() && replacement.label.trim())
+    .map(replacement => ({ ...replacement, text: replacement.text.trim(), key: toVariableKey(replacement.label, taken) }))
+    // Longer texts first, so the alternation prefers one that contains another.
+    .sort((a, b) => b.text.length - a.text.length);
+
+  const fresh: RoadmapData = {
+    ...data,
+    comments: undefined,
+    currentPosition: undefined,
+    stages: data.stages.map(stage => ({
+      ...stage,
+      status: undefined,
+      tasks: stage.tasks?.map(task => ({ ...task, done: false }))
+    }))
+  };
+  // One pass over the text, so a placeholder just inserted is never matched by a later replacement.
+  const keyByText = new Map<string, string>();
+  for (const { text, key } of replacements) if (!keyByText.has(text)) keyByText.set(text, key);
+  const pattern = new RegExp([...keyByText.keys()].map(escapeRegExp).join('|'), 'g');
+  const withBlanks = keyByText.size > 0
+    ? mapWrittenText(fresh, text => text.replace(pattern, found => `{{${keyByText.get(found)}}}`))
+    : fresh;
+  const dated = options.useStartDate ? { ...withBlanks, stages: relativeDates(withBlanks.stages) } : withBlanks;
+  const usesStartDate = options.useStartDate && findTemplateKeys(dated).includes(TEMPLATE_START_DATE.key);
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: options.name.trim() || data.title || 'Untitled Template',
+    description: options.description.trim(),
+    variables: [
+      ...replacements.map(({ key, label, text }) => ({ key, label: label.trim(), kind: 'text' as const, defaultValue: text })),
+      ...(usesStartDate ? [TEMPLATE_START_DATE] : [])
+    ],
+    data: JSON.parse(JSON.stringify(dated)),
+    createdAt: Date.now()
+  };
+};
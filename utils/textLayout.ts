@@ -0,0 +1,72 @@
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  /** Extra spacing per character, in ems. */
+  letterSpacing?: number;
+  uppercase?: boolean;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getContext = () => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  return measureContext;
+};
+
+// Rough average glyph width, only used if a 2D canvas is unavailable.
+const FALLBACK_CHAR_WIDTH = 0.56;
+
+export const measureText = (text: string, style: TextStyle): number => {
+  const value = style.uppercase ? text.toUpperCase() : text;
+  const spacing = (style.letterSpacing || 0) * style.fontSize * value.length;
+  const ctx = getContext();
+  if (!ctx) return value.length * style.fontSize * FALLBACK_CHAR_WIDTH + spacing;
+  ctx.font = `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+  return ctx.measureText(value).width + spacing;
+};
+
+const truncateToWidth = (text: string, maxWidth: number, style: TextStyle) => {
+  let value = text;
+  while (value.length > 0 && measureText(`${value}…`, style) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value.trimEnd()}…`;
+};
+
+/**
+ * Greedy word wrap using real font metrics. Words wider than a line are broken
+ * by character, and text beyond `maxLines` is cut with an ellipsis.
+ */
+export const wrapText = (text: string, maxWidth: number, style: TextStyle, maxLines = Infinity): string[] => {
+  const lines: string[] = [];
+  const paragraphs = (style.uppercase ? text.toUpperCase() : text).split('\n');
+
+  for (const paragraph of paragraphs) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, style) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      // Break words that cannot fit on a line of their own.
+      while (measureText(line, style) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), style) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = truncateToWidth(`${kept[maxLines - 1]} ${lines[maxLines]}`, maxWidth, style);
+    return kept;
+  }
+  return lines;
+};